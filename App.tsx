@@ -1,42 +1,161 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { CpuStressTest } from './components/CpuStressTest';
 import { ChaosMonkey } from './components/ChaosMonkey';
 import { RenderLagSimulator } from './components/RenderLagSimulator';
-import { MissionClock } from './lib';
+import { MARKER_CATEGORIES, MissionClock, describeMarker, formatTime, formatTimeMs, markersToCsv, markersToEdl, markersToWebVtt, describeChord, HOTKEY_COMMANDS, useBroadcastMatchTimer, useHotkeys, useLiveLock, useClockAuditLog, useClockStore, useMatchPeriodController, TIME_FORMATS, TIME_PRECISIONS, TIMECODE_RATES } from './lib';
+import type { ClockBackend, ClockHistoryEntry, HotkeyCommand, InputTimestamp, MarkerCategory, MatchPeriod, MissionClockHandle, TimeFormat, TimePrecision, TimecodeRate } from './lib';
 import { NaiveClock, NaiveClockHandle } from './components/NaiveClock';
 
+const BACKEND_LABELS: Record<ClockBackend, { thread: string; surface: string }> = {
+  'worker': { thread: 'WORKER THREAD :: ACTIVE', surface: 'OFFSCREENCANVAS' },
+  'main-thread': { thread: 'MAIN THREAD :: FALLBACK', surface: 'CANVAS 2D' },
+  'dom': { thread: 'MAIN THREAD :: FALLBACK', surface: 'DOM TEXT' },
+};
+
+// "-01:00:00" for an undoable change of the clock
+const formatDelta = (entry: ClockHistoryEntry | undefined) =>
+  entry ? `${entry.deltaMs < 0 ? '-' : '+'}${formatTime(Math.round(Math.abs(entry.deltaMs) / 1000))}` : '';
+
+const MARKER_BUTTONS: Record<MarkerCategory, { label: string; className: string }> = {
+  goal: { label: 'GOAL', className: 'text-emerald-400 hover:border-emerald-500/50' },
+  card: { label: 'CARD', className: 'text-yellow-400 hover:border-yellow-500/50' },
+  substitution: { label: 'SUB', className: 'text-sky-400 hover:border-sky-500/50' },
+  other: { label: 'NOTE', className: 'text-slate-300 hover:border-slate-500/50' },
+};
+
+// Jump straight to a regulation time, without changing the period
+const PRESETS = [
+  { label: 'Halftime (45:00)', value: 45 * 60 },
+  { label: 'Full Time (90:00)', value: 90 * 60 },
+  { label: 'Extra Time (120:00)', value: 120 * 60 },
+];
+
+// Thresholds offered for "large jump" while live
+const LARGE_JUMP_OPTIONS = [
+  { seconds: 60, label: '1m' },
+  { seconds: 300, label: '5m' },
+  { seconds: 3600, label: '1h' },
+];
+
+// Hotkeys pass their key event as the input time
+const isKeyRepeat = (input?: InputTimestamp) => typeof input === 'object' && 'repeat' in input && input.repeat === true;
+
+// An action armed by the live lock, waiting for its confirming click
+const ARMED_CLASS = 'ring-2 ring-amber-400 animate-pulse';
+
+// Saves an exported log through a temporary link
+const downloadText = (fileName: string, type: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 function App() {
-  const clockControllerRef = useRef<any>(null);
+  const clockRef = useRef<MissionClockHandle>(null);
   const naiveClockRef = useRef<NaiveClockHandle>(null);
   
-  const [isRunning, setIsRunning] = useState(false);
+  // One time model for the canvas clock and the headless state below
+  const clockStore = useClockStore();
+  const {
+    isRunning, canUndo, canRedo, undo, redo, setPeriod, mark, markers, removeMarker, clearMarkers
+  } = useBroadcastMatchTimer(0, { store: clockStore });
+  const [format, setFormat] = useState<TimeFormat>('HH:MM:SS');
+  const [precision, setPrecision] = useState<TimePrecision>('seconds');
+  const [timecodeRate, setTimecodeRate] = useState<TimecodeRate>('25');
+  const [backend, setBackend] = useState<ClockBackend>('worker');
+  const [markerLabel, setMarkerLabel] = useState('');
+
+  // Every command the store applies, plus the display settings below
+  const { log: auditLog, entries: logEntries } = useClockAuditLog(clockStore);
+  useEffect(() => {
+    auditLog.record({ type: 'UPDATE_CONFIG', payload: { format, precision, timecodeRate } });
+  }, [auditLog, format, precision, timecodeRate]);
+  const lastLogEntry = logEntries[logEntries.length - 1];
 
   const actions = {
-    start: () => {
-      clockControllerRef.current?.start();
+    start: (input?: InputTimestamp) => {
+      clockRef.current?.start(input);
       naiveClockRef.current?.start();
-      setIsRunning(true);
     },
-    pause: () => {
-      clockControllerRef.current?.pause();
+    pause: (input?: InputTimestamp) => {
+      clockRef.current?.pause(input);
       naiveClockRef.current?.pause();
-      setIsRunning(false);
     },
-    setTime: (s: number) => {
-      clockControllerRef.current?.setTime(s);
+    setTime: (s: number, input?: InputTimestamp) => {
+      clockRef.current?.setTime(s, input);
       naiveClockRef.current?.setTime(s);
     },
-    adjustTime: (delta: number) => {
-      clockControllerRef.current?.adjustTime(delta);
+    adjustTime: (delta: number, input?: InputTimestamp) => {
+      clockRef.current?.adjustTime(delta, input);
       naiveClockRef.current?.adjustTime(delta);
+    },
+    // Markers record the period they were taken in
+    setPeriod,
+    // Stoppage time is rendered by the worker clock only
+    setStoppageBoundary: (s: number | null) => {
+      clockRef.current?.setStoppageBoundary(s);
+    },
+    announceAddedTime: (minutes: number) => {
+      clockRef.current?.announceAddedTime(minutes);
+    },
+    clearAddedTime: () => {
+      clockRef.current?.clearAddedTime();
+    },
+    // The store keeps the history; the naive clock follows by the same offset
+    undo: () => {
+      const entry = undo();
+      if (entry) naiveClockRef.current?.adjustTime(-entry.deltaMs / 1000);
+    },
+    redo: () => {
+      const entry = redo();
+      if (entry) naiveClockRef.current?.adjustTime(entry.deltaMs / 1000);
     }
   };
+  const history = clockStore.getHistory();
   
-  const presets = [
-    { label: 'HT (45:00)', value: 45 * 60 },
-    { label: 'FT (90:00)', value: 90 * 60 },
-    { label: 'ET (120:00)', value: 120 * 60 },
-  ];
+  // Period transitions drive the same actions as the manual controls
+  const { controller: periods, definition: period, nextPeriods } = useMatchPeriodController(() => [actions]);
+
+  // Live lock: on air, destructive controls take a second click (or key press) to run
+  const { lock, locked, armed, largeJumpSeconds } = useLiveLock({ isRunning: () => clockStore.getAnchor().isRunning });
+  const lastDelta = (stack: readonly ClockHistoryEntry[]) => (stack[stack.length - 1]?.deltaMs ?? 0) / 1000;
+  const armedClass = (id: string) => (armed === id ? ARMED_CLASS : '');
+  const guarded = {
+    reset: (input?: InputTimestamp) => lock.run('reset', { kind: 'reset' }, () => actions.setTime(0, input)),
+    adjustTime: (delta: number, input?: InputTimestamp) => {
+      const guard = { kind: 'jump' as const, deltaSeconds: delta };
+      // A held arrow key repeats: the repeat must not confirm the jump it armed
+      if (isKeyRepeat(input) && lock.needsConfirmation(guard)) return;
+      lock.run(`adjust:${delta}`, guard, () => actions.adjustTime(delta, input));
+    },
+    transitionTo: (p: MatchPeriod) => lock.run(`period:${p}`, { kind: 'preset' }, () => periods.transitionTo(p)),
+    setTime: (seconds: number, input?: InputTimestamp) => lock.run(`preset:${seconds}`, { kind: 'preset' }, () => actions.setTime(seconds, input)),
+    // Undoing a -1h is a +1h jump
+    undo: () => lock.run('undo', { kind: 'jump', deltaSeconds: -lastDelta(clockStore.getHistory().undoStack) }, actions.undo),
+    redo: () => lock.run('redo', { kind: 'jump', deltaSeconds: lastDelta(clockStore.getHistory().redoStack) }, actions.redo)
+  };
+
+  // Keyboard / stream deck control through the same actions. Start / Pause reads the store,
+  // not `isRunning`: keys queued behind a blocked main thread arrive before React re-renders
+  const { hotkeys, bindings, capturing } = useHotkeys({
+    startPause: (input) => (clockStore.getAnchor().isRunning ? actions.pause(input) : actions.start(input)),
+    reset: (input) => guarded.reset(input),
+    nextPeriod: () => {
+      const next = periods.getNextPeriods()[0];
+      if (next) guarded.transitionTo(next);
+    },
+    secondBack: (input) => guarded.adjustTime(-1, input),
+    secondForward: (input) => guarded.adjustTime(1, input),
+    minuteBack: (input) => guarded.adjustTime(-60, input),
+    minuteForward: (input) => guarded.adjustTime(60, input),
+    hourBack: (input) => guarded.adjustTime(-3600, input),
+    hourForward: (input) => guarded.adjustTime(3600, input),
+    undo: guarded.undo,
+    redo: guarded.redo
+  });
 
   return (
     <div className="min-h-screen bg-[#020617] text-slate-200 font-sans selection:bg-blue-500/30">
@@ -91,12 +210,15 @@ function App() {
                   <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Master Reference</span>
                   <div className="flex items-center gap-2">
                     <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse shadow-[0_0_8px_#22c55e]" />
-                    <span className="text-xs font-bold text-green-500 tracking-wider">WORKER THREAD :: ACTIVE</span>
+                    <span className="text-xs font-bold text-green-500 tracking-wider">{BACKEND_LABELS[backend].thread}</span>
                   </div>
                 </div>
-                <div className="text-right">
+                <div className="text-right flex flex-col items-end gap-1">
                    <div className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-[10px] font-mono text-slate-400">
-                     OFFSCREENCANVAS
+                     {BACKEND_LABELS[backend].surface}
+                   </div>
+                   <div data-testid="current-period" className="px-2 py-1 bg-green-950/50 border border-green-900 rounded text-[10px] font-mono font-bold text-green-400 tracking-widest">
+                     {period.label}
                    </div>
                 </div>
               </div>
@@ -104,24 +226,118 @@ function App() {
               {/* THE CLOCK COMPONENT */}
               <div className="w-full h-full flex items-center justify-center">
                  <MissionClock 
-                    controllerRef={clockControllerRef}
-                    initialSeconds={0}
+                    ref={clockRef}
+                    store={clockStore}
+                    onBackendChange={setBackend}
                     className="w-full h-64" // Height is arbitrary, canvas scales
                     config={{
                         textColor: isRunning ? '#22c55e' : '#475569',
                         glowEffect: true,
-                        backgroundColor: 'transparent' // Let container bg show
+                        backgroundColor: 'transparent', // Let container bg show
+                        format,
+                        precision,
+                        timecodeRate
                     }}
                 />
               </div>
 
+              {/* DISPLAY FORMAT */}
+              <div className="flex gap-1 mt-2">
+                {TIME_FORMATS.map(f => (
+                  <button
+                    key={f}
+                    onClick={() => setFormat(f)}
+                    className={`px-2 py-1 rounded text-[10px] font-mono font-bold border transition-colors ${
+                      f === format
+                        ? 'bg-slate-800 border-slate-600 text-white'
+                        : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {f}
+                  </button>
+                ))}
+                <span className="w-px bg-slate-800 mx-1" />
+                {TIME_PRECISIONS.map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setPrecision(p)}
+                    className={`px-2 py-1 rounded text-[10px] font-mono font-bold uppercase border transition-colors ${
+                      p === precision
+                        ? 'bg-slate-800 border-slate-600 text-white'
+                        : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {p}
+                  </button>
+                ))}
+              </div>
+
+              {/* TIMECODE RATE (only relevant in TIMECODE format) */}
+              {format === 'TIMECODE' && (
+                <div className="flex gap-1 mt-1">
+                  {TIMECODE_RATES.map(r => (
+                    <button
+                      key={r}
+                      onClick={() => setTimecodeRate(r)}
+                      className={`px-2 py-1 rounded text-[10px] font-mono font-bold border transition-colors ${
+                        r === timecodeRate
+                          ? 'bg-slate-800 border-slate-600 text-white'
+                          : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      {r}
+                    </button>
+                  ))}
+                </div>
+              )}
+
             </div>
           </div>
 
+          {/* LIVE LOCK */}
+          <div
+            data-testid="live-lock"
+            className={`flex flex-wrap items-center gap-3 rounded-xl border p-3 transition-colors ${
+              locked ? 'bg-red-950/40 border-red-700' : 'bg-slate-900/30 border-slate-800'
+            }`}
+          >
+             <button
+               onClick={() => lock.setLocked(!locked)}
+               className={`px-3 py-2 rounded text-xs font-mono font-bold border transition-colors ${
+                 locked
+                   ? 'bg-red-600 border-red-500 text-white shadow-[0_0_12px_rgba(220,38,38,0.5)]'
+                   : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-white'
+               }`}
+             >
+               {locked ? '🔒 LIVE LOCK ON' : '🔓 LIVE LOCK OFF'}
+             </button>
+             <span className={`flex-1 text-[10px] font-mono uppercase tracking-widest ${locked ? 'text-red-300' : 'text-slate-600'}`}>
+               {locked
+                 ? (armed ? 'ARMED :: CLICK AGAIN TO CONFIRM' : 'RESET, LARGE JUMPS & PRESETS WHILE RUNNING NEED TWO CLICKS')
+                 : 'ALL CONTROLS FIRE IMMEDIATELY'}
+             </span>
+             <div className="flex items-center gap-1">
+               <span className="text-[10px] font-mono text-slate-500 mr-1">LARGE JUMP ≥</span>
+               {LARGE_JUMP_OPTIONS.map(option => (
+                 <button
+                   key={option.seconds}
+                   onClick={() => lock.setLargeJumpSeconds(option.seconds)}
+                   className={`px-2 py-1 rounded text-[10px] font-mono font-bold border transition-colors ${
+                     option.seconds === largeJumpSeconds
+                       ? 'bg-slate-800 border-slate-600 text-white'
+                       : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'
+                   }`}
+                 >
+                   {option.label}
+                 </button>
+               ))}
+             </div>
+          </div>
+
           {/* CONTROL DECK */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
              {/* Primary Controls */}
-             <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-800 flex gap-3">
+             <div className={`bg-slate-900/50 rounded-xl p-4 border flex gap-3 ${locked ? 'border-red-800' : 'border-slate-800'}`}>
                 <button
                   onClick={isRunning ? actions.pause : actions.start}
                   className={`flex-1 rounded-lg font-bold text-lg tracking-wide shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 ${
@@ -133,22 +349,35 @@ function App() {
                   {isRunning ? 'PAUSE' : 'START'}
                 </button>
                 <button
-                  onClick={() => actions.setTime(0)}
-                  className="px-6 rounded-lg font-bold text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-all active:scale-95"
+                  onClick={(e) => guarded.reset(e)}
+                  className={`px-6 rounded-lg font-bold text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-all active:scale-95 ${armedClass('reset')}`}
                 >
-                  RESET
+                  {armed === 'reset' ? 'CONFIRM' : 'RESET'}
                 </button>
              </div>
 
-             {/* Preset Controls */}
+             {/* Match Period Controls */}
              <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-800 flex gap-2 overflow-x-auto">
-                {presets.map(p => (
+                {nextPeriods.map(p => (
                   <button 
+                    key={p}
+                    onClick={() => guarded.transitionTo(p)}
+                    className={`flex-1 min-w-[80px] py-3 text-xs font-mono font-bold text-slate-400 bg-slate-950 border border-slate-800 rounded hover:bg-slate-800 hover:text-white transition-colors ${armedClass(`period:${p}`)}`}
+                  >
+                    {armed === `period:${p}` ? 'CONFIRM' : '→'} {periods.getDefinition(p).label}
+                  </button>
+                ))}
+                {nextPeriods.length === 0 && (
+                  <span className="flex-1 py-3 text-center text-xs font-mono font-bold text-slate-600">MATCH COMPLETE</span>
+                )}
+                <span className="w-px bg-slate-800 mx-1" />
+                {PRESETS.map(p => (
+                  <button
                     key={p.value}
-                    onClick={() => actions.setTime(p.value)}
-                    className="flex-1 min-w-[80px] py-3 text-xs font-mono font-bold text-slate-400 bg-slate-950 border border-slate-800 rounded hover:bg-slate-800 hover:text-white transition-colors"
+                    onClick={(e) => guarded.setTime(p.value, e)}
+                    className={`flex-1 min-w-[80px] py-3 text-xs font-mono font-bold text-slate-500 bg-slate-950 border border-slate-800 rounded hover:bg-slate-800 hover:text-white transition-colors ${armedClass(`preset:${p.value}`)}`}
                   >
-                    {p.label}
+                    {armed === `preset:${p.value}` ? 'CONFIRM ' : ''}{p.label}
                   </button>
                 ))}
              </div>
@@ -162,14 +391,133 @@ function App() {
              </div>
              <div className="grid grid-cols-6 gap-2">
                 {/* Seconds */}
-                <button onClick={() => actions.adjustTime(-1)} className="p-2 bg-slate-950 text-blue-400 border border-slate-800 rounded hover:border-blue-500/50 text-xs font-mono font-bold">-1s</button>
-                <button onClick={() => actions.adjustTime(1)} className="p-2 bg-slate-950 text-blue-400 border border-slate-800 rounded hover:border-blue-500/50 text-xs font-mono font-bold">+1s</button>
+                <button onClick={(e) => guarded.adjustTime(-1, e)} className={`p-2 bg-slate-950 text-blue-400 border border-slate-800 rounded hover:border-blue-500/50 text-xs font-mono font-bold ${armedClass('adjust:-1')}`}>-1s</button>
+                <button onClick={(e) => guarded.adjustTime(1, e)} className={`p-2 bg-slate-950 text-blue-400 border border-slate-800 rounded hover:border-blue-500/50 text-xs font-mono font-bold ${armedClass('adjust:1')}`}>+1s</button>
                 {/* Minutes */}
-                <button onClick={() => actions.adjustTime(-60)} className="p-2 bg-slate-950 text-indigo-400 border border-slate-800 rounded hover:border-indigo-500/50 text-xs font-mono font-bold">-1m</button>
-                <button onClick={() => actions.adjustTime(60)} className="p-2 bg-slate-950 text-indigo-400 border border-slate-800 rounded hover:border-indigo-500/50 text-xs font-mono font-bold">+1m</button>
+                <button onClick={(e) => guarded.adjustTime(-60, e)} className={`p-2 bg-slate-950 text-indigo-400 border border-slate-800 rounded hover:border-indigo-500/50 text-xs font-mono font-bold ${armedClass('adjust:-60')}`}>-1m</button>
+                <button onClick={(e) => guarded.adjustTime(60, e)} className={`p-2 bg-slate-950 text-indigo-400 border border-slate-800 rounded hover:border-indigo-500/50 text-xs font-mono font-bold ${armedClass('adjust:60')}`}>+1m</button>
                 {/* Hours */}
-                <button onClick={() => actions.adjustTime(-3600)} className="p-2 bg-slate-950 text-purple-400 border border-slate-800 rounded hover:border-purple-500/50 text-xs font-mono font-bold">-1h</button>
-                <button onClick={() => actions.adjustTime(3600)} className="p-2 bg-slate-950 text-purple-400 border border-slate-800 rounded hover:border-purple-500/50 text-xs font-mono font-bold">+1h</button>
+                <button onClick={(e) => guarded.adjustTime(-3600, e)} className={`p-2 bg-slate-950 text-purple-400 border border-slate-800 rounded hover:border-purple-500/50 text-xs font-mono font-bold ${armedClass('adjust:-3600')}`}>-1h</button>
+                <button onClick={(e) => guarded.adjustTime(3600, e)} className={`p-2 bg-slate-950 text-purple-400 border border-slate-800 rounded hover:border-purple-500/50 text-xs font-mono font-bold ${armedClass('adjust:3600')}`}>+1h</button>
+             </div>
+             {/* Undo / Redo (time that has run since the change is kept) */}
+             <div className="grid grid-cols-2 gap-2 mt-2">
+                <button
+                  onClick={guarded.undo}
+                  disabled={!canUndo}
+                  className={`p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold disabled:opacity-40 disabled:cursor-not-allowed ${armedClass('undo')}`}
+                >
+                  ↶ UNDO {formatDelta(history.undoStack[history.undoStack.length - 1])}
+                </button>
+                <button
+                  onClick={guarded.redo}
+                  disabled={!canRedo}
+                  className={`p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold disabled:opacity-40 disabled:cursor-not-allowed ${armedClass('redo')}`}
+                >
+                  REDO {formatDelta(history.redoStack[history.redoStack.length - 1])} ↷
+                </button>
+             </div>
+          </div>
+
+          {/* ADDED TIME */}
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800 p-4">
+             <div className="flex items-center justify-between mb-3">
+               <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Added Time Board</h3>
+               <span className="text-[10px] text-slate-600 font-mono">HOLDS AT {periods.getDefinition().isPlaying ? `${periods.getPeriodEndSeconds() / 60}:00` : '--:--'}</span>
+             </div>
+             <div className="grid grid-cols-7 gap-2">
+                {[1, 2, 3, 4, 5, 6].map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => actions.announceAddedTime(minutes)}
+                    className="p-2 bg-slate-950 text-amber-400 border border-slate-800 rounded hover:border-amber-500/50 text-xs font-mono font-bold"
+                  >
+                    +{minutes}
+                  </button>
+                ))}
+                <button onClick={actions.clearAddedTime} className="p-2 bg-slate-950 text-slate-400 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">CLR</button>
+             </div>
+          </div>
+
+          {/* MATCH MARKERS */}
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800 p-4">
+             <div className="flex items-center justify-between mb-3">
+               <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Match Markers</h3>
+               <span data-testid="marker-count" className="text-[10px] text-slate-600 font-mono">{markers.length} MARKED</span>
+             </div>
+             <input
+               value={markerLabel}
+               onChange={(e) => setMarkerLabel(e.target.value)}
+               placeholder="Player / note"
+               className="w-full mb-2 p-2 bg-slate-950 text-slate-200 border border-slate-800 rounded text-xs font-mono placeholder:text-slate-600 focus:outline-none focus:border-slate-500/50"
+             />
+             <div className="grid grid-cols-4 gap-2">
+                {MARKER_CATEGORIES.map(category => (
+                  <button
+                    key={category}
+                    onClick={(e) => { mark(markerLabel.trim(), category, e); setMarkerLabel(''); }}
+                    className={`p-2 bg-slate-950 border border-slate-800 rounded text-xs font-mono font-bold ${MARKER_BUTTONS[category].className}`}
+                  >
+                    {MARKER_BUTTONS[category].label}
+                  </button>
+                ))}
+             </div>
+             {markers.length > 0 && (
+               <ul className="mt-3 max-h-40 overflow-y-auto divide-y divide-slate-800/60 text-xs font-mono">
+                 {markers.map(marker => (
+                   <li key={marker.id} className="flex items-center gap-3 py-1.5">
+                     <span className="w-10 text-right text-slate-300 font-bold">{formatTimeMs(marker.matchMs, 'MINUTES')}</span>
+                     <span className="text-slate-500">{formatTime(Math.floor(marker.matchMs / 1000))}</span>
+                     <span className="flex-1 truncate text-slate-300">{describeMarker(marker)}</span>
+                     <button onClick={() => removeMarker(marker.id)} className="text-slate-600 hover:text-red-400" aria-label="Remove marker">×</button>
+                   </li>
+                 ))}
+               </ul>
+             )}
+             <div className="grid grid-cols-4 gap-2 mt-3">
+                <button onClick={() => downloadText('markers.csv', 'text/csv', markersToCsv(markers))} className="p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">CSV</button>
+                <button onClick={() => downloadText('markers.edl', 'text/plain', markersToEdl(markers, { rate: timecodeRate }))} className="p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">EDL</button>
+                <button onClick={() => downloadText('chapters.vtt', 'text/vtt', markersToWebVtt(markers))} className="p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">VTT</button>
+                <button onClick={clearMarkers} className="p-2 bg-slate-950 text-slate-400 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">CLR</button>
+             </div>
+          </div>
+
+          {/* HOTKEYS */}
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800 p-4">
+             <div className="flex items-center justify-between mb-3">
+               <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Hotkeys</h3>
+               <button onClick={hotkeys.resetBindings} className="text-[10px] text-slate-600 hover:text-slate-300 font-mono">
+                 {capturing ? 'PRESS A KEY :: ESC CANCELS' : 'CLICK A KEY TO REMAP :: DEFAULTS'}
+               </button>
+             </div>
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {(Object.keys(HOTKEY_COMMANDS) as HotkeyCommand[]).map(command => (
+                  <button
+                    key={command}
+                    onClick={() => hotkeys.capture(capturing === command ? null : command)}
+                    className={`flex items-center justify-between gap-2 p-2 bg-slate-950 border rounded text-xs font-mono ${
+                      capturing === command ? 'border-blue-500 text-blue-300' : 'border-slate-800 text-slate-400 hover:border-slate-500/50'
+                    }`}
+                  >
+                    <span>{HOTKEY_COMMANDS[command].label}</span>
+                    <kbd className="font-bold text-slate-200">{capturing === command ? '…' : describeChord(bindings[command])}</kbd>
+                  </button>
+                ))}
+             </div>
+          </div>
+
+          {/* OPERATOR LOG */}
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800 p-4">
+             <div className="flex items-center justify-between mb-3">
+               <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Operator Log</h3>
+               <span data-testid="log-count" className="text-[10px] text-slate-600 font-mono">
+                 {logEntries.length} ENTRIES{lastLogEntry ? ` :: LAST ${lastLogEntry.command.type}` : ''}
+               </span>
+             </div>
+             <div className="grid grid-cols-3 gap-2">
+                <button onClick={() => downloadText('clock-log.json', 'application/json', auditLog.toJSON())} className="p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">JSON</button>
+                <button onClick={() => downloadText('clock-log.csv', 'text/csv', auditLog.toCSV())} className="p-2 bg-slate-950 text-slate-300 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">CSV</button>
+                <button onClick={auditLog.clear} className="p-2 bg-slate-950 text-slate-400 border border-slate-800 rounded hover:border-slate-500/50 text-xs font-mono font-bold">CLR</button>
              </div>
           </div>
           
@@ -230,6 +578,7 @@ function App() {
              <div className="p-6 flex flex-col items-center justify-center">
                 <NaiveClock 
                     ref={naiveClockRef} 
+                    format={format}
                     className={`text-5xl font-mono font-bold tracking-tighter ${
                         isRunning ? 'text-red-500' : 'text-slate-700'
                     }`}
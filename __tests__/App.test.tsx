@@ -6,15 +6,15 @@ import App from '../App';
 // We mock the child components to focus on App wiring logic
 // But we keep the real refs logic to test the connection
 vi.mock('../components/MissionClock', () => ({
-  MissionClock: ({ controllerRef }: any) => {
-    React.useImperativeHandle(controllerRef, () => ({
+  MissionClock: React.forwardRef((_props: any, ref: any) => {
+    React.useImperativeHandle(ref, () => ({
       start: vi.fn(),
       pause: vi.fn(),
       setTime: vi.fn(),
       adjustTime: vi.fn(),
     }));
     return <div data-testid="mission-clock">MissionClock</div>;
-  }
+  })
 }));
 
 vi.mock('../components/NaiveClock', () => ({
@@ -77,6 +77,22 @@ describe('App Integration', () => {
     // Again, ensuring no crash and event propagation
   });
 
+  it('walks through match periods', () => {
+    render(<App />);
+    expect(screen.getByTestId('current-period')).toHaveTextContent('PRE-MATCH');
+
+    // Kick-off starts the clock
+    fireEvent.click(screen.getByText('→ 1ST HALF'));
+    expect(screen.getByTestId('current-period')).toHaveTextContent('1ST HALF');
+    expect(screen.getByText('PAUSE')).toBeInTheDocument();
+
+    // Half time holds the clock
+    fireEvent.click(screen.getByText('→ HT'));
+    expect(screen.getByTestId('current-period')).toHaveTextContent('HT');
+    expect(screen.getByText('START')).toBeInTheDocument();
+    expect(screen.getByText('→ 2ND HALF')).toBeInTheDocument();
+  });
+
   it('renders stress test components', () => {
     render(<App />);
     expect(screen.getByText('Main Thread Blocker (Unhappy Path)')).toBeInTheDocument();
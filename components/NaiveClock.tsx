@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
+import { formatTime, TimeFormat } from '../lib/timeFormat';
 
 export interface NaiveClockHandle {
     start: () => void;
@@ -7,18 +8,14 @@ export interface NaiveClockHandle {
     adjustTime: (delta: number) => void;
 }
 
-// Pure Helper
-const formatTime = (totalSeconds: number): string => {
-  const absSeconds = Math.abs(totalSeconds);
-  const h = Math.floor(absSeconds / 3600);
-  const m = Math.floor((absSeconds % 3600) / 60);
-  const s = Math.floor(absSeconds % 60);
-  const prefix = totalSeconds < 0 ? '-' : '';
-  return `${prefix}${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-};
+interface NaiveClockProps {
+    className?: string;
+    /** Display format, shared with the worker clock (default: 'HH:MM:SS') */
+    format?: TimeFormat;
+}
 
-export const NaiveClock = forwardRef<NaiveClockHandle, { className?: string }>(({ className }, ref) => {
-    const [displayTime, setDisplayTime] = useState("00:00:00");
+export const NaiveClock = forwardRef<NaiveClockHandle, NaiveClockProps>(({ className, format = 'HH:MM:SS' }, ref) => {
+    const [totalSeconds, setTotalSeconds] = useState(0);
     const [isRunning, setIsRunning] = useState(false);
     
     // Internal mutable state for time calculation
@@ -46,7 +43,7 @@ export const NaiveClock = forwardRef<NaiveClockHandle, { className?: string }>((
              if (isRunning) {
                  state.current.startTime = Date.now();
              }
-             setDisplayTime(formatTime(seconds));
+             setTotalSeconds(seconds);
         },
         adjustTime: (delta: number) => {
             state.current.baseTime += delta * 1000;
@@ -55,7 +52,7 @@ export const NaiveClock = forwardRef<NaiveClockHandle, { className?: string }>((
             const diff = isRunning ? (now - state.current.startTime) : 0;
             const totalMs = state.current.baseTime + diff;
             const totalSec = Math.floor(totalMs / 1000);
-            setDisplayTime(formatTime(totalSec));
+            setTotalSeconds(totalSec);
         }
     }));
 
@@ -72,7 +69,7 @@ export const NaiveClock = forwardRef<NaiveClockHandle, { className?: string }>((
             const diff = now - state.current.startTime;
             const totalMs = state.current.baseTime + diff;
             const totalSec = Math.floor(totalMs / 1000);
-            setDisplayTime(formatTime(totalSec));
+            setTotalSeconds(totalSec);
         }, 50); // 20fps update
 
         return () => clearInterval(intervalId);
@@ -80,7 +77,7 @@ export const NaiveClock = forwardRef<NaiveClockHandle, { className?: string }>((
 
     return (
         <div className={`font-mono tabular-nums ${className}`}>
-            {displayTime}
+            {formatTime(totalSeconds, format)}
         </div>
     );
 });
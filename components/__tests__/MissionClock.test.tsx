@@ -1,16 +1,21 @@
 import React from 'react';
-import { render } from '@testing-library/react';
+import { render, act } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { MissionClock } from '../MissionClock';
+import { MissionClock, MissionClockHandle } from '../MissionClock';
+import type { ClockSyncClient } from '../../lib/ClockSyncClient';
+import { anchorToResume, createClockStore } from '../../lib/clockStore';
 
 const mockWorkerPostMessage = vi.fn();
 const mockWorkerTerminate = vi.fn();
 let resizeCallback: ResizeObserverCallback | null = null;
+let lastWorker: MockWorker | null = null;
 
 class MockWorker {
   url: string;
+  onmessage: ((e: MessageEvent) => void) | null = null;
   constructor(stringUrl: string) {
     this.url = stringUrl;
+    lastWorker = this;
   }
   postMessage = mockWorkerPostMessage;
   terminate = mockWorkerTerminate;
@@ -22,6 +27,7 @@ describe('MissionClock Component', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     resizeCallback = null;
+    lastWorker = null;
     (window as any).Worker = MockWorker;
     window.ResizeObserver = class ResizeObserver {
       constructor(cb: ResizeObserverCallback) {
@@ -67,6 +73,8 @@ describe('MissionClock Component', () => {
     }
     expect(mockWorkerPostMessage).toHaveBeenCalledWith({
       type: 'RESIZE',
+      v: 1,
+      id: expect.any(Number),
       payload: expect.objectContaining({
         width: expect.any(Number),
         height: expect.any(Number)
@@ -78,7 +86,18 @@ describe('MissionClock Component', () => {
     const controllerRef = React.createRef<any>();
     render(<MissionClock controllerRef={controllerRef} />);
     controllerRef.current.start();
-    expect(mockWorkerPostMessage).toHaveBeenCalledWith({ type: 'START' });
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith({ type: 'START', v: 1, id: expect.any(Number), issuedAt: expect.any(Number) });
+  });
+
+  it('exposes added-time controls', () => {
+    const controllerRef = React.createRef<any>();
+    render(<MissionClock controllerRef={controllerRef} />);
+    controllerRef.current.setStoppageBoundary(2700);
+    controllerRef.current.announceAddedTime(3);
+    controllerRef.current.clearAddedTime();
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith({ type: 'SET_STOPPAGE_BOUNDARY', v: 1, id: expect.any(Number), issuedAt: expect.any(Number), payload: { seconds: 2700 } });
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith({ type: 'ANNOUNCE_ADDED_TIME', v: 1, id: expect.any(Number), issuedAt: expect.any(Number), payload: { minutes: 3 } });
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith({ type: 'CLEAR_ADDED_TIME', v: 1, id: expect.any(Number), issuedAt: expect.any(Number) });
   });
 
   it('updates configuration', () => {
@@ -88,4 +107,475 @@ describe('MissionClock Component', () => {
       expect.objectContaining({ type: 'UPDATE_CONFIG' })
     );
   });
-});
\ No newline at end of file
+
+  it('sends countdown timing on INIT and reports expiry', () => {
+    const onExpired = vi.fn();
+    render(<MissionClock initialSeconds={60} direction="down" expiryBehaviour="overrun" onExpired={onExpired} />);
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'INIT',
+        payload: expect.objectContaining({
+          timing: { direction: 'down', targetSeconds: 0, expiryBehaviour: 'overrun' }
+        })
+      }),
+      expect.anything()
+    );
+
+    lastWorker?.onmessage?.({ data: { type: 'EXPIRED', v: 1, payload: { seconds: 0 } } } as MessageEvent);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends UPDATE_TIMING when the direction changes', () => {
+    const { rerender } = render(<MissionClock />);
+    rerender(<MissionClock direction="down" targetSeconds={10} />);
+    expect(mockWorkerPostMessage).toHaveBeenCalledWith({
+      type: 'UPDATE_TIMING',
+      v: 1,
+      id: expect.any(Number),
+      payload: { direction: 'down', targetSeconds: 10, expiryBehaviour: 'stop' }
+    });
+  });
+
+  it('stamps commands with a correlation id and reports ACK / ERROR replies', () => {
+    const onCommandReply = vi.fn();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const controllerRef = React.createRef<any>();
+    render(<MissionClock controllerRef={controllerRef} onCommandReply={onCommandReply} />);
+
+    controllerRef.current.setTime(NaN);
+    const { id } = mockWorkerPostMessage.mock.calls.at(-1)![0];
+    const error = { type: 'ERROR', v: 1, id, command: 'SET_TIME', code: 'INVALID_PAYLOAD', message: 'SET_TIME: seconds must be a finite number' };
+    lastWorker?.onmessage?.({ data: error } as MessageEvent);
+    expect(onCommandReply).toHaveBeenCalledWith(error);
+    expect(consoleError).toHaveBeenCalled();
+
+    controllerRef.current.start();
+    const ack = { type: 'ACK', v: 1, id: mockWorkerPostMessage.mock.calls.at(-1)![0].id, command: 'START' };
+    expect(ack.id).toBeGreaterThan(id);
+    lastWorker?.onmessage?.({ data: ack } as MessageEvent);
+    expect(onCommandReply).toHaveBeenLastCalledWith(ack);
+  });
+
+  it('reports worker state and ticks, and resolves getState()', async () => {
+    const onTick = vi.fn();
+    const onStateChange = vi.fn();
+    const controllerRef = React.createRef<any>();
+    render(<MissionClock controllerRef={controllerRef} onTick={onTick} onStateChange={onStateChange} />);
+
+    const state = { totalMs: 1000, displayMs: 1000, isRunning: true, isExpired: false, direction: 'up', targetSeconds: null, stoppageBoundarySeconds: null, announcedMinutes: 0 };
+    lastWorker?.onmessage?.({ data: { type: 'STATE', v: 1, id: null, payload: state } } as MessageEvent);
+    lastWorker?.onmessage?.({ data: { type: 'TICK', v: 1, payload: { seconds: 1, totalMs: 1004 } } } as MessageEvent);
+    expect(onStateChange).toHaveBeenCalledWith(state);
+    expect(onTick).toHaveBeenCalledWith({ seconds: 1, totalMs: 1004 });
+
+    const pending = controllerRef.current.getState();
+    const request = mockWorkerPostMessage.mock.calls.at(-1)![0];
+    expect(request).toEqual({ type: 'GET_STATE', v: 1, id: expect.any(Number), issuedAt: expect.any(Number) });
+    lastWorker?.onmessage?.({ data: { type: 'STATE', v: 1, id: request.id, payload: state } } as MessageEvent);
+    await expect(pending).resolves.toEqual(state);
+    // Replies to getState() are not change notifications
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes a typed handle through ref', () => {
+    const clockRef = React.createRef<MissionClockHandle>();
+    render(<MissionClock ref={clockRef} />);
+    clockRef.current!.adjustTime(-1);
+    expect(mockWorkerPostMessage).toHaveBeenLastCalledWith({
+      type: 'ADJUST_TIME', v: 1, id: expect.any(Number), issuedAt: expect.any(Number), payload: { deltaSeconds: -1 }
+    });
+  });
+
+  it('queues commands issued before the worker is up', () => {
+    const clockRef = React.createRef<MissionClockHandle>();
+    const Parent = () => {
+      // Layout effects run before MissionClock's mount effect creates the worker
+      React.useLayoutEffect(() => {
+        clockRef.current!.setTime(2700);
+        clockRef.current!.start();
+      }, []);
+      return <MissionClock ref={clockRef} />;
+    };
+    render(<Parent />);
+
+    const types = mockWorkerPostMessage.mock.calls.map(call => call[0].type);
+    expect(types.slice(0, 3)).toEqual(['INIT', 'SET_TIME', 'START']);
+  });
+
+  it('resolves confirmed commands on ACK and rejects them on ERROR', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const clockRef = React.createRef<MissionClockHandle>();
+    render(<MissionClock ref={clockRef} />);
+
+    const applied = clockRef.current!.confirmed.setTime(2700);
+    const setTimeId = mockWorkerPostMessage.mock.calls.at(-1)![0].id;
+    lastWorker?.onmessage?.({ data: { type: 'ACK', v: 1, id: setTimeId, command: 'SET_TIME' } } as MessageEvent);
+    await expect(applied).resolves.toBeUndefined();
+
+    const rejected = clockRef.current!.confirmed.adjustTime(NaN);
+    const adjustId = mockWorkerPostMessage.mock.calls.at(-1)![0].id;
+    lastWorker?.onmessage?.({
+      data: { type: 'ERROR', v: 1, id: adjustId, command: 'ADJUST_TIME', code: 'INVALID_PAYLOAD', message: 'ADJUST_TIME: deltaSeconds must be a finite number' }
+    } as MessageEvent);
+    await expect(rejected).rejects.toThrow('deltaSeconds must be a finite number');
+  });
+
+  it('rejects unconfirmed commands when the clock unmounts', async () => {
+    const clockRef = React.createRef<MissionClockHandle>();
+    const { unmount } = render(<MissionClock ref={clockRef} />);
+    const pending = clockRef.current!.confirmed.start();
+    unmount();
+    await expect(pending).rejects.toThrow('MissionClock unmounted');
+  });
+
+  describe('Fallback backends', () => {
+    const mockCtx = () => ({
+      clearRect: vi.fn(),
+      fillRect: vi.fn(),
+      fillText: vi.fn(),
+      beginPath: vi.fn(),
+      arc: vi.fn(),
+      fill: vi.fn(),
+    });
+
+    it('reports the worker backend by default', () => {
+      const onBackendChange = vi.fn();
+      const clockRef = React.createRef<MissionClockHandle>();
+      const { container } = render(<MissionClock ref={clockRef} onBackendChange={onBackendChange} />);
+      expect(onBackendChange).toHaveBeenCalledWith('worker');
+      expect(clockRef.current!.getBackend()).toBe('worker');
+      expect((container.firstChild as HTMLElement).dataset.backend).toBe('worker');
+    });
+
+    it('runs the kernel on the main thread behind the same handle', async () => {
+      const ctx = mockCtx();
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(ctx as any);
+      const clockRef = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={clockRef} backend="main-thread" />);
+
+      expect(lastWorker).toBeNull();
+      expect(clockRef.current!.getBackend()).toBe('main-thread');
+
+      act(() => {
+        resizeCallback?.([{ contentRect: { width: 400, height: 100 } } as ResizeObserverEntry], {} as ResizeObserver);
+      });
+      await act(() => clockRef.current!.confirmed.setTime(2700));
+      expect(ctx.fillText).toHaveBeenLastCalledWith('00:45:00', expect.any(Number), expect.any(Number));
+      await expect(clockRef.current!.getState()).resolves.toMatchObject({ totalMs: 2700_000, isRunning: false });
+    });
+
+    it('falls back to the main thread when the worker cannot start', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(mockCtx() as any);
+      (window as any).Worker = class {
+        constructor() {
+          throw new Error('Blocked by CSP');
+        }
+      };
+      const onBackendChange = vi.fn();
+      const { container } = render(<MissionClock onBackendChange={onBackendChange} />);
+      expect(onBackendChange).toHaveBeenCalledWith('main-thread');
+      expect(container.querySelectorAll('canvas')).toHaveLength(1);
+    });
+
+    it('renders DOM text when no canvas is available', () => {
+      const { container, unmount } = render(<MissionClock backend="dom" initialSeconds={2700} config={{ format: 'MM:SS' }} />);
+      act(() => {
+        resizeCallback?.([{ contentRect: { width: 400, height: 100 } } as ResizeObserverEntry], {} as ResizeObserver);
+      });
+      expect(container.querySelector('canvas')).toBeNull();
+      expect(container.textContent).toBe('45:00');
+
+      unmount();
+      expect(container.textContent).toBe('');
+    });
+  });
+
+  describe('Watchdog', () => {
+    const initPayload = () =>
+      mockWorkerPostMessage.mock.calls.filter(call => call[0].type === 'INIT').at(-1)![0].payload;
+    const state = { totalMs: 60_000, displayMs: 60_000, isRunning: true, isExpired: false, direction: 'up', targetSeconds: null, stoppageBoundarySeconds: 5400, announcedMinutes: 2 };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('asks the worker for heartbeats', () => {
+      render(<MissionClock watchdog={{ heartbeatMs: 500 }} />);
+      expect(initPayload().heartbeatMs).toBe(500);
+    });
+
+    it('re-creates a crashed worker, resuming from its last heartbeat', () => {
+      const onHealthChange = vi.fn();
+      const onBackendChange = vi.fn();
+      const clockRef = React.createRef<MissionClockHandle>();
+      const { container } = render(
+        <MissionClock ref={clockRef} onHealthChange={onHealthChange} onBackendChange={onBackendChange} />
+      );
+      const crashed = lastWorker!;
+      const capturedAt = performance.timeOrigin + performance.now();
+      crashed.onmessage?.({ data: { type: 'HEARTBEAT', v: 1, payload: { state, capturedAt } } } as MessageEvent);
+      expect(clockRef.current!.getHealth()).toMatchObject({ status: 'healthy', restarts: 0 });
+
+      act(() => { (crashed as any).onerror({ message: 'boom' }); });
+
+      expect(mockWorkerTerminate).toHaveBeenCalledTimes(1);
+      expect(lastWorker).not.toBe(crashed);
+      expect(container.querySelectorAll('canvas')).toHaveLength(1);
+      expect(initPayload().resume).toEqual({
+        totalMs: 60_000, isRunning: true, capturedAt, stoppageBoundarySeconds: 5400, announcedMinutes: 2
+      });
+      expect(onBackendChange).toHaveBeenCalledTimes(2);
+      expect(onHealthChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'recovering', restarts: 1, lastError: 'boom', backend: 'worker' })
+      );
+
+      lastWorker?.onmessage?.({ data: { type: 'STATE', v: 1, id: null, payload: state } } as MessageEvent);
+      expect(clockRef.current!.getHealth().status).toBe('healthy');
+    });
+
+    it('re-creates a worker that stops sending heartbeats', () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const clockRef = React.createRef<MissionClockHandle>();
+        render(<MissionClock ref={clockRef} watchdog={{ timeoutMs: 2000 }} />);
+        const hung = lastWorker!;
+
+        act(() => { vi.advanceTimersByTime(1500); });
+        hung.onmessage?.({ data: { type: 'HEARTBEAT', v: 1, payload: { state, capturedAt: 0 } } } as MessageEvent);
+        act(() => { vi.advanceTimersByTime(1500); });
+        expect(lastWorker).toBe(hung);
+
+        act(() => { vi.advanceTimersByTime(500); });
+        expect(lastWorker).not.toBe(hung);
+        expect(clockRef.current!.getHealth()).toMatchObject({ status: 'recovering', lastError: 'no heartbeat for 2000ms' });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('moves to the main thread when the worker keeps failing', () => {
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        clearRect: vi.fn(), fillRect: vi.fn(), fillText: vi.fn(), beginPath: vi.fn(), arc: vi.fn(), fill: vi.fn()
+      } as any);
+      const clockRef = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={clockRef} watchdog={{ maxRestarts: 1 }} />);
+
+      act(() => { (lastWorker as any).onerror({ message: 'boom' }); });
+      expect(clockRef.current!.getBackend()).toBe('worker');
+      act(() => { (lastWorker as any).onerror({ message: 'boom again' }); });
+      expect(clockRef.current!.getBackend()).toBe('main-thread');
+      expect(clockRef.current!.getHealth().restarts).toBe(2);
+    });
+
+    it('rejects replies the crashed worker never sent', async () => {
+      const clockRef = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={clockRef} />);
+      const pending = clockRef.current!.confirmed.start();
+      act(() => { (lastWorker as any).onmessageerror({}); });
+      await expect(pending).rejects.toThrow('MissionClock worker restarted');
+    });
+
+    it('can be disabled', () => {
+      render(<MissionClock watchdog={false} />);
+      const worker = lastWorker!;
+      expect(initPayload().heartbeatMs).toBeUndefined();
+      act(() => { (worker as any).onerror({ message: 'boom' }); });
+      expect(lastWorker).toBe(worker);
+    });
+  });
+
+  describe('Persistence', () => {
+    const persistence = { id: 'main-clock' };
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('saves every state change reported by the worker', () => {
+      render(<MissionClock persistence={persistence} />);
+      const state = { totalMs: 2700_000, displayMs: 2700_000, isRunning: true, isExpired: false, direction: 'up', targetSeconds: null, stoppageBoundarySeconds: 2700, announcedMinutes: 3 };
+      lastWorker?.onmessage?.({ data: { type: 'STATE', v: 1, id: null, payload: state } } as MessageEvent);
+
+      expect(JSON.parse(window.localStorage.getItem('dnm-clock:main-clock')!)).toMatchObject({
+        totalMs: 2700_000, isRunning: true, isExpired: false, stoppageBoundarySeconds: 2700, announcedMinutes: 3
+      });
+    });
+
+    it('resumes the saved clock on mount instead of initialSeconds', () => {
+      window.localStorage.setItem('dnm-clock:main-clock', JSON.stringify({
+        v: 1, totalMs: 60_000, isRunning: true, isExpired: false, savedAt: Date.now() - 2000, announcedMinutes: 1
+      }));
+      render(<MissionClock initialSeconds={0} persistence={persistence} />);
+
+      const init = mockWorkerPostMessage.mock.calls.find(call => call[0].type === 'INIT')![0];
+      expect(init.payload.resume).toMatchObject({ totalMs: 60_000, isRunning: true, announcedMinutes: 1 });
+      const ageMs = performance.timeOrigin + performance.now() - init.payload.resume.capturedAt;
+      expect(ageMs).toBeGreaterThanOrEqual(2000);
+      expect(ageMs).toBeLessThan(2500);
+    });
+  });
+
+  describe('Cross-tab sync', () => {
+    // Every clock gets its own worker, so each tab's commands can be told apart
+    let workers: Array<{ onmessage: any; postMessage: any; terminate: any }>;
+    class TabWorker {
+      onmessage: any = null;
+      postMessage = vi.fn();
+      terminate = vi.fn();
+      constructor() { workers.push(this); }
+    }
+    // In-memory BroadcastChannel between the rendered clocks
+    let channels: any[];
+    class FakeBroadcastChannel {
+      onmessage: ((e: MessageEvent) => void) | null = null;
+      constructor(public name: string) { channels.push(this); }
+      postMessage(data: unknown) {
+        channels
+          .filter(other => other !== this && other.name === this.name)
+          .forEach(other => other.onmessage?.({ data: structuredClone(data) } as MessageEvent));
+      }
+      close() { channels = channels.filter(other => other !== this); }
+    }
+    const sent = (worker: TabWorker, type: string) =>
+      worker.postMessage.mock.calls.map((call: any[]) => call[0]).filter((m: any) => m.type === type);
+
+    beforeEach(() => {
+      workers = [];
+      channels = [];
+      (window as any).Worker = TabWorker;
+      vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+      vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('lets any tab control the shared timeline and fails over to a follower', () => {
+      const leaderRoles = vi.fn();
+      const followerRoles = vi.fn();
+      const leaderRef = React.createRef<MissionClockHandle>();
+      const followerRef = React.createRef<MissionClockHandle>();
+      const leader = render(<MissionClock ref={leaderRef} sync={{ channel: 'main' }} onSyncRoleChange={leaderRoles} />);
+      vi.advanceTimersByTime(10);
+      render(<MissionClock ref={followerRef} sync={{ channel: 'main' }} onSyncRoleChange={followerRoles} />);
+      const [leaderWorker, followerWorker] = workers;
+
+      expect(leaderRef.current!.getSyncRole()).toBe('leader');
+      expect(followerRef.current!.getSyncRole()).toBe('follower');
+
+      // A follower's command applies locally and on the leader
+      act(() => { followerRef.current!.start(); });
+      expect(sent(followerWorker, 'START')).toHaveLength(1);
+      expect(sent(leaderWorker, 'START')).toHaveLength(1);
+
+      // The leader's resulting state re-anchors the follower
+      const state = { totalMs: 5000, displayMs: 5000, isRunning: true, isExpired: false, direction: 'up', targetSeconds: null, stoppageBoundarySeconds: null, announcedMinutes: 0 };
+      leaderWorker.onmessage({ data: { type: 'STATE', v: 1, id: null, payload: state } });
+      expect(sent(followerWorker, 'RESUME').at(-1).payload).toMatchObject({ totalMs: 5000, isRunning: true });
+
+      // A leader's own commands are not forwarded
+      act(() => { leaderRef.current!.pause(); });
+      expect(sent(followerWorker, 'PAUSE')).toHaveLength(0);
+
+      leader.unmount();
+      expect(followerRoles).toHaveBeenLastCalledWith('leader');
+      expect(followerRef.current!.getSyncRole()).toBe('leader');
+    });
+  });
+
+  describe('Shared timeline', () => {
+    // This machine's clock runs 2s behind the time server
+    const timeSource = {
+      toServerTime: (ms: number) => ms + 2000,
+      toLocalTime: (ms: number) => ms - 2000
+    } as unknown as ClockSyncClient;
+    const timeline = { totalMs: 60_000, isRunning: true, capturedAt: 1_700_000_010_000, stoppageBoundarySeconds: null, announcedMinutes: 0 };
+
+    it('re-anchors the worker to a published timeline on this machine\'s clock', () => {
+      const ref = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={ref} timeSource={timeSource} />);
+      act(() => { ref.current!.applyTimeline(timeline); });
+      expect(mockWorkerPostMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'RESUME', payload: { ...timeline, capturedAt: 1_700_000_008_000 } })
+      );
+    });
+
+    it('publishes the worker\'s state on the time server clock', async () => {
+      const ref = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={ref} timeSource={timeSource} />);
+      const published = ref.current!.getTimeline();
+      const request = mockWorkerPostMessage.mock.calls.at(-1)![0];
+      const state = { totalMs: 60_000, displayMs: 60_000, isRunning: true, isExpired: false, direction: 'up', targetSeconds: null, stoppageBoundarySeconds: null, announcedMinutes: 0 };
+      const before = performance.timeOrigin + performance.now();
+      lastWorker?.onmessage?.({ data: { type: 'STATE', v: 1, id: request.id, payload: state } } as MessageEvent);
+
+      const result = await published;
+      expect(result).toMatchObject({ totalMs: 60_000, isRunning: true, stoppageBoundarySeconds: null, announcedMinutes: 0 });
+      expect(result.capturedAt - 2000).toBeGreaterThanOrEqual(before);
+      expect(result.capturedAt - 2000).toBeLessThanOrEqual(performance.timeOrigin + performance.now());
+    });
+  });
+
+  describe('Shared store', () => {
+    const posted = (type: string) => mockWorkerPostMessage.mock.calls.map(([message]) => message).filter((m) => m.type === type);
+
+    it('starts the kernel from the store\'s anchor and timing', () => {
+      const store = createClockStore({ initialSeconds: 600, direction: 'down' });
+      render(<MissionClock store={store} direction="up" />);
+      expect(posted('INIT')[0].payload).toMatchObject({
+        timing: { direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' },
+        resume: anchorToResume(store.getAnchor())
+      });
+    });
+
+    it('sends handle commands through the store and the resulting anchor to the kernel', () => {
+      const store = createClockStore();
+      const ref = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={ref} store={store} />);
+
+      act(() => { ref.current!.start(); });
+      expect(posted('START')).toHaveLength(0);
+      expect(store.getAnchor().isRunning).toBe(true);
+      expect(mockWorkerPostMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'RESUME', payload: anchorToResume(store.getAnchor()) })
+      );
+    });
+
+    it('follows commands issued elsewhere, timing included', () => {
+      const store = createClockStore();
+      render(<MissionClock store={store} />);
+
+      act(() => { store.setTiming({ direction: 'down', targetSeconds: 10 }); });
+      expect(posted('UPDATE_TIMING').at(-1).payload).toEqual({ direction: 'down', targetSeconds: 10, expiryBehaviour: 'stop' });
+      act(() => { store.setTime(90); });
+      expect(posted('RESUME').at(-1).payload).toEqual(anchorToResume(store.getAnchor()));
+      expect(posted('UPDATE_TIMING')).toHaveLength(1);
+    });
+
+    it('confirms once the kernel applied the anchor, and rejects what the store rejects', async () => {
+      const store = createClockStore();
+      const ref = React.createRef<MissionClockHandle>();
+      render(<MissionClock ref={ref} store={store} />);
+
+      const started = ref.current!.confirmed.start();
+      const resume = posted('RESUME').at(-1);
+      lastWorker?.onmessage?.({ data: { type: 'ACK', v: 1, id: resume.id, command: 'RESUME' } } as MessageEvent);
+      await expect(started).resolves.toBeUndefined();
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(ref.current!.confirmed.setTime(NaN)).rejects.toThrow('seconds must be a finite number');
+    });
+
+    it('stops following the store when unmounted', () => {
+      const store = createClockStore();
+      const { unmount } = render(<MissionClock store={store} />);
+      unmount();
+      mockWorkerPostMessage.mockClear();
+      store.start();
+      expect(mockWorkerPostMessage).not.toHaveBeenCalled();
+    });
+  });
+});
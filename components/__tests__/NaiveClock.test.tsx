@@ -65,4 +65,10 @@ describe('NaiveClock Component', () => {
     // We expect clearInterval to have been called when unmounting a running clock
     expect(spyClearInterval).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('renders with the shared formatter', () => {
+    render(<NaiveClock ref={ref} format="MM:SS" />);
+    act(() => { ref.current?.setTime(5400); });
+    expect(screen.getByText('90:00')).toBeInTheDocument();
+  });
+});
@@ -1,6 +1,9 @@
 import { renderHook, act } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { useBroadcastMatchTimer } from '../useBroadcastMatchTimer';
+import type { ClockSyncClient } from '../../lib/ClockSyncClient';
+import { createClockStore } from '../../lib/clockStore';
+import { installFakeClock } from '../../test/clockTestUtils';
 
 // We need a way to trigger messages "from" the worker back to the hook.
 let workerOnMessageCallback: ((e: MessageEvent) => void) | null = null;
@@ -62,6 +65,23 @@ describe('useBroadcastMatchTimer Hook', () => {
     expect(result.current.displayTime).toBe('00:02:00');
   });
 
+  it('formats displayTime with the selected format', () => {
+    const { result, rerender } = renderHook(
+      ({ format }) => useBroadcastMatchTimer(5400, { format }),
+      { initialProps: { format: 'MM:SS' as const } as { format: 'MM:SS' | 'MINUTES' } }
+    );
+    expect(result.current.displayTime).toBe('90:00');
+    rerender({ format: 'MINUTES' });
+    expect(result.current.displayTime).toBe("90'");
+  });
+
+  it('exposes the current match period', () => {
+    const { result } = renderHook(() => useBroadcastMatchTimer(0));
+    expect(result.current.currentPeriod).toBe('PRE_MATCH');
+    act(() => { result.current.setPeriod('HALF_TIME'); });
+    expect(result.current.currentPeriod).toBe('HALF_TIME');
+  });
+
   it('terminates worker on unmount (Memory Leak Prevention)', () => {
     const { unmount } = renderHook(() => useBroadcastMatchTimer(0));
     unmount();
@@ -77,8 +97,359 @@ describe('useBroadcastMatchTimer Hook', () => {
 
     const { result } = renderHook(() => useBroadcastMatchTimer(0));
     
-    // Should not crash, but also won't run.
+    // Should not crash; ticking moves to the main thread
     expect(result.current.displayTime).toBe('00:00:00');
+    expect(result.current.mode).toBe('degraded');
     expect(console.error).toHaveBeenCalledWith('Clock Worker Init Failed:', expect.any(Error));
   });
-});
\ No newline at end of file
+
+  describe('Countdown mode', () => {
+    const tick = () => act(() => {
+      if (workerOnMessageCallback) workerOnMessageCallback({ data: { type: 'TICK' } } as MessageEvent);
+    });
+
+    beforeEach(() => {
+      // Countdown math reads performance.now(), so fake it alongside the timers
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+    });
+
+    it('counts down and stops on zero, firing onExpired once', () => {
+      const onExpired = vi.fn();
+      const { result } = renderHook(() => useBroadcastMatchTimer(5, { direction: 'down', onExpired }));
+      act(() => { result.current.start(); });
+
+      vi.advanceTimersByTime(2500);
+      tick();
+      expect(result.current.displayTime).toBe('00:00:03');
+
+      vi.advanceTimersByTime(4000);
+      tick();
+      tick();
+      expect(result.current.displayTime).toBe('00:00:00');
+      expect(result.current.isRunning).toBe(false);
+      expect(result.current.isExpired).toBe(true);
+      expect(onExpired).toHaveBeenCalledTimes(1);
+      expect(mockPostMessage).toHaveBeenLastCalledWith({ type: 'STOP' });
+    });
+
+    it('overruns into negative time when configured', () => {
+      const { result } = renderHook(() =>
+        useBroadcastMatchTimer(1, { direction: 'down', expiryBehaviour: 'overrun' })
+      );
+      act(() => { result.current.start(); });
+
+      vi.advanceTimersByTime(4000);
+      tick();
+      expect(result.current.displayTime).toBe('-00:00:03');
+      expect(result.current.isRunning).toBe(true);
+      expect(result.current.isExpired).toBe(true);
+    });
+
+    it('notifies per tenth and ticks faster with tenths precision', () => {
+      const { result } = renderHook(() =>
+        useBroadcastMatchTimer(10, { direction: 'down', format: 'MM:SS', precision: 'tenths' })
+      );
+      act(() => { result.current.start(); });
+      expect(mockPostMessage).toHaveBeenLastCalledWith({ type: 'START', payload: { intervalMs: 25 } });
+
+      vi.advanceTimersByTime(320);
+      tick();
+      expect(result.current.displayTime).toBe('00:09.7');
+      expect(result.current.totalMs).toBe(9700);
+      expect(result.current.totalSeconds).toBe(10);
+    });
+
+    it('exposes frames and accepts timecode in TIMECODE format', () => {
+      const { result } = renderHook(() =>
+        useBroadcastMatchTimer(0, { format: 'TIMECODE', timecodeRate: '25' })
+      );
+      expect(result.current.displayTime).toBe('00:00:00:00');
+
+      let accepted = false;
+      act(() => { accepted = result.current.setTimecode('00:45:00:12'); });
+      expect(accepted).toBe(true);
+      expect(result.current.frames).toBe(2700 * 25 + 12);
+      expect(result.current.displayTime).toBe('00:45:00:12');
+
+      act(() => { result.current.start(); });
+      expect(mockPostMessage).toHaveBeenLastCalledWith({ type: 'START', payload: { intervalMs: 16 } });
+      vi.advanceTimersByTime(100);
+      tick();
+      expect(result.current.displayTime).toBe('00:45:00:14');
+
+      act(() => { accepted = result.current.setTimecode('00:45:00:25'); });
+      expect(accepted).toBe(false);
+    });
+
+    it('re-arms expiry after setTime', () => {
+      const onExpired = vi.fn();
+      const { result } = renderHook(() => useBroadcastMatchTimer(1, { direction: 'down', onExpired }));
+      act(() => { result.current.start(); });
+      vi.advanceTimersByTime(1000);
+      tick();
+      expect(result.current.isExpired).toBe(true);
+
+      act(() => { result.current.setTime(1); });
+      expect(result.current.isExpired).toBe(false);
+      act(() => { result.current.start(); });
+      vi.advanceTimersByTime(1000);
+      tick();
+      expect(onExpired).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Degraded mode', () => {
+    // Each constructed worker, so tests can crash a specific one
+    let workers: Array<{ onmessage: any; onerror: any; onmessageerror: any; postMessage: any; terminate: any }>;
+
+    class CrashableWorker {
+      onmessage: any = null;
+      onerror: any = null;
+      onmessageerror: any = null;
+      postMessage = vi.fn();
+      terminate = vi.fn();
+      constructor() { workers.push(this); }
+    }
+
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+      workers = [];
+      (window as any).Worker = CrashableWorker;
+    });
+
+    it('keeps ticking on the main thread when no worker can be created', () => {
+      (window as any).Worker = class BadWorker {
+        constructor() { throw new Error('Security Error'); }
+      };
+      const { result } = renderHook(() => useBroadcastMatchTimer(0));
+      expect(result.current.mode).toBe('degraded');
+      expect(result.current.degraded).toBe(true);
+
+      act(() => { result.current.start(); });
+      // Updates land just after each second boundary
+      act(() => { vi.advanceTimersByTime(2001); });
+      expect(result.current.displayTime).toBe('00:00:02');
+
+      act(() => { result.current.pause(); });
+      act(() => { vi.advanceTimersByTime(3000); });
+      expect(result.current.displayTime).toBe('00:00:02');
+    });
+
+    it('aligns degraded updates to the display unit boundaries', () => {
+      (window as any).Worker = class BadWorker {
+        constructor() { throw new Error('Security Error'); }
+      };
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { precision: 'tenths' }));
+      act(() => { result.current.start(); });
+      act(() => { vi.advanceTimersByTime(101); });
+      expect(result.current.displayTime).toBe('00:00:00.1');
+      act(() => { vi.advanceTimersByTime(98); });
+      expect(result.current.displayTime).toBe('00:00:00.1');
+      act(() => { vi.advanceTimersByTime(2); });
+      expect(result.current.displayTime).toBe('00:00:00.2');
+    });
+
+    it('replaces a crashed worker without losing time', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(0));
+      expect(result.current.mode).toBe('worker');
+      act(() => { result.current.start(); });
+
+      vi.advanceTimersByTime(3000);
+      act(() => { workers[0].onerror(new Event('error')); });
+
+      expect(workers[0].terminate).toHaveBeenCalled();
+      expect(workers).toHaveLength(2);
+      expect(workers[1].postMessage).toHaveBeenCalledWith({ type: 'START', payload: { intervalMs: 50 } });
+      expect(result.current.displayTime).toBe('00:00:03');
+      expect(result.current.degraded).toBe(false);
+    });
+
+    it('falls back to degraded mode when the worker keeps crashing', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(0));
+      act(() => { result.current.start(); });
+
+      for (let i = 0; i < 4; i++) {
+        act(() => { workers[workers.length - 1].onmessageerror(new Event('messageerror')); });
+      }
+      expect(workers).toHaveLength(4);
+      expect(result.current.mode).toBe('degraded');
+
+      act(() => { vi.advanceTimersByTime(1001); });
+      expect(result.current.displayTime).toBe('00:00:01');
+    });
+  });
+
+  describe('Persistence', () => {
+    const persistence = { id: 'hook-clock' };
+    const saved = () => JSON.parse(window.localStorage.getItem('dnm-clock:hook-clock')!);
+
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+      window.localStorage.clear();
+    });
+
+    it('saves the timer after each command', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { persistence }));
+      act(() => { result.current.start(); });
+      expect(saved()).toMatchObject({ totalMs: 0, isRunning: true, savedAt: Date.now() });
+
+      vi.advanceTimersByTime(1500);
+      act(() => { result.current.pause(); });
+      expect(saved()).toMatchObject({ totalMs: 1500, isRunning: false });
+    });
+
+    it('restores a running timer including the time the page was gone', () => {
+      window.localStorage.setItem('dnm-clock:hook-clock', JSON.stringify({
+        v: 1, totalMs: 2700_000, isRunning: true, isExpired: false, savedAt: Date.now() - 5000
+      }));
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { persistence }));
+
+      expect(result.current.displayTime).toBe('00:45:05');
+      expect(result.current.isRunning).toBe(true);
+      expect(mockPostMessage).toHaveBeenCalledWith({ type: 'START', payload: { intervalMs: 50 } });
+    });
+
+    it('restores a paused countdown at exactly its value', () => {
+      window.localStorage.setItem('dnm-clock:hook-clock', JSON.stringify({
+        v: 1, totalMs: 30_000, isRunning: false, isExpired: false, savedAt: Date.now() - 60_000
+      }));
+      const { result } = renderHook(() => useBroadcastMatchTimer(600, { direction: 'down', persistence }));
+      expect(result.current.totalSeconds).toBe(30);
+      expect(result.current.isRunning).toBe(false);
+    });
+  });
+
+  describe('Shared timeline', () => {
+    // This machine's clock runs 2s behind the time server
+    const timeSource = {
+      toServerTime: (ms: number) => ms + 2000,
+      toLocalTime: (ms: number) => ms - 2000
+    } as unknown as ClockSyncClient;
+
+    beforeEach(() => {
+      installFakeClock();
+    });
+
+    it('publishes its position on the time server clock', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(60, { timeSource }));
+      act(() => { result.current.start(); });
+      vi.advanceTimersByTime(500);
+      expect(result.current.getTimeline()).toEqual({
+        totalMs: 60_500,
+        isRunning: true,
+        capturedAt: performance.timeOrigin + performance.now() + 2000
+      });
+    });
+
+    it('applies a published timeline, counting the time since it was captured', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { timeSource }));
+      const serverNow = performance.timeOrigin + performance.now() + 2000;
+      act(() => {
+        result.current.applyTimeline({ totalMs: 2700_000, isRunning: true, capturedAt: serverNow - 3000 });
+      });
+      expect(result.current.displayTime).toBe('00:45:03');
+      expect(result.current.isRunning).toBe(true);
+      expect(mockPostMessage).toHaveBeenCalledWith({ type: 'START', payload: { intervalMs: 50 } });
+
+      act(() => {
+        result.current.applyTimeline({ totalMs: 10_000, isRunning: false, capturedAt: serverNow });
+      });
+      expect(result.current.displayTime).toBe('00:00:10');
+      expect(mockPostMessage).toHaveBeenLastCalledWith({ type: 'STOP' });
+    });
+  });
+
+  describe('Input latency compensation', () => {
+    beforeEach(() => {
+      installFakeClock();
+      vi.advanceTimersByTime(10_000);
+    });
+
+    it('starts and pauses at the click when the handler runs late', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { precision: 'tenths' }));
+      // Clicked 600ms before the blocked main thread ran the handler
+      act(() => { result.current.start({ timeStamp: performance.now() - 600 }); });
+      expect(result.current.totalMs).toBe(600);
+
+      vi.advanceTimersByTime(1000);
+      act(() => { result.current.pause({ timeStamp: performance.now() - 200 }); });
+      expect(result.current.totalMs).toBe(1400);
+    });
+
+    it('limits the compensation to maxInputCompensationMs', () => {
+      const { result } = renderHook(() => useBroadcastMatchTimer(60, { maxInputCompensationMs: 250, precision: 'tenths' }));
+      act(() => { result.current.start(); });
+      act(() => { result.current.setTime(0, performance.now() - 2000); });
+      expect(result.current.totalMs).toBe(200);
+    });
+  });
+
+  describe('Shared store', () => {
+    beforeEach(() => {
+      installFakeClock();
+    });
+
+    const tick = () => act(() => { workerOnMessageCallback?.({ data: { type: 'TICK' } } as MessageEvent); });
+
+    it('shows the store\'s value and timing instead of its own', () => {
+      const store = createClockStore({ initialSeconds: 600, direction: 'down' });
+      store.start();
+      vi.advanceTimersByTime(1500);
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { store, precision: 'tenths' }));
+      expect(result.current).toMatchObject({ totalMs: 598_500, isRunning: true });
+    });
+
+    it('reads the same anchor as the store after every command', () => {
+      const store = createClockStore();
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { store, precision: 'tenths' }));
+
+      act(() => { store.start(); });
+      vi.advanceTimersByTime(1234);
+      tick();
+      expect(result.current.totalMs).toBe(1200);
+
+      act(() => { store.setTime(45 * 60); });
+      vi.advanceTimersByTime(300);
+      tick();
+      expect(result.current.totalMs).toBe(2_700_300);
+      expect(result.current.totalMs).toBe(Math.floor(store.valueAt() / 100) * 100);
+    });
+
+    it('sends its actions to the store', () => {
+      const store = createClockStore({ initialSeconds: 10 });
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { store }));
+
+      act(() => { result.current.start(); });
+      expect(store.getAnchor().isRunning).toBe(true);
+      act(() => { result.current.setTime(30); });
+      expect(store.getAnchor().totalMs).toBe(30_000);
+      act(() => { result.current.pause(); });
+      expect(result.current).toMatchObject({ isRunning: false, totalSeconds: 30 });
+    });
+
+    it('undoes with the store\'s history', () => {
+      const store = createClockStore({ initialSeconds: 10 });
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { store }));
+
+      act(() => { result.current.adjustTime(3600); });
+      expect(result.current).toMatchObject({ totalSeconds: 3610, canUndo: true });
+      act(() => { result.current.undo(); });
+      expect(result.current).toMatchObject({ totalSeconds: 10, canUndo: false, canRedo: true });
+      expect(store.getHistory().canRedo).toBe(true);
+    });
+
+    it('expires with the store', () => {
+      const onExpired = vi.fn();
+      const store = createClockStore({ initialSeconds: 2, direction: 'down' });
+      const { result } = renderHook(() => useBroadcastMatchTimer(0, { store, onExpired }));
+
+      act(() => { store.start(); });
+      act(() => { vi.advanceTimersByTime(2500); });
+      expect(result.current).toMatchObject({ isExpired: true, isRunning: false, totalSeconds: 0 });
+      expect(onExpired).toHaveBeenCalledTimes(1);
+    });
+  });
+});
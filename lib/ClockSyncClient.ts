@@ -0,0 +1,262 @@
+/**
+ * ============================================================================
+ * MODULE: Server Time Sync Client
+ * * Used by: useBroadcastMatchTimer, MissionClock (opt-in via `timeSource`)
+ * * TRANSPORT: WebSocket to server/timeServer.mjs (PING / PONG, JSON)
+ * * ESTIMATE: NTP four-timestamp offset from the lowest-delay recent sample
+ * ============================================================================
+ */
+
+import { epochNow } from './clockWatchdog';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Options for `ClockSyncClient`.
+ */
+export interface ClockSyncClientOptions {
+  /** Time server URL (e.g. 'ws://localhost:8787', see server/timeServer.mjs) */
+  url: string;
+  /** Ping period in ms (default: 1000) */
+  intervalMs?: number;
+  /** How many recent samples the filter chooses from (default: 8) */
+  samples?: number;
+  /** Samples with a longer round trip are discarded as outliers (ms, default: 1000) */
+  maxRoundTripMs?: number;
+  /** Delay before reconnecting after the socket drops (ms, default: 2000) */
+  reconnectMs?: number;
+  /** WebSocket implementation (default: the global one) */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * One ping exchange, using the NTP four-timestamp method:
+ * t0 client send, t1 server receive, t2 server send, t3 client receive.
+ */
+export interface ClockSyncSample {
+  /** Server clock minus local clock: ((t1 - t0) + (t2 - t3)) / 2 */
+  offsetMs: number;
+  /** Network time, excluding the server's processing: (t3 - t0) - (t2 - t1) */
+  roundTripMs: number;
+  /** Local epoch ms of t3 */
+  receivedAt: number;
+}
+
+/**
+ * The current estimate: the offset of the lowest-delay recent sample, whose
+ * error is bounded by half its round trip.
+ */
+export interface ClockSyncEstimate {
+  offsetMs: number;
+  roundTripMs: number;
+  /** Samples currently in the filter window */
+  sampleCount: number;
+}
+
+// Wire format shared with server/timeServer.mjs
+type PingMessage = { type: 'PING'; id: number; t0: number };
+type PongMessage = { type: 'PONG'; id: number; t0: number; t1: number; t2: number };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+// Anything can arrive on the socket: only well-formed pongs are measured
+const isPongMessage = (value: unknown): value is PongMessage =>
+  isObject(value) &&
+  value.type === 'PONG' &&
+  isFiniteNumber(value.id) &&
+  isFiniteNumber(value.t0) &&
+  isFiniteNumber(value.t1) &&
+  isFiniteNumber(value.t2);
+
+// -----------------------------------------------------------------------------
+// 2. Pure Helper Functions
+// -----------------------------------------------------------------------------
+
+/** Offset and round trip from the four timestamps of one exchange. */
+export const computeClockSyncSample = (t0: number, t1: number, t2: number, t3: number): ClockSyncSample => ({
+  offsetMs: ((t1 - t0) + (t2 - t3)) / 2,
+  roundTripMs: (t3 - t0) - (t2 - t1),
+  receivedAt: t3,
+});
+
+/**
+ * NTP-style clock filter: the sample with the smallest round trip has the
+ * smallest possible error, so it wins. Returns null for an empty window.
+ */
+export const selectBestSample = (samples: readonly ClockSyncSample[]): ClockSyncSample | null =>
+  samples.reduce<ClockSyncSample | null>(
+    (best, sample) => (best === null || sample.roundTripMs < best.roundTripMs ? sample : best),
+    null
+  );
+
+// -----------------------------------------------------------------------------
+// 3. The Client
+// -----------------------------------------------------------------------------
+
+/**
+ * Estimates the offset between this machine's clock and a time server, so
+ * several graphics PCs can anchor their clocks to one shared timeline.
+ *
+ * Local time is `performance.timeOrigin + performance.now()` (monotonic, epoch
+ * based); server time is whatever the server reports in the same unit.
+ *
+ * @example
+ * ```ts
+ * const timeSource = new ClockSyncClient({ url: 'ws://timeserver.local:8787' });
+ * timeSource.connect();
+ *
+ * // Operator PC: publish the timeline in server time
+ * const timeline = timer.getTimeline();
+ * // Graphics PC: apply it, converted back to its own clock
+ * useBroadcastMatchTimer(0, { timeSource }).applyTimeline(timeline);
+ * ```
+ */
+export class ClockSyncClient {
+  private socket: WebSocket | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextPingId = 0;
+  // t0 of every ping still awaiting its pong, by id
+  private readonly pendingPings = new Map<number, number>();
+  private window: ClockSyncSample[] = [];
+  private estimate: ClockSyncEstimate | null = null;
+  private active = false;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(private readonly options: ClockSyncClientOptions) {}
+
+  /** Opens the socket and starts pinging. Reconnects until `disconnect()`. */
+  connect(): void {
+    if (this.active) return;
+    this.active = true;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.active = false;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopPinging();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /** Whether at least one usable sample has arrived. */
+  get isSynced(): boolean {
+    return this.estimate !== null;
+  }
+
+  /** The current estimate, or null before the first usable sample. */
+  getEstimate(): ClockSyncEstimate | null {
+    return this.estimate;
+  }
+
+  /** Server time now, in epoch ms (local time until synced). */
+  now(): number {
+    return this.toServerTime(epochNow());
+  }
+
+  /** Local epoch ms → server epoch ms. */
+  toServerTime(localEpochMs: number): number {
+    return localEpochMs + (this.estimate?.offsetMs ?? 0);
+  }
+
+  /** Server epoch ms → local epoch ms. */
+  toLocalTime(serverEpochMs: number): number {
+    return serverEpochMs - (this.estimate?.offsetMs ?? 0);
+  }
+
+  /** Called whenever the estimate changes. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private open(): void {
+    const WebSocketImpl = this.options.WebSocket ?? WebSocket;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocketImpl(this.options.url);
+    } catch (err) {
+      console.error('Clock sync connection failed:', err);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => this.startPinging();
+    socket.onmessage = (e: MessageEvent) => this.handleMessage(e.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopPinging();
+      this.scheduleReconnect();
+    };
+    // onclose follows; the estimate is kept meanwhile (the offset drifts slowly)
+    socket.onerror = () => {};
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.active) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.active) this.open();
+    }, this.options.reconnectMs ?? 2000);
+  }
+
+  private startPinging(): void {
+    this.ping();
+    this.pingTimer = setInterval(() => this.ping(), this.options.intervalMs ?? 1000);
+  }
+
+  private stopPinging(): void {
+    if (this.pingTimer !== null) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.pendingPings.clear();
+  }
+
+  private ping(): void {
+    const message: PingMessage = { type: 'PING', id: ++this.nextPingId, t0: epochNow() };
+    // A pong later than maxRoundTripMs is discarded anyway, so its ping is forgotten
+    const oldest = message.t0 - (this.options.maxRoundTripMs ?? 1000);
+    this.pendingPings.forEach((t0, id) => {
+      if (t0 < oldest) this.pendingPings.delete(id);
+    });
+    this.pendingPings.set(message.id, message.t0);
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private handleMessage(data: unknown): void {
+    // t3 first: parsing is part of the exchange we are measuring
+    const t3 = epochNow();
+    let message: unknown;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (!isPongMessage(message)) return;
+    // Only the first pong to a ping of ours counts (no duplicates, no stale or foreign ids)
+    if (this.pendingPings.get(message.id) !== message.t0) return;
+    this.pendingPings.delete(message.id);
+
+    const sample = computeClockSyncSample(message.t0, message.t1, message.t2, t3);
+    // A negative round trip means a clock jumped mid-exchange
+    if (sample.roundTripMs < 0 || sample.roundTripMs > (this.options.maxRoundTripMs ?? 1000)) return;
+
+    this.window.push(sample);
+    if (this.window.length > (this.options.samples ?? 8)) this.window.shift();
+
+    const best = selectBestSample(this.window)!;
+    this.estimate = { offsetMs: best.offsetMs, roundTripMs: best.roundTripMs, sampleCount: this.window.length };
+    this.listeners.forEach(listener => listener());
+  }
+}
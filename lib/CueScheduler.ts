@@ -0,0 +1,463 @@
+/**
+ * ============================================================================
+ * MODULE: Cue Scheduler
+ * * Used by: rundowns keyed to match time ("at 45:00 pause the clock",
+ *   "at 89:00 show the added-time board", "at 00:00 sound the horn")
+ * * FOLLOWS: any clock source (a ClockStore, a MatchClockEngine), so cues see
+ *   the same time as every renderer
+ * * GUARANTEE: a cue fires once per crossing, however the clock gets there
+ * ============================================================================
+ */
+
+import { epochNow } from './clockWatchdog';
+import type { ClockDirection } from './timing';
+import type { ClockStyleConfig } from './MissionClockEngine';
+import { DEFAULT_MAX_INPUT_COMPENSATION_MS, InputTimestamp } from './inputLatency';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Built-in actions a cue can carry. `style` is handed to the `setStyle`
+ * option (e.g. merged into `MissionClock`'s `config`).
+ */
+export type CueAction =
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'setTime'; seconds: number }
+  | { type: 'adjustTime'; deltaSeconds: number }
+  | { type: 'style'; style: Partial<ClockStyleConfig> };
+
+/**
+ * What happens to a cue that `setTime` / `adjustTime` jumps over.
+ * - `fire`: it fires late, with `reason: 'caught-up'`
+ * - `skip`: it is marked `skipped` and does not fire
+ */
+export type CueJumpPolicy = 'fire' | 'skip';
+
+export type CueStatus = 'armed' | 'fired' | 'skipped';
+
+/**
+ * A cue keyed to a clock value. Counting up it is reached at `atSeconds` or
+ * later, counting down at `atSeconds` or earlier.
+ */
+export interface Cue {
+  /** Stable id: re-registering the same id keeps the cue's status */
+  id: string;
+  /** Clock value in seconds at which the cue fires */
+  atSeconds: number;
+  label?: string;
+  action?: CueAction;
+  onFire?: (event: CueFireEvent) => void;
+  /** Overrides the scheduler's `onJump` for this cue */
+  onJump?: CueJumpPolicy;
+  /** Fire again once the clock is rewound before the cue and reaches it again (default: true) */
+  rearm?: boolean;
+}
+
+export interface CueFireEvent {
+  cue: Cue;
+  /** `reached`: the running clock got there; `caught-up`: a jump went past it */
+  reason: 'reached' | 'caught-up';
+  /** When the clock reached the cue, or when the jump happened (epoch ms) */
+  dueAt: number;
+}
+
+export interface CueState {
+  cue: Cue;
+  status: CueStatus;
+  /** When it last fired (epoch ms) */
+  firedAt: number | null;
+}
+
+/**
+ * What the built-in actions drive (default: the clock itself). Every clock
+ * action is stamped with the moment the cue was due, so "pause at 45:00"
+ * freezes on 45:00 even if the main thread noticed late.
+ */
+export interface CueTarget {
+  start: (input?: InputTimestamp) => void;
+  pause: (input?: InputTimestamp) => void;
+  setTime: (seconds: number, input?: InputTimestamp) => void;
+  adjustTime: (deltaSeconds: number, input?: InputTimestamp) => void;
+}
+
+/**
+ * The clock a scheduler follows. `ClockStore`, `MatchClockEngine` and the
+ * object returned by `useBroadcastMatchTimer` all implement it.
+ */
+export interface CueClockSource extends Partial<CueTarget> {
+  /** The clock value in ms at `epochMs` (default: now) */
+  valueAt: (epochMs?: number) => number;
+  /** Whether the clock counts up or down (a paused clock cannot tell by its value) */
+  getDirection: () => ClockDirection;
+  /** Called when the clock starts, pauses or jumps */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for `CueScheduler` (and `useCueScheduler`).
+ */
+export interface CueSchedulerOptions {
+  cues?: Cue[];
+  /** What happens to cues that a jump goes past (default: 'fire') */
+  onJump?: CueJumpPolicy;
+  /** Receives the clock actions (default: the clock, if it has them) */
+  target?: CueTarget;
+  /** Receives `style` actions */
+  setStyle?: (style: Partial<ClockStyleConfig>) => void;
+  /** Called for every cue that fires, after its own `onFire` */
+  onCue?: (event: CueFireEvent) => void;
+}
+
+// -----------------------------------------------------------------------------
+// 2. Pure Helper Functions
+// -----------------------------------------------------------------------------
+
+// Anchors this close to the previous timeline came from start / pause / timing changes, not jumps
+const CONTINUITY_EPSILON_MS = 1;
+
+// A stamped start / pause meets the previous timeline up to this long ago
+const CONTINUITY_WINDOW_MS = DEFAULT_MAX_INPUT_COMPENSATION_MS + CONTINUITY_EPSILON_MS;
+
+// How far ahead the clock is sampled to tell whether it runs
+const RUNNING_PROBE_MS = 1000;
+
+// The clock's timeline as sampled at `capturedAt`
+interface CueTimeline {
+  totalMs: number;
+  capturedAt: number;
+  isRunning: boolean;
+  direction: ClockDirection;
+}
+
+const sampleTimeline = (clock: CueClockSource, now: number): CueTimeline => {
+  const totalMs = clock.valueAt(now);
+  return {
+    totalMs,
+    capturedAt: now,
+    isRunning: clock.valueAt(now + RUNNING_PROBE_MS) !== totalMs,
+    direction: clock.getDirection()
+  };
+};
+
+// Clock ms per epoch ms
+const rateOf = (timeline: CueTimeline): number =>
+  !timeline.isRunning ? 0 : timeline.direction === 'down' ? -1 : 1;
+
+const timelineValueAt = (timeline: CueTimeline, epochMs: number): number =>
+  timeline.totalMs + rateOf(timeline) * (epochMs - timeline.capturedAt);
+
+const isReached = (cue: Cue, totalMs: number, direction: ClockDirection): boolean =>
+  direction === 'down' ? totalMs <= cue.atSeconds * 1000 : totalMs >= cue.atSeconds * 1000;
+
+// Does `next` continue the timeline of `previous`? A jump (setTime, adjustTime,
+// a sync resume) moves the value; start / pause / timing changes re-anchor on
+// it, so the two timelines meet now or, for a stamped start / pause, shortly before.
+const isContinuous = (previous: CueTimeline, next: CueTimeline): boolean => {
+  const now = next.capturedAt;
+  const gapMs = timelineValueAt(previous, now) - next.totalMs;
+  if (Math.abs(gapMs) < CONTINUITY_EPSILON_MS) return true;
+  const closingRate = rateOf(previous) - rateOf(next);
+  if (closingRate === 0) return false;
+  const metAt = now - gapMs / closingRate;
+  return metAt <= now && metAt >= now - CONTINUITY_WINDOW_MS;
+};
+
+// When the timeline reaches the cue (epoch ms). A cue already behind the
+// sample was reached at the sample.
+const reachedAt = (timeline: CueTimeline, cue: Cue): number => {
+  if (!timeline.isRunning) return timeline.capturedAt;
+  const atMs = cue.atSeconds * 1000;
+  const remainingMs = timeline.direction === 'down' ? timeline.totalMs - atMs : atMs - timeline.totalMs;
+  return timeline.capturedAt + Math.max(0, remainingMs);
+};
+
+// -----------------------------------------------------------------------------
+// 3. The Scheduler
+// -----------------------------------------------------------------------------
+
+/**
+ * Fires cues at match times of a clock: a `ClockStore`, a `MatchClockEngine`
+ * or a `useBroadcastMatchTimer` result.
+ *
+ * Every change the clock notifies is either a continuation of the previous
+ * timeline (start, pause, timing changes, expiry) or a jump (`setTime`,
+ * `adjustTime`, a sync resume). A running clock fires each cue it reaches,
+ * on a timer set for the exact moment. A jump forward past armed cues fires
+ * or skips them (`onJump`); a jump back re-arms the cues now ahead of the
+ * clock, so they fire again when the clock reaches them. Cues registered
+ * behind the clock start out `skipped`.
+ *
+ * Pass the same store to `useBroadcastMatchTimer` and `<MissionClock>` to
+ * run cues against the clocks on screen.
+ *
+ * @example
+ * ```ts
+ * const cues = new CueScheduler(store, {
+ *   cues: [
+ *     { id: 'ht', atSeconds: 45 * 60, action: { type: 'pause' } },
+ *     { id: 'board', atSeconds: 89 * 60, onFire: () => showAddedTimeBoard(), onJump: 'skip' },
+ *   ],
+ * });
+ * cues.attach();
+ * ```
+ */
+export class CueScheduler {
+  private states: CueState[] = [];
+  private snapshot: readonly CueState[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  // The last timeline the cues were evaluated against
+  private timeline: CueTimeline | null = null;
+  private unsubscribeClock: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Re-entrancy: a cue action drives the clock, which notifies us again
+  private following = false;
+  private clockChanged = false;
+  private statesChanged = false;
+
+  private options: CueSchedulerOptions;
+
+  constructor(private readonly clock: CueClockSource, options: CueSchedulerOptions = {}) {
+    this.options = options;
+    if (options.cues) this.setCues(options.cues);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /** Starts following the clock. Anything that happened while detached is evaluated now. */
+  attach(): void {
+    if (this.unsubscribeClock) return;
+    this.unsubscribeClock = this.clock.subscribe(this.follow);
+    this.follow();
+  }
+
+  /** Stops following the clock (cues keep their status). */
+  detach(): void {
+    this.unsubscribeClock?.();
+    this.unsubscribeClock = null;
+    this.clearTimer();
+  }
+
+  /** Replaces the callbacks and target; `cues` (if given) as `setCues`. */
+  setOptions(options: CueSchedulerOptions): void {
+    this.options = options;
+    if (options.cues) this.setCues(options.cues);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cues
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Replaces the cue list. Cues whose id and time are unchanged keep their
+   * status, so re-registering the same list (e.g. on every render) fires nothing twice.
+   */
+  setCues(cues: Cue[]): void {
+    const previous = new Map(this.states.map(state => [state.cue.id, state]));
+    const unchanged = cues.length === this.states.length &&
+      cues.every((cue, i) => this.states[i].cue.id === cue.id && this.states[i].cue.atSeconds === cue.atSeconds);
+
+    this.states = cues.map(cue => {
+      const existing = previous.get(cue.id);
+      return existing && existing.cue.atSeconds === cue.atSeconds
+        ? { ...existing, cue }
+        : this.register(cue);
+    });
+    // Same list again (e.g. a re-render): new callbacks, nothing to publish
+    if (!unchanged) this.statesChanged = true;
+    this.update();
+  }
+
+  addCue(cue: Cue): void {
+    this.setCues([...this.states.filter(state => state.cue.id !== cue.id).map(state => state.cue), cue]);
+  }
+
+  removeCue(id: string): void {
+    this.setCues(this.states.filter(state => state.cue.id !== id).map(state => state.cue));
+  }
+
+  /** Re-arms every cue ahead of the clock and marks the rest skipped, e.g. for the next match. */
+  reset(): void {
+    this.states = this.states.map(state => this.register(state.cue));
+    this.statesChanged = true;
+    this.update();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Every cue with its status (a new array after every change) */
+  getSnapshot = (): readonly CueState[] => this.snapshot;
+
+  // ---------------------------------------------------------------------------
+  // Internal Logic
+  // ---------------------------------------------------------------------------
+
+  // New cues are armed only if the clock has not reached them yet
+  private register(cue: Cue): CueState {
+    const reached = isReached(cue, this.clock.valueAt(epochNow()), this.clock.getDirection());
+    return { cue, status: reached ? 'skipped' : 'armed', firedAt: null };
+  }
+
+  private update(): void {
+    if (this.unsubscribeClock) this.follow();
+    else this.publish();
+  }
+
+  // Bound: the clock listener and the cue timer
+  private follow = (): void => {
+    if (this.following) {
+      this.clockChanged = true;
+      return;
+    }
+    this.following = true;
+    try {
+      // Ends: a rewind lands before every cue it re-arms, and a cue fires once per crossing
+      do {
+        this.clockChanged = false;
+        this.evaluate();
+      } while (this.clockChanged);
+    } finally {
+      this.following = false;
+    }
+    this.armTimer();
+    this.publish();
+  };
+
+  private evaluate(): void {
+    const now = epochNow();
+    const timeline = sampleTimeline(this.clock, now);
+    const previous = this.timeline ?? timeline;
+
+    if (previous.direction !== timeline.direction) {
+      // "Ahead" has changed meaning: re-evaluate without firing
+      this.timeline = timeline;
+      this.jump(timeline, now, 'skip');
+    } else if (isContinuous(previous, timeline)) {
+      this.timeline = timeline;
+      // A stamped pause: the cues were crossed on the earlier, running timeline
+      this.sweep(timeline, now, previous.isRunning ? previous : timeline);
+    } else {
+      // First the cues the old timeline reached up to the jump
+      this.sweep(previous, now);
+      if (this.clockChanged) return;
+      this.timeline = timeline;
+      this.jump(timeline, now);
+    }
+  }
+
+  // The running clock fires every armed cue it has reached, in crossing order
+  private sweep(timeline: CueTimeline, now: number, crossedOn: CueTimeline = timeline): void {
+    const { direction } = timeline;
+    const totalMs = timelineValueAt(timeline, now);
+    for (const state of this.inCrossingOrder(direction)) {
+      if (state.status !== 'armed' || !isReached(state.cue, totalMs, direction)) continue;
+      this.fire(state, 'reached', Math.min(now, reachedAt(crossedOn, state.cue)));
+      // An action moved the clock: carry on from the new timeline
+      if (this.clockChanged) return;
+    }
+  }
+
+  private jump(timeline: CueTimeline, now: number, policy?: CueJumpPolicy): void {
+    const { direction } = timeline;
+    const totalMs = timelineValueAt(timeline, now);
+
+    // Rewound: cues ahead of the clock again will fire when it gets there
+    for (const state of this.states) {
+      if (state.status !== 'armed' && state.cue.rearm !== false && !isReached(state.cue, totalMs, direction)) {
+        state.status = 'armed';
+        this.statesChanged = true;
+      }
+    }
+
+    for (const state of this.inCrossingOrder(direction)) {
+      if (state.status !== 'armed' || !isReached(state.cue, totalMs, direction)) continue;
+      if ((policy ?? state.cue.onJump ?? this.options.onJump ?? 'fire') === 'fire') {
+        this.fire(state, 'caught-up', now);
+        if (this.clockChanged) return;
+      } else {
+        state.status = 'skipped';
+        this.statesChanged = true;
+      }
+    }
+  }
+
+  private fire(state: CueState, reason: CueFireEvent['reason'], dueAt: number): void {
+    state.status = 'fired';
+    state.firedAt = epochNow();
+    this.statesChanged = true;
+
+    const event: CueFireEvent = { cue: state.cue, reason, dueAt };
+    // Stamped with the due moment, within the clock's compensation window
+    this.runAction(state.cue.action, reason === 'reached' ? dueAt - performance.timeOrigin : undefined);
+    state.cue.onFire?.(event);
+    this.options.onCue?.(event);
+  }
+
+  private runAction(action: CueAction | undefined, input: number | undefined): void {
+    if (!action) return;
+    const target: Partial<CueTarget> = this.options.target ?? this.clock;
+    switch (action.type) {
+      case 'start':
+        target.start?.(input);
+        return;
+      case 'pause':
+        target.pause?.(input);
+        return;
+      case 'setTime':
+        target.setTime?.(action.seconds, input);
+        return;
+      case 'adjustTime':
+        target.adjustTime?.(action.deltaSeconds, input);
+        return;
+      case 'style':
+        this.options.setStyle?.(action.style);
+        return;
+    }
+  }
+
+  private inCrossingOrder(direction: ClockDirection): CueState[] {
+    const sign = direction === 'down' ? -1 : 1;
+    return [...this.states].sort((a, b) => sign * (a.cue.atSeconds - b.cue.atSeconds));
+  }
+
+  // One timer, set for the moment the running clock reaches the next armed cue
+  private armTimer(): void {
+    this.clearTimer();
+    const timeline = this.timeline;
+    if (!this.unsubscribeClock || !timeline?.isRunning) return;
+
+    const totalMs = timelineValueAt(timeline, epochNow());
+    let nextAt = Infinity;
+    for (const state of this.states) {
+      if (state.status !== 'armed' || isReached(state.cue, totalMs, timeline.direction)) continue;
+      nextAt = Math.min(nextAt, reachedAt(timeline, state.cue));
+    }
+    if (nextAt === Infinity) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.follow();
+    }, Math.max(0, nextAt - epochNow()));
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private publish(): void {
+    if (!this.statesChanged) return;
+    this.statesChanged = false;
+    this.snapshot = this.states.map(state => ({ ...state }));
+    this.listeners.forEach(listener => listener());
+  }
+}
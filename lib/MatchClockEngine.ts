@@ -0,0 +1,881 @@
+/**
+ * ============================================================================
+ * MODULE: Match Clock Engine (framework-agnostic)
+ * * Used by: useBroadcastMatchTimer (React), Vue / plain-JS overlays directly
+ * * OWNS: the time model, the tick worker (or degraded fallback), the actions
+ * * API: subscribe / getSnapshot / dispose, the same contract as
+ *   `useSyncExternalStore`
+ * ============================================================================
+ */
+
+import { TIMER_WORKER_SCRIPT } from './workers/timer.worker';
+import { ClockDirection, CountdownOptions, ExpiryBehaviour, resolveTargetSeconds } from './timing';
+import type { MatchPeriod } from './MatchPeriodController';
+import { ClockPersistenceOptions, loadClockState, msSinceSaved, saveClockState } from './clockPersistence';
+import type { ClockSyncClient } from './ClockSyncClient';
+import type { ClockTimeline } from './clockProtocol';
+import { DEFAULT_MAX_INPUT_COMPENSATION_MS, InputTimestamp, compensatedNow, inputEpochMs } from './inputLatency';
+import { ClockStore, anchorToResume } from './clockStore';
+import { ClockHistory, ClockHistoryEntry } from './clockHistory';
+import type { MarkerCategory, MatchMarker } from './matchMarkers';
+import {
+  DEFAULT_TIME_FORMAT,
+  DEFAULT_TIME_PRECISION,
+  TimeFormat,
+  TimePrecision,
+  formatTimeMs,
+  getPrecisionUnitMs,
+  quantizeMs
+} from './timeFormat';
+import {
+  DEFAULT_TIMECODE_RATE,
+  TimecodeRate,
+  framesToMs,
+  framesToTimecode,
+  msToFrames,
+  timecodeToSeconds
+} from './timecode';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * What wakes the engine up to recalculate the time.
+ * - `worker`: the dedicated tick worker (normal operation)
+ * - `degraded`: a main-thread timer aligned to display unit boundaries, used when
+ *   no worker can be created (CSP, sandboxed iframes) or it keeps crashing
+ */
+export type TimerMode = 'worker' | 'degraded';
+
+/**
+ * Represents the current state of the broadcast timer.
+ */
+export type TimerState = {
+  /** The formatted time string in the selected format (default HH:MM:SS, e.g. "00:45:00") */
+  displayTime: string;
+  /** The total number of seconds on the clock (integer, negative during a countdown overrun) */
+  totalSeconds: number;
+  /** The clock value in ms, rounded to the display precision (e.g. 9700 in tenths) */
+  totalMs: number;
+  /** The clock value in whole frames at `timecodeRate` (for frame-accurate consumers) */
+  frames: number;
+  /** Indicates whether the timer is currently active and counting */
+  isRunning: boolean;
+  /** Indicates whether the timer has reached its target */
+  isExpired: boolean;
+  /** The current match period (driven by `MatchPeriodController`) */
+  currentPeriod: MatchPeriod;
+  /** Which scheduler drives the updates */
+  mode: TimerMode;
+  /** Shorthand for `mode === 'degraded'`, e.g. to show a warning to the operator */
+  degraded: boolean;
+  /** Whether a setTime / adjustTime can be undone */
+  canUndo: boolean;
+  /** Whether an undone change can be redone */
+  canRedo: boolean;
+  /** The events marked with `mark`, in the order they were marked */
+  markers: readonly MatchMarker[];
+};
+
+/**
+ * Options for `MatchClockEngine` (and `useBroadcastMatchTimer`).
+ */
+export type MatchClockEngineOptions = CountdownOptions & {
+  /** Display format for `displayTime` (default: 'HH:MM:SS') */
+  format?: TimeFormat;
+  /** Sub-second precision of `displayTime`, also sets how often subscribers are notified (default: 'seconds') */
+  precision?: TimePrecision;
+  /** Frame rate for the 'TIMECODE' format and the `frames` field (default: '25') */
+  timecodeRate?: TimecodeRate;
+  /** Called once when the timer reaches its target */
+  onExpired?: () => void;
+  /**
+   * Saves the timer after every command and restores it on creation, including
+   * the time elapsed while the page was gone. Read once.
+   */
+  persistence?: ClockPersistenceOptions;
+  /**
+   * Puts `getTimeline` / `applyTimeline` on the time server's clock, so timers
+   * on different machines can share one timeline. Without it they use this
+   * machine's clock.
+   */
+  timeSource?: ClockSyncClient;
+  /**
+   * start, pause and setTime take effect when the operator clicked, even if
+   * a blocked main thread runs the handler late, up to this many ms back
+   * (default: 1000, 0 disables).
+   */
+  maxInputCompensationMs?: number;
+  /**
+   * Follows a shared `ClockStore` instead of keeping its own time model, so
+   * this timer, a `MissionClock` on the same store and any other renderer
+   * always read the same anchor. The actions go to the store, and the store's
+   * timing replaces `direction` / `targetSeconds` / `expiryBehaviour`.
+   * Read once.
+   */
+  store?: ClockStore;
+};
+
+/**
+ * Interface for controlling the timer.
+ *
+ * `input` is the click (or its `timeStamp`) that caused the call, so that
+ * `onClick={start}` starts the timer at the click rather than when the
+ * handler got to run (see `maxInputCompensationMs`).
+ */
+export type TimerActions = {
+  /** Starts the timer from the current position */
+  start: (input?: InputTimestamp) => void;
+  /** Pauses the timer at the current position */
+  pause: (input?: InputTimestamp) => void;
+  /**
+   * Sets the timer to a specific absolute value.
+   * @param seconds - The target time in seconds
+   */
+  setTime: (seconds: number, input?: InputTimestamp) => void;
+  /**
+   * Sets the timer from SMPTE timecode at `timecodeRate` (e.g. "00:45:00:00").
+   * @returns false (and does nothing) if the timecode is not valid at that rate
+   */
+  setTimecode: (timecode: string, input?: InputTimestamp) => boolean;
+  /**
+   * Moves the timer forward or back, keeping its phase (e.g. -60 for "-1m").
+   * @param deltaSeconds - The amount to add (negative to subtract)
+   */
+  adjustTime: (deltaSeconds: number, input?: InputTimestamp) => void;
+  /**
+   * Reverts the latest setTime / setTimecode / adjustTime by moving the timer
+   * back by the amount it moved, so the time that has run since is kept.
+   * @returns the undone change, or null if there is none
+   */
+  undo: () => ClockHistoryEntry | null;
+  /** Re-applies the latest undone change. */
+  redo: () => ClockHistoryEntry | null;
+  /**
+   * Marks an event (goal, card, substitution...) at the clock value of the
+   * click, read from the same anchor as the display (the store's, if shared).
+   * @param label - e.g. the player's name
+   * @returns the new marker
+   */
+  mark: (label: string, category?: MarkerCategory, input?: InputTimestamp) => MatchMarker;
+  /** Deletes a marker (e.g. a goal ruled out) */
+  removeMarker: (id: string) => void;
+  /** Deletes all markers */
+  clearMarkers: () => void;
+  /**
+   * Records the current match period. Normally called by `MatchPeriodController`.
+   * @param period - The period the match has entered
+   */
+  setPeriod: (period: MatchPeriod) => void;
+  /** The timer value in ms at `epochMs` (default: now), e.g. for a `CueScheduler` */
+  valueAt: (epochMs?: number) => number;
+  getDirection: () => ClockDirection;
+  /** Called when the displayed value or the state changes */
+  subscribe: (listener: () => void) => () => void;
+  /** The timer's current position, to publish to other timers (see `timeSource`) */
+  getTimeline: () => ClockTimeline;
+  /**
+   * Re-anchors the timer to a published position. A running timeline is
+   * advanced by the time since it was captured, so the timers show the same time.
+   */
+  applyTimeline: (timeline: ClockTimeline) => void;
+};
+
+// -----------------------------------------------------------------------------
+// 2. Pure Helper Functions
+// -----------------------------------------------------------------------------
+// A crashing worker is replaced this many times before the engine gives up on workers
+const MAX_WORKER_RESTARTS = 3;
+
+// The degraded scheduler fires this long after a boundary, so the new unit is already showing
+const DEGRADED_TICK_SLACK_MS = 1;
+
+// The smallest change the display can show: one frame in TIMECODE mode, one precision unit otherwise
+const displayUnitMs = (format: TimeFormat, precision: TimePrecision, rate: TimecodeRate): number =>
+  format === 'TIMECODE' ? framesToMs(1, rate) : getPrecisionUnitMs(precision);
+
+// Tick fast enough to catch each display unit boundary, without flooding subscribers beyond ~60Hz
+const tickIntervalFor = (format: TimeFormat, precision: TimePrecision, rate: TimecodeRate): number =>
+  Math.min(50, Math.max(16, displayUnitMs(format, precision, rate) / 4));
+
+// Time until the displayed value next changes (counting down crosses the boundary below)
+const msUntilNextUnit = (totalMs: number, unitMs: number, direction: ClockDirection): number => {
+  const phase = ((totalMs % unitMs) + unitMs) % unitMs;
+  const untilBoundary = direction === 'down' ? phase : unitMs - phase;
+  return (untilBoundary > 0 ? untilBoundary : unitMs) + DEGRADED_TICK_SLACK_MS;
+};
+
+// Formats the display value, quantised to frames in TIMECODE mode and to the precision unit otherwise
+const formatDisplay = (totalMs: number, format: TimeFormat, precision: TimePrecision, rate: TimecodeRate): string =>
+  format === 'TIMECODE'
+    ? framesToTimecode(msToFrames(totalMs, rate), rate)
+    : formatTimeMs(totalMs, format, precision);
+
+const hasReachedTarget = (direction: ClockDirection, totalMs: number, targetMs: number | null): boolean => {
+  if (targetMs === null) return false;
+  return direction === 'down' ? totalMs <= targetMs : totalMs >= targetMs;
+};
+
+// -----------------------------------------------------------------------------
+// 3. The Engine
+// -----------------------------------------------------------------------------
+
+/**
+ * A high-precision, drift-free broadcast timer with no framework attached.
+ *
+ * Timekeeping is `base ± (now - start)` on the monotonic clock; a dedicated
+ * Web Worker only wakes the engine up, so the timer stays accurate even if
+ * the main thread is blocked. A crashed worker is replaced; if none can run,
+ * the engine falls back to a main-thread scheduler and reports `degraded: true`.
+ *
+ * The worker runs while at least one subscriber is listening. Subscribers are
+ * notified only when the visible value (second, tenth, frame...) or the state
+ * changes. The actions are bound, so they can be passed around as callbacks.
+ *
+ * @example
+ * ```ts
+ * const engine = new MatchClockEngine(0, { precision: 'tenths' });
+ * const unsubscribe = engine.subscribe(() => {
+ *   overlay.textContent = engine.getSnapshot().displayTime;
+ * });
+ * button.addEventListener('click', engine.start);
+ *
+ * // Vue: const state = shallowRef(engine.getSnapshot());
+ * //      engine.subscribe(() => { state.value = engine.getSnapshot(); });
+ * ```
+ */
+export class MatchClockEngine implements TimerActions {
+  // The "Single Source of Truth"
+  private readonly model: {
+    // Data Model
+    baseDurationMs: number;
+    startTimeMs: number;
+    isRunning: boolean;
+    // Countdown / Expiry Model
+    direction: ClockDirection;
+    targetMs: number | null;
+    expiryBehaviour: ExpiryBehaviour;
+    hasExpired: boolean;
+    // Match Period (display only, does not affect timing)
+    currentPeriod: MatchPeriod;
+    // Display
+    format: TimeFormat;
+    precision: TimePrecision;
+    timecodeRate: TimecodeRate;
+  };
+  // Cache handed to subscribers (a new object only when something visible changed)
+  private snapshot: TimerState;
+
+  // Tick Source
+  private mode: TimerMode = 'worker';
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private workerRestarts = 0;
+  private degradedTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Subscription Management
+  private readonly listeners = new Set<() => void>();
+  private active = false;
+  private unsubscribeStore: (() => void) | null = null;
+
+  private readonly persistence: ClockPersistenceOptions | undefined;
+  private readonly clockStore: ClockStore | undefined;
+  // Undo / redo (a shared store keeps its own)
+  private readonly history = new ClockHistory();
+  private markers: readonly MatchMarker[] = [];
+  private markerSeq = 0;
+  private onExpired: (() => void) | undefined;
+  private timeSource: ClockSyncClient | undefined;
+  private maxInputCompensationMs: number;
+
+  constructor(initialSeconds: number = 0, options: MatchClockEngineOptions = {}) {
+    const {
+      format = DEFAULT_TIME_FORMAT,
+      precision = DEFAULT_TIME_PRECISION,
+      timecodeRate = DEFAULT_TIMECODE_RATE
+    } = options;
+    this.persistence = options.persistence;
+    this.clockStore = options.store;
+    this.onExpired = options.onExpired;
+    this.timeSource = options.timeSource;
+    this.maxInputCompensationMs = options.maxInputCompensationMs ?? DEFAULT_MAX_INPUT_COMPENSATION_MS;
+
+    // A shared store owns the time model, its timing included
+    const anchor = this.clockStore?.getAnchor() ?? null;
+    const direction = options.direction ?? 'up';
+    const timing = anchor?.timing ?? {
+      direction,
+      targetSeconds: resolveTargetSeconds(direction, options.targetSeconds),
+      expiryBehaviour: options.expiryBehaviour ?? 'stop'
+    };
+    const targetMs = timing.targetSeconds === null ? null : timing.targetSeconds * 1000;
+
+    // A persisted timer (page reload, crash) takes precedence over initialSeconds
+    const restored = anchor ? null : loadClockState(this.persistence);
+    const resumed = anchor ?? restored;
+    const resumedElapsedMs = anchor
+      ? (anchor.isRunning ? Math.max(0, performance.timeOrigin + performance.now() - anchor.capturedAt) : 0)
+      : (restored?.isRunning ? msSinceSaved(restored) : 0);
+    const initialMs = resumed
+      ? (timing.direction === 'down' ? resumed.totalMs - resumedElapsedMs : resumed.totalMs + resumedElapsedMs)
+      : initialSeconds * 1000;
+    const startsExpired = resumed
+      ? resumed.isExpired
+      : hasReachedTarget(timing.direction, initialMs, targetMs);
+
+    this.model = {
+      // A restored running timer is anchored in the past, so the time away is already counted
+      baseDurationMs: resumed ? resumed.totalMs : initialSeconds * 1000,
+      startTimeMs: resumed?.isRunning ? performance.now() - resumedElapsedMs : 0,
+      isRunning: resumed?.isRunning ?? false,
+      direction: timing.direction,
+      targetMs,
+      expiryBehaviour: timing.expiryBehaviour,
+      hasExpired: startsExpired,
+      currentPeriod: 'PRE_MATCH',
+      format,
+      precision,
+      timecodeRate,
+    };
+
+    this.snapshot = {
+      displayTime: formatDisplay(initialMs, format, precision, timecodeRate),
+      totalSeconds: resumed
+        ? (timing.direction === 'down' ? Math.ceil(initialMs / 1000) : Math.floor(initialMs / 1000))
+        : initialSeconds,
+      totalMs: initialMs,
+      frames: msToFrames(initialMs, timecodeRate),
+      isRunning: resumed?.isRunning ?? false,
+      isExpired: startsExpired,
+      currentPeriod: 'PRE_MATCH',
+      mode: 'worker',
+      degraded: false,
+      canUndo: false,
+      canRedo: false,
+      markers: this.markers
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscription (bound, for `useSyncExternalStore(engine.subscribe, engine.getSnapshot)`)
+  // ---------------------------------------------------------------------------
+
+  /** The first subscriber starts the tick worker, the last one to leave stops it. */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (!this.active) this.activate();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.deactivate();
+    };
+  };
+
+  getSnapshot = (): TimerState => this.snapshot;
+
+  /** Stops ticking and drops every subscriber. */
+  dispose(): void {
+    this.listeners.clear();
+    this.deactivate();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Option Changes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Applies changed options: a new direction / target re-anchors seamlessly,
+   * a new format / precision / rate re-renders. `persistence` and `store` are
+   * only read by the constructor.
+   */
+  setOptions(options: MatchClockEngineOptions): void {
+    this.onExpired = options.onExpired;
+    this.timeSource = options.timeSource;
+    this.maxInputCompensationMs = options.maxInputCompensationMs ?? DEFAULT_MAX_INPUT_COMPENSATION_MS;
+    // The store's timing wins (see `store.setTiming`)
+    if (!this.clockStore) this.setTiming(options);
+    this.setDisplay(options);
+  }
+
+  private setTiming({ direction = 'up', targetSeconds, expiryBehaviour = 'stop' }: CountdownOptions): void {
+    const s = this.model;
+    const resolved = resolveTargetSeconds(direction, targetSeconds);
+    const targetMs = resolved === null ? null : resolved * 1000;
+    if (s.direction === direction && s.expiryBehaviour === expiryBehaviour && s.targetMs === targetMs) return;
+
+    const now = performance.now();
+    s.baseDurationMs = this.currentTotalMs(now);
+    if (s.isRunning) s.startTimeMs = now;
+
+    s.direction = direction;
+    s.expiryBehaviour = expiryBehaviour;
+    s.targetMs = targetMs;
+    s.hasExpired = hasReachedTarget(s.direction, s.baseDurationMs, s.targetMs);
+    this.scheduleDegradedTick();
+    this.persist();
+    this.emitChange();
+  }
+
+  private setDisplay({
+    format = DEFAULT_TIME_FORMAT,
+    precision = DEFAULT_TIME_PRECISION,
+    timecodeRate = DEFAULT_TIMECODE_RATE
+  }: MatchClockEngineOptions): void {
+    const s = this.model;
+    if (s.format === format && s.precision === precision && s.timecodeRate === timecodeRate) return;
+    const previousInterval = tickIntervalFor(s.format, s.precision, s.timecodeRate);
+    s.format = format;
+    s.precision = precision;
+    s.timecodeRate = timecodeRate;
+    // Restart the ticks at the rate the new precision / frame rate needs
+    const intervalMs = tickIntervalFor(format, precision, timecodeRate);
+    if (intervalMs !== previousInterval && s.isRunning) this.startTicks();
+    this.emitChange();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public Actions (bound, e.g. `onClick={engine.start}`)
+  // ---------------------------------------------------------------------------
+
+  start = (input?: InputTimestamp): void => {
+    if (this.clockStore) {
+      this.clockStore.start(input);
+      return;
+    }
+    const s = this.model;
+    if (s.isRunning) return;
+    // A stopped clock sitting on its target stays there until the time is changed
+    if (s.expiryBehaviour === 'stop' && hasReachedTarget(s.direction, s.baseDurationMs, s.targetMs)) return;
+
+    s.isRunning = true;
+    s.startTimeMs = this.inputTime(input); // Anchor start time at the click
+    this.startTicks();
+    this.persist();
+    this.emitChange();
+  };
+
+  pause = (input?: InputTimestamp): void => {
+    if (this.clockStore) {
+      this.clockStore.pause(input);
+      return;
+    }
+    const s = this.model;
+    if (!s.isRunning) return;
+
+    // Freeze the elapsed time (up to the click) into baseDuration
+    s.baseDurationMs = this.currentTotalMs(this.inputTime(input));
+    s.isRunning = false;
+
+    this.stopTicks();
+    this.persist();
+    this.emitChange();
+  };
+
+  setTime = (seconds: number, input?: InputTimestamp): void => {
+    if (this.clockStore) {
+      this.clockStore.setTime(seconds, input);
+      return;
+    }
+    const s = this.model;
+    const previousMs = this.currentTotalMs(performance.now());
+
+    // Atomic Update:
+    // 1. Update the base time
+    s.baseDurationMs = seconds * 1000;
+
+    // 2. Phase Reset: If running, reset the start anchor to the click.
+    // This aligns the .000ms boundary to this exact button press.
+    if (s.isRunning) {
+      s.startTimeMs = this.inputTime(input);
+    }
+
+    // 3. Re-arm expiry unless the new value is already past the target
+    s.hasExpired = hasReachedTarget(s.direction, s.baseDurationMs, s.targetMs);
+
+    // 4. Undoable: remember how far the clock moved
+    const now = performance.now();
+    this.history.record({ command: 'SET_TIME', deltaMs: this.currentTotalMs(now) - previousMs, appliedAt: performance.timeOrigin + now });
+
+    this.scheduleDegradedTick(); // Degraded mode: realign to the new .000ms boundary
+    this.persist();
+    this.emitChange(); // Force immediate update
+  };
+
+  adjustTime = (deltaSeconds: number, input?: InputTimestamp): void => {
+    if (this.clockStore) {
+      this.clockStore.adjustTime(deltaSeconds, input);
+      return;
+    }
+    this.shiftBy(deltaSeconds * 1000);
+    this.history.record({ command: 'ADJUST_TIME', deltaMs: deltaSeconds * 1000, appliedAt: performance.timeOrigin + this.inputTime(input) });
+    this.emitChange();
+  };
+
+  undo = (): ClockHistoryEntry | null => {
+    if (this.clockStore) return this.clockStore.undo();
+    const entry = this.history.takeUndo();
+    if (entry) this.shiftBy(-entry.deltaMs);
+    this.emitChange();
+    return entry;
+  };
+
+  redo = (): ClockHistoryEntry | null => {
+    if (this.clockStore) return this.clockStore.redo();
+    const entry = this.history.takeRedo();
+    if (entry) this.shiftBy(entry.deltaMs);
+    this.emitChange();
+    return entry;
+  };
+
+  mark = (label: string, category: MarkerCategory = 'other', input?: InputTimestamp): MatchMarker => {
+    const now = performance.now();
+    const at = this.inputTime(input);
+    const marker: MatchMarker = {
+      id: `marker-${++this.markerSeq}`,
+      label,
+      category,
+      matchMs: this.clockStore
+        ? this.clockStore.valueAt(performance.timeOrigin + at)
+        : this.currentTotalMs(at),
+      wallClockMs: Date.now() - (now - at),
+      period: this.model.currentPeriod
+    };
+    this.markers = [...this.markers, marker];
+    this.emitChange();
+    return marker;
+  };
+
+  removeMarker = (id: string): void => {
+    this.markers = this.markers.filter(marker => marker.id !== id);
+    this.emitChange();
+  };
+
+  clearMarkers = (): void => {
+    if (this.markers.length === 0) return;
+    this.markers = [];
+    this.emitChange();
+  };
+
+  setTimecode = (timecode: string, input?: InputTimestamp): boolean => {
+    const seconds = timecodeToSeconds(timecode, this.model.timecodeRate);
+    if (seconds === null) return false;
+    this.setTime(seconds, input);
+    return true;
+  };
+
+  setPeriod = (period: MatchPeriod): void => {
+    this.model.currentPeriod = period;
+    this.emitChange();
+  };
+
+  valueAt = (epochMs: number = performance.timeOrigin + performance.now()): number =>
+    this.clockStore ? this.clockStore.valueAt(epochMs) : this.currentTotalMs(epochMs - performance.timeOrigin);
+
+  getDirection = (): ClockDirection =>
+    this.clockStore ? this.clockStore.getDirection() : this.model.direction;
+
+  getTimeline = (): ClockTimeline => {
+    const now = performance.now();
+    const epochMs = performance.timeOrigin + now;
+    return {
+      totalMs: this.currentTotalMs(now),
+      isRunning: this.model.isRunning,
+      capturedAt: this.timeSource ? this.timeSource.toServerTime(epochMs) : epochMs
+    };
+  };
+
+  applyTimeline = (timeline: ClockTimeline): void => {
+    const s = this.model;
+    const capturedAt = this.timeSource ? this.timeSource.toLocalTime(timeline.capturedAt) : timeline.capturedAt;
+    if (this.clockStore) {
+      // The boards are not part of a timeline: keep the store's
+      this.clockStore.dispatch({
+        type: 'RESUME',
+        payload: { ...anchorToResume(this.clockStore.getAnchor()), totalMs: timeline.totalMs, isRunning: timeline.isRunning, capturedAt }
+      });
+      return;
+    }
+
+    // Anchored at the capture moment itself, so the transit time is already counted
+    s.baseDurationMs = timeline.totalMs;
+    s.startTimeMs = capturedAt - performance.timeOrigin;
+    const wasRunning = s.isRunning;
+    s.isRunning = timeline.isRunning;
+    s.hasExpired = hasReachedTarget(s.direction, timeline.totalMs, s.targetMs);
+
+    if (s.isRunning && !wasRunning) this.startTicks();
+    else if (!s.isRunning && wasRunning) this.stopTicks();
+    this.scheduleDegradedTick();
+    this.persist();
+    this.emitChange();
+  };
+
+  // ---------------------------------------------------------------------------
+  // Internal Logic: The "Brain"
+  // ---------------------------------------------------------------------------
+
+  // Shifts the whole timeline: the anchor stays, so the phase is kept
+  private shiftBy(deltaMs: number): void {
+    const s = this.model;
+    s.baseDurationMs += deltaMs;
+    s.hasExpired = hasReachedTarget(s.direction, this.currentTotalMs(performance.now()), s.targetMs);
+    this.scheduleDegradedTick();
+    this.persist();
+  }
+
+  // When a command takes effect: at the operator's input, within the compensation window
+  private inputTime(input?: InputTimestamp): number {
+    return compensatedNow(inputEpochMs(input), this.maxInputCompensationMs);
+  }
+
+  private currentTotalMs(now: number): number {
+    const { isRunning, baseDurationMs, startTimeMs, direction } = this.model;
+    if (!isRunning) return baseDurationMs;
+
+    // Delta Calculation: Base ± (Now - Start)
+    // Using performance.now() for monotonic guarantee
+    const elapsedMs = now - startTimeMs;
+    return direction === 'down' ? baseDurationMs - elapsedMs : baseDurationMs + elapsedMs;
+  }
+
+  // Records the timer after each command (a no-op without `persistence`)
+  private persist(): void {
+    const s = this.model;
+    saveClockState(this.persistence, {
+      totalMs: this.currentTotalMs(performance.now()),
+      isRunning: s.isRunning,
+      isExpired: s.hasExpired
+    });
+  }
+
+  // Applies the expiry rules. Returns true if the target was reached on this call.
+  private applyExpiry(now: number): boolean {
+    const s = this.model;
+    if (s.hasExpired || !hasReachedTarget(s.direction, this.currentTotalMs(now), s.targetMs)) return false;
+
+    s.hasExpired = true;
+    if (s.expiryBehaviour === 'stop' && s.targetMs !== null) {
+      // Freeze exactly on the target, not on the tick that noticed it
+      s.baseDurationMs = s.targetMs;
+      s.isRunning = false;
+      this.stopTicks();
+    }
+    this.persist();
+    return true;
+  }
+
+  private calculateState(): TimerState {
+    const { isRunning, direction, expiryBehaviour, hasExpired, currentPeriod, format, precision, timecodeRate } = this.model;
+    const mode = this.mode;
+    const currentMs = this.currentTotalMs(performance.now());
+    const history = this.clockStore ? this.clockStore.getHistory() : this.history.getState();
+
+    // Countdowns round up so that 00:00:00 appears exactly at expiry
+    const rawSeconds = direction === 'down'
+      ? Math.ceil(currentMs / 1000)
+      : Math.floor(currentMs / 1000);
+    const rawFrames = msToFrames(currentMs, timecodeRate, direction === 'down');
+    const rawMs = format === 'TIMECODE'
+      ? framesToMs(rawFrames, timecodeRate)
+      : quantizeMs(currentMs, precision, direction === 'down');
+    // Only an overrunning countdown may show negative time
+    const canGoNegative = direction === 'down' && expiryBehaviour === 'overrun';
+    const totalSeconds = canGoNegative ? rawSeconds : Math.max(0, rawSeconds);
+    const totalMs = canGoNegative ? rawMs : Math.max(0, rawMs);
+    const frames = canGoNegative ? rawFrames : Math.max(0, rawFrames);
+
+    return {
+      totalSeconds,
+      totalMs,
+      frames,
+      displayTime: format === 'TIMECODE'
+        ? framesToTimecode(frames, timecodeRate)
+        : formatTimeMs(totalMs, format, precision),
+      isRunning,
+      isExpired: hasExpired,
+      currentPeriod,
+      mode,
+      degraded: mode === 'degraded',
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      markers: this.markers
+    };
+  }
+
+  private emitChange(): void {
+    const expiredNow = this.applyExpiry(performance.now());
+    const newState = this.calculateState();
+    const oldState = this.snapshot;
+
+    // Optimisation: Only notify subscribers if the visible unit (second, tenth...) or "running state" changed.
+    // This filters out the worker ticks that occur within the same unit.
+    if (
+      newState.totalMs !== oldState.totalMs ||
+      newState.frames !== oldState.frames ||
+      newState.totalSeconds !== oldState.totalSeconds ||
+      newState.displayTime !== oldState.displayTime ||
+      newState.isRunning !== oldState.isRunning ||
+      newState.isExpired !== oldState.isExpired ||
+      newState.currentPeriod !== oldState.currentPeriod ||
+      newState.mode !== oldState.mode ||
+      newState.canUndo !== oldState.canUndo ||
+      newState.canRedo !== oldState.canRedo ||
+      newState.markers !== oldState.markers
+    ) {
+      this.snapshot = newState;
+      this.listeners.forEach(listener => listener());
+    }
+
+    if (expiredNow) this.onExpired?.();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tick Sources
+  // ---------------------------------------------------------------------------
+
+  // Silences whichever scheduler is active
+  private stopTicks(): void {
+    this.worker?.postMessage({ type: 'STOP' });
+    if (this.degradedTimer !== null) clearTimeout(this.degradedTimer);
+    this.degradedTimer = null;
+  }
+
+  private startTicks(): void {
+    const s = this.model;
+    if (this.mode === 'degraded') {
+      this.scheduleDegradedTick();
+    } else {
+      this.worker?.postMessage({ type: 'START', payload: { intervalMs: tickIntervalFor(s.format, s.precision, s.timecodeRate) } });
+    }
+  }
+
+  // Degraded mode: one timeout per display unit, re-armed after each update.
+  // Call again whenever the anchor moves (setTime, direction change) to realign it.
+  private scheduleDegradedTick(): void {
+    const s = this.model;
+    if (this.degradedTimer !== null) clearTimeout(this.degradedTimer);
+    this.degradedTimer = null;
+    if (this.mode !== 'degraded' || !s.isRunning || !this.active) return;
+
+    const unitMs = displayUnitMs(s.format, s.precision, s.timecodeRate);
+    this.degradedTimer = setTimeout(() => {
+      this.degradedTimer = null;
+      this.emitChange();
+      this.scheduleDegradedTick();
+    }, msUntilNextUnit(this.currentTotalMs(performance.now()), unitMs, s.direction));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Worker Lifecycle (Resource Safety)
+  // ---------------------------------------------------------------------------
+
+  private activate(): void {
+    this.active = true;
+    if (this.spawnWorker()) {
+      this.mode = 'worker';
+      if (this.model.isRunning) this.startTicks();
+    } else {
+      this.enterDegradedMode();
+    }
+    if (this.clockStore) {
+      this.followStore(); // Catch up on commands issued while nobody was listening
+      this.unsubscribeStore = this.clockStore.subscribe(() => this.followStore());
+    }
+  }
+
+  private deactivate(): void {
+    if (!this.active) return;
+    this.active = false;
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.releaseWorker();
+    if (this.degradedTimer !== null) clearTimeout(this.degradedTimer);
+    this.degradedTimer = null;
+  }
+
+  // Terminate thread & Revoke Blob URL to prevent memory leaks
+  private releaseWorker(): void {
+    if (this.worker) {
+      this.worker.onmessage = null;
+      this.worker.onerror = null;
+      this.worker.onmessageerror = null;
+      this.worker.terminate();
+    }
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+    this.worker = null;
+    this.workerUrl = null;
+  }
+
+  private spawnWorker(): boolean {
+    try {
+      // Create a Blob from the extracted string
+      const blob = new Blob([TIMER_WORKER_SCRIPT], { type: 'application/javascript' });
+      this.workerUrl = URL.createObjectURL(blob);
+      const worker = new Worker(this.workerUrl);
+      this.worker = worker;
+
+      worker.onmessage = (e) => {
+        if (e.data.type === 'TICK') {
+          // Received "Wake Up" signal -> Calculate Time -> Update UI
+          this.emitChange();
+        }
+      };
+      // [FIX] A crashed worker just goes silent, which would freeze the display
+      worker.onerror = (e) => this.replaceWorker(e);
+      worker.onmessageerror = (e) => this.replaceWorker(e);
+      return true;
+    } catch (err) {
+      console.error('Clock Worker Init Failed:', err);
+      this.releaseWorker();
+      return false;
+    }
+  }
+
+  private enterDegradedMode(): void {
+    console.error('Clock Worker unavailable, ticking on the main thread');
+    this.mode = 'degraded';
+    this.scheduleDegradedTick();
+    this.emitChange();
+  }
+
+  // The time lives in the model (base + anchor), so a new worker only has to resume ticking
+  private replaceWorker(reason: Event): void {
+    if (!this.active) return;
+    console.error('Clock Worker crashed:', reason);
+    this.releaseWorker();
+    if (this.workerRestarts >= MAX_WORKER_RESTARTS || !this.spawnWorker()) {
+      this.enterDegradedMode();
+      return;
+    }
+    this.workerRestarts++;
+    if (this.model.isRunning) this.startTicks();
+    this.emitChange(); // Catch up on anything missed while the worker was down
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shared Store (the store owns the anchor, the engine only mirrors it)
+  // ---------------------------------------------------------------------------
+
+  private followStore(): void {
+    const s = this.model;
+    const anchor = this.clockStore!.getAnchor();
+    const wasRunning = s.isRunning;
+    const expiredNow = anchor.isExpired && !s.hasExpired;
+
+    // Same anchor as every other renderer: no value of our own to drift
+    s.baseDurationMs = anchor.totalMs;
+    s.startTimeMs = anchor.capturedAt - performance.timeOrigin;
+    s.isRunning = anchor.isRunning;
+    s.direction = anchor.timing.direction;
+    s.targetMs = anchor.timing.targetSeconds === null ? null : anchor.timing.targetSeconds * 1000;
+    s.expiryBehaviour = anchor.timing.expiryBehaviour;
+    s.hasExpired = anchor.isExpired;
+
+    if (s.isRunning && !wasRunning) this.startTicks();
+    else if (!s.isRunning && wasRunning) this.stopTicks();
+    this.scheduleDegradedTick();
+    this.persist();
+    this.emitChange();
+    if (expiredNow) this.onExpired?.();
+  }
+}
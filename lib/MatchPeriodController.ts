@@ -0,0 +1,244 @@
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * The phases of a football match, including extra time and a shootout.
+ */
+export type MatchPeriod =
+  | 'PRE_MATCH'
+  | 'FIRST_HALF'
+  | 'HALF_TIME'
+  | 'SECOND_HALF'
+  | 'FULL_TIME'
+  | 'EXTRA_TIME_FIRST_HALF'
+  | 'EXTRA_TIME_HALF_TIME'
+  | 'EXTRA_TIME_SECOND_HALF'
+  | 'END_OF_EXTRA_TIME'
+  | 'PENALTIES';
+
+/**
+ * Describes how the match clock behaves during a period.
+ */
+export interface PeriodDefinition {
+  /** Short label for graphics (e.g. "1ST HALF", "HT") */
+  label: string;
+  /** Whether the match clock runs during this period (false for breaks) */
+  isPlaying: boolean;
+  /** Clock value in seconds at the start of a playing period (e.g. 45:00 for the 2nd half) */
+  startOffsetSeconds: number;
+  /** Regulation length of a playing period in seconds (0 for breaks) */
+  lengthSeconds: number;
+}
+
+/**
+ * Anything the controller can drive: the `useBroadcastMatchTimer` actions,
+ * the `MissionClock` controller, or an App-level action bundle.
+ */
+export interface PeriodClockTarget {
+  start: () => void;
+  pause: () => void;
+  setTime: (seconds: number) => void;
+  /** Optional: receives the new period (e.g. `useBroadcastMatchTimer().setPeriod`) */
+  setPeriod?: (period: MatchPeriod) => void;
+  /** Optional: receives the regulation end of a playing period, or null during breaks */
+  setStoppageBoundary?: (seconds: number | null) => void;
+  /** Optional: clears the announced added time when a period ends */
+  clearAddedTime?: () => void;
+}
+
+/**
+ * Options for `MatchPeriodController`.
+ */
+export interface MatchPeriodControllerOptions {
+  /** Overrides for individual period definitions (e.g. 35 minute youth halves) */
+  periods?: Partial<Record<MatchPeriod, Partial<PeriodDefinition>>>;
+  /** Period to start in (default: 'PRE_MATCH') */
+  initialPeriod?: MatchPeriod;
+  /** Called after every successful transition */
+  onPeriodChange?: (period: MatchPeriod, previous: MatchPeriod) => void;
+}
+
+// -----------------------------------------------------------------------------
+// 2. Football Defaults
+// -----------------------------------------------------------------------------
+
+const HALF = 45 * 60;
+const ET_HALF = 15 * 60;
+
+const breakPeriod = (label: string): PeriodDefinition => ({
+  label,
+  isPlaying: false,
+  startOffsetSeconds: 0,
+  lengthSeconds: 0,
+});
+
+/** Standard football periods: 2 × 45' halves, 2 × 15' extra time halves. */
+export const DEFAULT_MATCH_PERIODS: Record<MatchPeriod, PeriodDefinition> = {
+  PRE_MATCH: breakPeriod('PRE-MATCH'),
+  FIRST_HALF: { label: '1ST HALF', isPlaying: true, startOffsetSeconds: 0, lengthSeconds: HALF },
+  HALF_TIME: breakPeriod('HT'),
+  SECOND_HALF: { label: '2ND HALF', isPlaying: true, startOffsetSeconds: HALF, lengthSeconds: HALF },
+  FULL_TIME: breakPeriod('FT'),
+  EXTRA_TIME_FIRST_HALF: { label: 'ET 1ST HALF', isPlaying: true, startOffsetSeconds: 2 * HALF, lengthSeconds: ET_HALF },
+  EXTRA_TIME_HALF_TIME: breakPeriod('ET HT'),
+  EXTRA_TIME_SECOND_HALF: { label: 'ET 2ND HALF', isPlaying: true, startOffsetSeconds: 2 * HALF + ET_HALF, lengthSeconds: ET_HALF },
+  END_OF_EXTRA_TIME: breakPeriod('AET'),
+  PENALTIES: breakPeriod('PENS'),
+};
+
+/** Legal transitions. Anything not listed here is rejected. */
+export const MATCH_PERIOD_TRANSITIONS: Record<MatchPeriod, readonly MatchPeriod[]> = {
+  PRE_MATCH: ['FIRST_HALF'],
+  FIRST_HALF: ['HALF_TIME'],
+  HALF_TIME: ['SECOND_HALF'],
+  SECOND_HALF: ['FULL_TIME'],
+  FULL_TIME: ['EXTRA_TIME_FIRST_HALF', 'PENALTIES'],
+  EXTRA_TIME_FIRST_HALF: ['EXTRA_TIME_HALF_TIME'],
+  EXTRA_TIME_HALF_TIME: ['EXTRA_TIME_SECOND_HALF'],
+  EXTRA_TIME_SECOND_HALF: ['END_OF_EXTRA_TIME'],
+  END_OF_EXTRA_TIME: ['PENALTIES'],
+  PENALTIES: [],
+};
+
+// -----------------------------------------------------------------------------
+// 3. The Controller
+// -----------------------------------------------------------------------------
+
+/**
+ * A state machine for match periods layered on top of the timing engines.
+ *
+ * The controller never keeps time itself. On each transition it drives its
+ * targets: playing periods jump the clock to their start offset and start it,
+ * breaks pause the clock and hold it at the end of the last playing period
+ * (e.g. "45:00" at half time, regardless of stoppage time played). Targets
+ * that support stoppage time receive the period's regulation end as their
+ * boundary, and any announced added time is cleared.
+ *
+ * @example
+ * ```ts
+ * const periods = new MatchPeriodController(() => [timer, clockRef.current]);
+ * periods.kickOff();          // 1ST HALF, clock runs from 00:00
+ * periods.endPeriod();        // HT, clock holds at 45:00
+ * periods.startNextPeriod();  // 2ND HALF, clock runs from 45:00
+ * ```
+ */
+export class MatchPeriodController {
+  private period: MatchPeriod;
+  private lastPlayingPeriod: MatchPeriod | null;
+  private readonly periods: Record<MatchPeriod, PeriodDefinition>;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly getTargets: () => Array<PeriodClockTarget | null | undefined>,
+    private readonly options: MatchPeriodControllerOptions = {}
+  ) {
+    this.period = options.initialPeriod ?? 'PRE_MATCH';
+
+    const periods = { ...DEFAULT_MATCH_PERIODS };
+    for (const key of Object.keys(options.periods ?? {}) as MatchPeriod[]) {
+      periods[key] = { ...periods[key], ...options.periods![key] };
+    }
+    this.periods = periods;
+
+    // A controller created mid-match (e.g. after a reload) holds breaks like one that played through
+    this.lastPlayingPeriod = periods[this.period].isPlaying ? this.period : this.getPlayingPeriodBefore(this.period);
+  }
+
+  /** The period the match is currently in. */
+  get currentPeriod(): MatchPeriod {
+    return this.period;
+  }
+
+  /** Returns the definition of a period (default: the current one). */
+  getDefinition(period: MatchPeriod = this.period): PeriodDefinition {
+    return this.periods[period];
+  }
+
+  /** Clock value in seconds at which a playing period reaches its regulation end. */
+  getPeriodEndSeconds(period: MatchPeriod = this.period): number {
+    const def = this.periods[period];
+    return def.startOffsetSeconds + def.lengthSeconds;
+  }
+
+  /** Periods that can legally follow the current one. */
+  getNextPeriods(): readonly MatchPeriod[] {
+    return MATCH_PERIOD_TRANSITIONS[this.period];
+  }
+
+  canTransitionTo(period: MatchPeriod): boolean {
+    return MATCH_PERIOD_TRANSITIONS[this.period].includes(period);
+  }
+
+  /**
+   * Moves to `period` and drives the clock accordingly.
+   * @returns false (and does nothing) if the transition is not legal
+   */
+  transitionTo(period: MatchPeriod): boolean {
+    if (!this.canTransitionTo(period)) return false;
+
+    const previous = this.period;
+    const def = this.periods[period];
+    const targets = this.getTargets().filter((t): t is PeriodClockTarget => !!t);
+
+    for (const target of targets) {
+      target.setPeriod?.(period);
+      target.clearAddedTime?.();
+      if (def.isPlaying) {
+        target.setStoppageBoundary?.(def.startOffsetSeconds + def.lengthSeconds);
+        target.setTime(def.startOffsetSeconds);
+        target.start();
+      } else {
+        target.pause();
+        target.setStoppageBoundary?.(null);
+        target.setTime(this.getHoldSeconds());
+      }
+    }
+
+    if (def.isPlaying) this.lastPlayingPeriod = period;
+    this.period = period;
+    this.listeners.forEach(listener => listener());
+    this.options.onPeriodChange?.(period, previous);
+    return true;
+  }
+
+  /** PRE_MATCH → FIRST_HALF */
+  kickOff(): boolean {
+    return this.transitionTo('FIRST_HALF');
+  }
+
+  /** Ends the current playing period (1ST HALF → HT, 2ND HALF → FT, ...). */
+  endPeriod(): boolean {
+    if (!this.periods[this.period].isPlaying) return false;
+    return this.transitionTo(MATCH_PERIOD_TRANSITIONS[this.period][0]);
+  }
+
+  /** Starts the playing period that follows the current break (HT → 2ND HALF, FT → ET 1ST HALF, ...). */
+  startNextPeriod(): boolean {
+    const next = MATCH_PERIOD_TRANSITIONS[this.period].find(p => this.periods[p].isPlaying);
+    return next ? this.transitionTo(next) : false;
+  }
+
+  /** FT or AET → PENALTIES */
+  startShootout(): boolean {
+    return this.transitionTo('PENALTIES');
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // The playing period that leads into a break (null if none does, e.g. PRE_MATCH)
+  private getPlayingPeriodBefore(period: MatchPeriod): MatchPeriod | null {
+    const candidates = Object.keys(MATCH_PERIOD_TRANSITIONS) as MatchPeriod[];
+    return candidates.find(p => this.periods[p].isPlaying && MATCH_PERIOD_TRANSITIONS[p].includes(period)) ?? null;
+  }
+
+  // Breaks hold the clock at the regulation end of the last playing period
+  private getHoldSeconds(): number {
+    return this.lastPlayingPeriod ? this.getPeriodEndSeconds(this.lastPlayingPeriod) : 0;
+  }
+}
@@ -1,45 +1,24 @@
-import React, { useEffect, useRef, useMemo } from 'react';
-import { CLOCK_WORKER_SCRIPT } from './workers/clock.worker';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { MissionClockEngine, MissionClockEngineOptions, MissionClockHandle } from './MissionClockEngine';
 
-/**
- * Configuration options for the clock's visual appearance.
- */
-export interface ClockStyleConfig {
-  /** Background color of the canvas (CSS color string) */
-  backgroundColor: string;
-  /** Color of the digits (CSS color string) */
-  textColor: string;
-  /** Font family for the digits (monospace recommended) */
-  fontFamily: string;
-  /** Whether to show a glow/shadow effect behind digits */
-  glowEffect: boolean;
-  /** Whether to show the pulsing activity dot indicating worker status */
-  showDot: boolean;
-}
-
-const DEFAULT_CONFIG: ClockStyleConfig = {
-  backgroundColor: '#0f172a',
-  textColor: '#22c55e',
-  fontFamily: "'Courier New', monospace",
-  glowEffect: true,
-  showDot: true,
-};
+export type {
+  ClockStyleConfig,
+  MissionClockCommands,
+  ConfirmedClockCommands,
+  MissionClockHandle
+} from './MissionClockEngine';
 
 /**
- * Props for the MissionClock component.
+ * Props for the MissionClock component (see `MissionClockEngineOptions`).
  */
-export interface MissionClockProps {
-  /** Initial time in seconds to display (default: 0) */
-  initialSeconds?: number;
-  /** Optional style configuration overrides */
-  config?: Partial<ClockStyleConfig>;
+export interface MissionClockProps extends MissionClockEngineOptions {
   /** CSS class names for the container div */
   className?: string;
-  /** 
-   * Mutable ref to access imperative controls (start/pause/setTime).
-   * Useful when controlling the clock from a parent component or external store.
+  /**
+   * @deprecated Pass a `ref` instead: `<MissionClock ref={clockRef} />`.
+   * Receives the same {@link MissionClockHandle}.
    */
-  controllerRef?: React.MutableRefObject<any>;
+  controllerRef?: React.MutableRefObject<MissionClockHandle | null>;
 }
 
 /**
@@ -51,9 +30,13 @@ export interface MissionClockProps {
  * * STABILITY: React 18 Strict Mode Safe (Imperative DOM)
  * ============================================================================
  * 
- * Uses `OffscreenCanvas` inside a dedicated Web Worker to render time.
+ * A thin React adapter over `MissionClockEngine`, which uses `OffscreenCanvas`
+ * inside a dedicated Web Worker to render time.
  * This ensures the clock remains smooth (60fps) and accurate even when 
- * the main React thread is blocked or stuttering.
+ * the main React thread is blocked or stuttering. Where that is unsupported
+ * the same kernel runs on the main thread (canvas, then DOM text), behind the
+ * same handle; see the `backend` prop. A watchdog re-creates a worker that
+ * errors or stops sending heartbeats; see the `watchdog` prop.
  * 
  * @param props - {@link MissionClockProps}
  * @returns A React component wrapping the offscreen canvas
@@ -65,113 +48,49 @@ export interface MissionClockProps {
  *   config={{ textColor: '#00ff00' }} 
  *   className="w-full h-64"
  * />
+ *
+ * // Pre-show countdown that keeps running into negative time
+ * <MissionClock
+ *   initialSeconds={300}
+ *   direction="down"
+ *   expiryBehaviour="overrun"
+ *   onExpired={() => console.log('On air')}
+ * />
+ *
+ * // Imperative control
+ * const clockRef = useRef<MissionClockHandle>(null);
+ * <MissionClock ref={clockRef} />
  * ```
  */
-export const MissionClock = ({ 
-  initialSeconds = 0, 
-  config = {}, 
+export const MissionClock = forwardRef<MissionClockHandle, MissionClockProps>(({ 
   className = "",
-  controllerRef 
-}: MissionClockProps) => {
+  controllerRef,
+  ...options
+}, ref) => {
   
   // [FIX] Ref points to container DIV, not Canvas directly
   const containerRef = useRef<HTMLDivElement>(null);
-  const workerRef = useRef<Worker | null>(null);
-  
-  const activeConfig = useMemo(() => ({ ...DEFAULT_CONFIG, ...config }), [config]);
+  // One engine per component: queued commands survive Strict Mode remounts
+  const engineRef = useRef<MissionClockEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new MissionClockEngine(options);
+  }
+  const engine = engineRef.current;
 
+  // Latest callbacks; style and timing changes go to the kernel
   useEffect(() => {
-    if (!containerRef.current) return;
+    engine.setOptions(options);
+  });
 
-    // ------------------------------------------------------------------------
-    // [FIX] React 18 Strategy: Imperative Creation
-    // We manually create Canvas to avoid React Render cycle interference.
-    // This ensures that every time the Effect runs (Worker init), we have a
-    // fresh, non-transferred Canvas element. Solves "InvalidStateError".
-    // ------------------------------------------------------------------------
-    const canvas = document.createElement('canvas');
-    canvas.style.width = '100%';
-    canvas.style.height = '100%';
-    canvas.style.display = 'block';
-    containerRef.current.appendChild(canvas);
+  useImperativeHandle(ref, () => engine.handle, [engine]);
+  useImperativeHandle(controllerRef, () => engine.handle, [engine]);
 
-    // Worker Instantiation (Blob URL for portability)
-    const blob = new Blob([CLOCK_WORKER_SCRIPT], { type: 'application/javascript' });
-    const workerUrl = URL.createObjectURL(blob);
-    const worker = new Worker(workerUrl);
-    workerRef.current = worker;
-
-    // Transfer Control
-    // Since canvas is freshly created, it will not throw InvalidStateError
-    const offscreen = canvas.transferControlToOffscreen();
-    
-    worker.postMessage(
-      { 
-        type: 'INIT', 
-        payload: { 
-          canvas: offscreen, 
-          config: activeConfig,
-          initialSeconds 
-        } 
-      }, 
-      [offscreen]
-    );
-
-    // ResizeObserver: Watch container size
-    const observer = new ResizeObserver((entries) => {
-      for (const entry of entries) {
-        const { width, height } = entry.contentRect;
-        const dpr = window.devicePixelRatio || 1;
-        
-        worker.postMessage({
-          type: 'RESIZE',
-          payload: {
-            // Send physical pixel dimensions
-            width: Math.round(width * dpr), 
-            height: Math.round(height * dpr),
-            dpr: dpr
-          }
-        });
-      }
-    });
-    observer.observe(containerRef.current);
-
-    // Controller Binding for Parent Access
-    if (controllerRef) {
-      controllerRef.current = {
-        start: () => worker.postMessage({ type: 'START' }),
-        pause: () => worker.postMessage({ type: 'PAUSE' }),
-        setTime: (s: number) => worker.postMessage({ type: 'SET_TIME', payload: { seconds: s } }),
-        adjustTime: (delta: number) => worker.postMessage({ 
-          type: 'ADJUST_TIME', 
-          payload: { deltaSeconds: delta } 
-        })
-      };
-    }
-
-    // Cleanup
-    return () => {
-      observer.disconnect();
-      worker.terminate();
-      workerRef.current = null;
-      URL.revokeObjectURL(workerUrl);
-      
-      // [FIX] Important: Manually remove canvas to keep DOM clean
-      if (containerRef.current && containerRef.current.contains(canvas)) {
-        containerRef.current.removeChild(canvas);
-      }
-    };
-  }, []); // Empty dependency ensures logic runs once per mount cycle
-
-  // Dynamic Config Update
   useEffect(() => {
-    if (workerRef.current) {
-      workerRef.current.postMessage({
-        type: 'UPDATE_CONFIG',
-        payload: activeConfig
-      });
-    }
-  }, [activeConfig]);
+    const container = containerRef.current;
+    if (!container) return;
+    engine.attach(container);
+    return () => engine.detach();
+  }, [engine]); // Attaches once per mount cycle
 
   return (
     <div 
@@ -181,4 +100,6 @@ export const MissionClock = ({
       style={{ minHeight: '1px' }} 
     />
   );
-};
\ No newline at end of file
+});
+
+MissionClock.displayName = 'MissionClock';
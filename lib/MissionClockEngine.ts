@@ -0,0 +1,667 @@
+/**
+ * ============================================================================
+ * MODULE: Mission Clock Engine (framework-agnostic)
+ * * Used by: MissionClock (React), plain-JS overlays directly
+ * * OWNS: the render kernel (worker / main thread / DOM), its watchdog,
+ *   persistence, cross-tab sync and the command queue
+ * * API: `handle` (the same commands as the component's ref) plus
+ *   attach / detach to a container element
+ * ============================================================================
+ */
+
+import { CountdownOptions, resolveTargetSeconds } from './timing';
+import { ClockBackend, ClockBackendPreference, MountedClockBackend, mountClockBackend } from './clockBackend';
+import {
+  ClockHealth,
+  ClockWatchdogOptions,
+  DEFAULT_WATCHDOG_OPTIONS,
+  createHeartbeatMonitor,
+  epochNow,
+  toResumeState
+} from './clockWatchdog';
+import { ClockPersistenceOptions, loadClockState, saveClockState, toResumeFromSaved } from './clockPersistence';
+import { ClockSyncOptions, ClockSyncRole, SYNCED_COMMANDS, createClockSync, isOnTimeline } from './clockSync';
+import type { ClockSyncClient } from './ClockSyncClient';
+import { DEFAULT_MAX_INPUT_COMPENSATION_MS, InputTimestamp, inputEpochMs } from './inputLatency';
+import { ClockStore, STORE_COMMANDS, anchorToResume } from './clockStore';
+import { DEFAULT_TIME_FORMAT, DEFAULT_TIME_PRECISION, TimeFormat, TimePrecision } from './timeFormat';
+import { DEFAULT_TIMECODE_RATE, TimecodeRate, timecodeToSeconds } from './timecode';
+import {
+  CLOCK_PROTOCOL_VERSION,
+  ClockCommand,
+  ClockCommandReply,
+  ClockHeartbeat,
+  ClockResumeState,
+  ClockState,
+  ClockTick,
+  ClockTiming,
+  ClockWorkerMessage
+} from './clockProtocol';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Configuration options for the clock's visual appearance.
+ */
+export interface ClockStyleConfig {
+  /** Background color of the canvas (CSS color string) */
+  backgroundColor: string;
+  /** Color of the digits (CSS color string) */
+  textColor: string;
+  /** Font family for the digits (monospace recommended) */
+  fontFamily: string;
+  /** Whether to show a glow/shadow effect behind digits */
+  glowEffect: boolean;
+  /** Whether to show the pulsing activity dot indicating worker status */
+  showDot: boolean;
+  /** Color of the stoppage counter and the added-time board (CSS color string) */
+  addedTimeColor: string;
+  /** Display format of the digits (e.g. 'MM:SS' for football-style "90:00") */
+  format: TimeFormat;
+  /** Sub-second precision; also the repaint granularity (e.g. 'tenths' repaints every 100ms) */
+  precision: TimePrecision;
+  /** Frame rate used when `format` is 'TIMECODE' (repaints once per frame) */
+  timecodeRate: TimecodeRate;
+}
+
+export const DEFAULT_CLOCK_STYLE: ClockStyleConfig = {
+  backgroundColor: '#0f172a',
+  textColor: '#22c55e',
+  fontFamily: "'Courier New', monospace",
+  glowEffect: true,
+  showDot: true,
+  addedTimeColor: '#f59e0b',
+  format: DEFAULT_TIME_FORMAT,
+  precision: DEFAULT_TIME_PRECISION,
+  timecodeRate: DEFAULT_TIMECODE_RATE,
+};
+
+/**
+ * Options for `MissionClockEngine` (and the `MissionClock` props).
+ */
+export interface MissionClockEngineOptions extends CountdownOptions {
+  /** Initial time in seconds to display (default: 0) */
+  initialSeconds?: number;
+  /** Optional style configuration overrides */
+  config?: Partial<ClockStyleConfig>;
+  /** Called once when the clock reaches its target (see `targetSeconds`) */
+  onExpired?: () => void;
+  /**
+   * Called with the worker's ACK or ERROR reply to each command.
+   * Rejected commands are also logged to the console.
+   */
+  onCommandReply?: (reply: ClockCommandReply) => void;
+  /** Called each time the worker paints a new whole second while running */
+  onTick?: (tick: ClockTick) => void;
+  /** Called with the worker's state after every start / pause / time change and on expiry */
+  onStateChange?: (state: ClockState) => void;
+  /**
+   * Forces a render backend (default: 'auto', which prefers the worker and
+   * falls back to the main thread or DOM text where it is unsupported).
+   * Read once on mount.
+   */
+  backend?: ClockBackendPreference;
+  /** Called on mount (and after a watchdog restart) with the backend actually in use */
+  onBackendChange?: (backend: ClockBackend) => void;
+  /**
+   * Restarts a crashed or hung worker, resuming at the exact clock value
+   * (default: on, see `DEFAULT_WATCHDOG_OPTIONS`). `false` disables it.
+   * Read once on mount.
+   */
+  watchdog?: Partial<ClockWatchdogOptions> | false;
+  /** Called when the watchdog's view of the clock changes (e.g. for monitoring) */
+  onHealthChange?: (health: ClockHealth) => void;
+  /**
+   * Saves the clock after every command and restores it on mount (e.g. after
+   * the graphics browser reloads), including the time elapsed while the page
+   * was gone. Read once on mount.
+   */
+  persistence?: ClockPersistenceOptions;
+  /**
+   * Shares one timeline with every clock on the same channel in other tabs
+   * or windows: commands issued in any of them apply to all. Read once on mount.
+   */
+  sync?: ClockSyncOptions;
+  /** Called when this clock becomes the sync leader or a follower */
+  onSyncRoleChange?: (role: ClockSyncRole) => void;
+  /**
+   * Puts `getTimeline` / `applyTimeline` on the time server's clock, so clocks
+   * on different machines can share one timeline.
+   */
+  timeSource?: ClockSyncClient;
+  /**
+   * START, PAUSE and SET_TIME take effect when the operator clicked, even if a
+   * blocked main thread delivers them late, up to this many ms back
+   * (default: 1000, 0 disables). Read on mount.
+   */
+  maxInputCompensationMs?: number;
+  /**
+   * Renders a shared `ClockStore` instead of keeping its own time model: the
+   * handle's commands go to the store, and the kernel is re-anchored to the
+   * store's anchor after each one, so every renderer of that store shows the
+   * same time. The store's timing replaces `direction` / `targetSeconds` /
+   * `expiryBehaviour`. Read once on mount.
+   */
+  store?: ClockStore;
+}
+
+/**
+ * Fire-and-forget clock commands. Calls made before the worker is up (e.g.
+ * from a parent's effect on first render) are queued and sent once it is.
+ *
+ * `input` is the click (or its `timeStamp`) that caused the call; the clock
+ * applies the command at that moment. Calls made inside an event handler
+ * pick up the event being dispatched without it.
+ */
+export interface MissionClockCommands {
+  start: (input?: InputTimestamp) => void;
+  pause: (input?: InputTimestamp) => void;
+  /** Jumps to an absolute value in seconds */
+  setTime: (seconds: number, input?: InputTimestamp) => void;
+  /** Adds (or with a negative value, removes) seconds */
+  adjustTime: (deltaSeconds: number, input?: InputTimestamp) => void;
+  /** Stoppage time: digits hold at the boundary while added time runs below (null to disable) */
+  setStoppageBoundary: (seconds: number | null) => void;
+  announceAddedTime: (minutes: number) => void;
+  clearAddedTime: () => void;
+}
+
+/**
+ * The same commands, resolving once the worker has applied them (its ACK).
+ * They reject if the worker rejects the command or the clock unmounts first.
+ */
+export type ConfirmedClockCommands = {
+  [K in keyof MissionClockCommands]: (...args: Parameters<MissionClockCommands[K]>) => Promise<void>;
+};
+
+/**
+ * Imperative handle exposed through `ref`.
+ *
+ * @example
+ * ```tsx
+ * const clockRef = useRef<MissionClockHandle>(null);
+ * <MissionClock ref={clockRef} />
+ *
+ * clockRef.current?.adjustTime(-1);
+ * await clockRef.current?.confirmed.setTime(2700); // the worker now shows 45:00
+ * ```
+ */
+export interface MissionClockHandle extends MissionClockCommands {
+  /** Accepts "HH:MM:SS:FF" (or ';FF' drop-frame) at the configured rate; false if invalid */
+  setTimecode: (timecode: string, input?: InputTimestamp) => boolean;
+  /** Resolves with the worker's authoritative state */
+  getState: () => Promise<ClockState>;
+  /** The render backend in use, or null while unmounted */
+  getBackend: () => ClockBackend | null;
+  /** The watchdog's latest view of the clock */
+  getHealth: () => ClockHealth;
+  /** This clock's cross-tab role, or null without `sync` */
+  getSyncRole: () => ClockSyncRole | null;
+  /** Resolves with the worker's position, to publish to other clocks (see `timeSource`) */
+  getTimeline: () => Promise<ClockResumeState>;
+  /** Re-anchors the worker to a published position, advanced by the time since it was captured */
+  applyTimeline: (timeline: ClockResumeState) => void;
+  confirmed: ConfirmedClockCommands;
+}
+
+// A promise waiting for the worker's reply to one command: an ACK resolves
+// a confirmed command (no value), a STATE resolves getState()
+type PendingReply = {
+  expects: 'ACK' | 'STATE';
+  resolve: (value: ClockState | void) => void;
+  reject: (err: Error) => void;
+};
+
+// -----------------------------------------------------------------------------
+// 2. Constants & Helpers
+// -----------------------------------------------------------------------------
+
+// Maps each handle method to its protocol command
+const COMMANDS = {
+  start: (): ClockCommand => ({ type: 'START' }),
+  pause: (): ClockCommand => ({ type: 'PAUSE' }),
+  setTime: (seconds: number): ClockCommand => ({ type: 'SET_TIME', payload: { seconds } }),
+  adjustTime: (deltaSeconds: number): ClockCommand => ({ type: 'ADJUST_TIME', payload: { deltaSeconds } }),
+  setStoppageBoundary: (seconds: number | null): ClockCommand => ({ type: 'SET_STOPPAGE_BOUNDARY', payload: { seconds } }),
+  announceAddedTime: (minutes: number): ClockCommand => ({ type: 'ANNOUNCE_ADDED_TIME', payload: { minutes } }),
+  clearAddedTime: (): ClockCommand => ({ type: 'CLEAR_ADDED_TIME' }),
+};
+
+const INITIAL_HEALTH: ClockHealth = {
+  status: 'starting',
+  backend: null,
+  restarts: 0,
+  lastHeartbeatAt: null,
+  lastError: null,
+};
+
+const resolveTiming = ({ direction = 'up', targetSeconds, expiryBehaviour = 'stop' }: CountdownOptions): ClockTiming => ({
+  direction,
+  targetSeconds: resolveTargetSeconds(direction, targetSeconds),
+  expiryBehaviour
+});
+
+const sameShallow = <T extends object>(a: T, b: T): boolean =>
+  (Object.keys(a) as Array<keyof T>).every(key => a[key] === b[key]) &&
+  Object.keys(a).length === Object.keys(b).length;
+
+// -----------------------------------------------------------------------------
+// 3. The Engine
+// -----------------------------------------------------------------------------
+
+/**
+ * The `MissionClock` without React: mounts the render kernel into a container
+ * element and exposes the same imperative handle.
+ *
+ * `attach` / `detach` may be repeated (e.g. React Strict Mode, or a custom
+ * element moved in the DOM); handle calls made while detached are queued and
+ * sent on the next `attach`.
+ *
+ * @example
+ * ```ts
+ * const clock = new MissionClockEngine({ initialSeconds: 0, config: { textColor: '#fff' } });
+ * clock.attach(document.getElementById('clock')!);
+ * startButton.addEventListener('click', (e) => clock.handle.start(e));
+ *
+ * // Later
+ * clock.detach();
+ * ```
+ */
+export class MissionClockEngine {
+  /** The clock's commands, also what `MissionClock` exposes through `ref` */
+  readonly handle: MissionClockHandle;
+
+  private options: MissionClockEngineOptions;
+  private config: ClockStyleConfig;
+  private timing: ClockTiming;
+
+  // Correlation ids for ACK / ERROR replies, unique per engine
+  private commandId = 0;
+  // Posts a versioned command to the live kernel (null while detached)
+  private send: ((command: ClockCommand, transfer?: Transferable[], issuedAt?: number) => number) | null = null;
+  // Replies awaited by getState() / confirmed.*, keyed by command id
+  private readonly pending = new Map<number, PendingReply>();
+  // Handle calls made while no kernel is running, sent in order on (re)attach
+  private queue: Array<{ command: ClockCommand; reply?: PendingReply; issuedAt: number }> = [];
+  // Tears down what `attach` set up
+  private cleanup: (() => void) | null = null;
+
+  // The backend actually running, and the watchdog's latest report
+  private activeBackend: ClockBackend | null = null;
+  private health: ClockHealth = INITIAL_HEALTH;
+  // The live cross-tab channel
+  private sync: ReturnType<typeof createClockSync> | null = null;
+  // The id of the RESUME that mirrored the shared store's last change
+  private storeResumeId: number | null = null;
+
+  constructor(options: MissionClockEngineOptions = {}) {
+    this.options = options;
+    this.config = { ...DEFAULT_CLOCK_STYLE, ...options.config };
+    this.timing = resolveTiming(options);
+    this.handle = this.createHandle();
+  }
+
+  /**
+   * Applies changed options: style and timing changes are sent to the kernel,
+   * callbacks take effect at once. Options marked "read once on mount" are
+   * read by the next `attach`.
+   */
+  setOptions(options: MissionClockEngineOptions): void {
+    this.options = options;
+
+    const config = { ...DEFAULT_CLOCK_STYLE, ...options.config };
+    if (!sameShallow(config, this.config)) {
+      this.config = config;
+      this.send?.({ type: 'UPDATE_CONFIG', payload: config });
+    }
+
+    // A store's timing comes from the store
+    const timing = resolveTiming(options);
+    if (!sameShallow(timing, this.timing)) {
+      this.timing = timing;
+      if (!this.options.store) this.send?.({ type: 'UPDATE_TIMING', payload: timing });
+    }
+  }
+
+  // Sends now if the kernel is up, otherwise queues. Stamped with the input
+  // time on the call, so a queued command still applies when it was issued.
+  private dispatch(command: ClockCommand, reply?: PendingReply, issuedAt: number = inputEpochMs()): void {
+    // With a store, the store applies the command and the kernel follows its anchor
+    const clockStore = this.options.store;
+    if (clockStore && STORE_COMMANDS.includes(command.type)) {
+      const revision = clockStore.getAnchor().revision;
+      const error = clockStore.dispatch(command, issuedAt);
+      if (error) {
+        console.error(`Clock store rejected ${command.type} (${error.code}):`, error.message);
+        reply?.reject(new Error(error.message));
+        return;
+      }
+      // Confirmed once the kernel has applied the resulting anchor
+      if (reply && clockStore.getAnchor().revision !== revision && this.send && this.storeResumeId !== null) {
+        this.pending.set(this.storeResumeId, reply);
+      } else {
+        reply?.resolve();
+      }
+      if (SYNCED_COMMANDS.includes(command.type)) this.sync?.forward(command, issuedAt);
+      return;
+    }
+
+    if (!this.send) {
+      this.queue.push({ command, reply, issuedAt });
+      return;
+    }
+    const id = this.send(command, undefined, issuedAt);
+    if (reply) this.pending.set(id, reply);
+    // Followers apply their own commands at once (the ACK stays local) and the
+    // leader's timeline then corrects them
+    if (SYNCED_COMMANDS.includes(command.type)) this.sync?.forward(command, issuedAt);
+  }
+
+  private createHandle(): MissionClockHandle {
+    const dispatch = this.dispatch.bind(this);
+    const confirm = (command: ClockCommand, input?: InputTimestamp) =>
+      new Promise<void>((resolve, reject) => dispatch(command, { expects: 'ACK', resolve, reject }, inputEpochMs(input)));
+    const getState = () => new Promise<ClockState>((resolve, reject) =>
+      dispatch({ type: 'GET_STATE' }, { expects: 'STATE', resolve, reject })
+    );
+
+    return {
+      start: (input) => dispatch(COMMANDS.start(), undefined, inputEpochMs(input)),
+      pause: (input) => dispatch(COMMANDS.pause(), undefined, inputEpochMs(input)),
+      setTime: (seconds, input) => dispatch(COMMANDS.setTime(seconds), undefined, inputEpochMs(input)),
+      setTimecode: (timecode, input) => {
+        const seconds = timecodeToSeconds(timecode, this.config.timecodeRate);
+        if (seconds === null) return false;
+        dispatch(COMMANDS.setTime(seconds), undefined, inputEpochMs(input));
+        return true;
+      },
+      adjustTime: (deltaSeconds, input) => dispatch(COMMANDS.adjustTime(deltaSeconds), undefined, inputEpochMs(input)),
+      setStoppageBoundary: (seconds) => dispatch(COMMANDS.setStoppageBoundary(seconds)),
+      announceAddedTime: (minutes) => dispatch(COMMANDS.announceAddedTime(minutes)),
+      clearAddedTime: () => dispatch(COMMANDS.clearAddedTime()),
+      getState,
+      getBackend: () => this.activeBackend,
+      getHealth: () => this.health,
+      getSyncRole: () => this.sync?.getRole() ?? null,
+      getTimeline: () => getState().then((state) => {
+        const capturedAt = epochNow();
+        const { timeSource } = this.options;
+        return toResumeState(state, timeSource ? timeSource.toServerTime(capturedAt) : capturedAt);
+      }),
+      applyTimeline: (timeline) => {
+        const { timeSource } = this.options;
+        dispatch({
+          type: 'RESUME',
+          payload: {
+            ...timeline,
+            // The kernel counts on this machine's clock
+            capturedAt: timeSource ? timeSource.toLocalTime(timeline.capturedAt) : timeline.capturedAt
+          }
+        });
+      },
+      confirmed: {
+        start: (input) => confirm(COMMANDS.start(), input),
+        pause: (input) => confirm(COMMANDS.pause(), input),
+        setTime: (seconds, input) => confirm(COMMANDS.setTime(seconds), input),
+        adjustTime: (deltaSeconds, input) => confirm(COMMANDS.adjustTime(deltaSeconds), input),
+        setStoppageBoundary: (seconds) => confirm(COMMANDS.setStoppageBoundary(seconds)),
+        announceAddedTime: (minutes) => confirm(COMMANDS.announceAddedTime(minutes)),
+        clearAddedTime: () => confirm(COMMANDS.clearAddedTime()),
+      },
+    };
+  }
+
+  /**
+   * Mounts the kernel into `container` (replacing a previous attachment) and
+   * sends the commands queued meanwhile.
+   */
+  attach(container: HTMLElement): void {
+    this.detach();
+
+    const options = this.options;
+    const pending = this.pending;
+    const clockStore = options.store;
+    const watchdogOptions = options.watchdog === false
+      ? null
+      : { ...DEFAULT_WATCHDOG_OPTIONS, ...options.watchdog };
+    const maxInputCompensationMs = options.maxInputCompensationMs ?? DEFAULT_MAX_INPUT_COMPENSATION_MS;
+    let disposed = false;
+    let mounted: MountedClockBackend | null = null;
+    let observer: ResizeObserver | null = null;
+    let monitor: ReturnType<typeof createHeartbeatMonitor> | null = null;
+    // The latest state the kernel reported: where a restart resumes from
+    let lastKnown: ClockHeartbeat | null = null;
+    let health = INITIAL_HEALTH;
+
+    // Notifies only on status / backend / restart changes, not on every heartbeat
+    const updateHealth = (changes: Partial<ClockHealth>) => {
+      const previous = health;
+      health = { ...health, ...changes };
+      this.health = health;
+      if (
+        health.status !== previous.status ||
+        health.backend !== previous.backend ||
+        health.restarts !== previous.restarts
+      ) {
+        this.options.onHealthChange?.(health);
+      }
+    };
+
+    // Resolves the promise waiting on this reply, if any. Returns false if none was.
+    const settle = (id: number, type: PendingReply['expects'], value?: ClockState) => {
+      const reply = pending.get(id);
+      if (!reply || reply.expects !== type) return false;
+      pending.delete(id);
+      reply.resolve(value);
+      return true;
+    };
+
+    const handleMessage = (message: ClockWorkerMessage) => {
+      switch (message?.type) {
+        case 'EXPIRED':
+          this.options.onExpired?.();
+          break;
+        case 'STATE':
+          lastKnown = { state: message.payload, capturedAt: epochNow() };
+          // Every state-changing command and expiry ends in a STATE: save it
+          if (message.id === null) {
+            saveClockState(options.persistence, {
+              totalMs: message.payload.totalMs,
+              isRunning: message.payload.isRunning,
+              isExpired: message.payload.isExpired,
+              stoppageBoundarySeconds: message.payload.stoppageBoundarySeconds,
+              announcedMinutes: message.payload.announcedMinutes
+            });
+          }
+          if (health.status !== 'healthy') updateHealth({ status: 'healthy' });
+          if (message.id === null) this.sync?.publish();
+          // Replies to getState() are not change notifications
+          if (message.id === null || !settle(message.id, 'STATE', message.payload)) {
+            this.options.onStateChange?.(message.payload);
+          }
+          break;
+        case 'HEARTBEAT':
+          lastKnown = message.payload;
+          monitor?.beat();
+          updateHealth({ status: 'healthy', lastHeartbeatAt: performance.now() });
+          break;
+        case 'TICK':
+          this.options.onTick?.(message.payload);
+          break;
+        case 'ERROR':
+          console.error(`Clock Worker rejected ${message.command ?? 'message'} (${message.code}):`, message.message);
+          if (message.id !== null && pending.has(message.id)) {
+            pending.get(message.id)!.reject(new Error(message.message));
+            pending.delete(message.id);
+          }
+          this.options.onCommandReply?.(message);
+          break;
+        case 'ACK':
+          settle(message.id, 'ACK');
+          this.options.onCommandReply?.(message);
+          break;
+      }
+    };
+
+    // Stamps every command with the protocol version and a correlation id
+    const send = (command: ClockCommand, transfer?: Transferable[], issuedAt?: number) => {
+      const id = ++this.commandId;
+      mounted?.post({ ...command, v: CLOCK_PROTOCOL_VERSION, id, ...(issuedAt !== undefined ? { issuedAt } : {}) }, transfer);
+      return id;
+    };
+
+    // Stops the kernel and fails the replies it will never send
+    const teardown = (reason: string) => {
+      monitor?.dispose();
+      monitor = null;
+      observer?.disconnect();
+      observer = null;
+      mounted?.dispose();
+      mounted = null;
+      pending.forEach(({ reject }) => reject(new Error(reason)));
+      pending.clear();
+    };
+
+    // The clock value lives in the kernel, so the new one resumes from the last
+    // report, advanced by the time the restart took (see ClockResumeState)
+    const restart = (reason: string) => {
+      if (disposed) return;
+      if (!watchdogOptions) {
+        console.error('Clock Worker failed:', reason);
+        return;
+      }
+      console.error('Clock Worker failed, restarting:', reason);
+      const resume = clockStore
+        ? anchorToResume(clockStore.getAnchor())
+        : lastKnown ? toResumeState(lastKnown.state, lastKnown.capturedAt) : undefined;
+      teardown('MissionClock worker restarted');
+
+      const restarts = health.restarts + 1;
+      updateHealth({ status: 'recovering', restarts, lastError: reason });
+      // A worker that keeps failing is replaced by the main-thread kernel
+      mount(restarts > watchdogOptions.maxRestarts ? 'main-thread' : options.backend ?? 'auto', resume);
+    };
+
+    // ------------------------------------------------------------------------
+    // [FIX] React 18 Strategy: Imperative Creation
+    // The backend creates its canvas (or text element) manually on every attach
+    // (and watchdog restart) to avoid React Render cycle interference.
+    // ------------------------------------------------------------------------
+    const mount = (preference: ClockBackendPreference, resume?: ClockResumeState) => {
+      const current = mountClockBackend(container, preference, handleMessage, (reason) => {
+        if (current === mounted) restart(reason);
+      });
+      mounted = current;
+      this.activeBackend = current.backend;
+      container.dataset.backend = current.backend;
+      updateHealth({ backend: current.backend });
+      this.options.onBackendChange?.(current.backend);
+
+      // Only a worker can hang independently of this thread
+      const watched = watchdogOptions !== null && current.backend === 'worker';
+      send(
+        {
+          type: 'INIT',
+          payload: {
+            canvas: current.surface,
+            config: this.config,
+            initialSeconds: options.initialSeconds ?? 0,
+            timing: clockStore ? clockStore.getAnchor().timing : this.timing,
+            ...(watched ? { heartbeatMs: watchdogOptions.heartbeatMs } : {}),
+            ...(resume ? { resume } : {}),
+            maxInputCompensationMs
+          }
+        },
+        current.transfer
+      );
+      if (watched) {
+        monitor = createHeartbeatMonitor(watchdogOptions.timeoutMs, () =>
+          restart(`no heartbeat for ${watchdogOptions.timeoutMs}ms`)
+        );
+      }
+
+      // ResizeObserver: Watch container size (observe() reports the current size at once)
+      observer = new ResizeObserver((entries) => {
+        for (const entry of entries) {
+          const { width, height } = entry.contentRect;
+          // Canvas backends draw in physical pixels, the DOM text backend in CSS pixels
+          const dpr = current.usesDevicePixels ? window.devicePixelRatio || 1 : 1;
+
+          send({
+            type: 'RESIZE',
+            payload: {
+              width: Math.round(width * dpr),
+              height: Math.round(height * dpr),
+              dpr: dpr
+            }
+          });
+        }
+      });
+      observer.observe(container);
+    };
+
+    // Pick up where a previous page (reload, crash) left off, or from the shared store
+    const saved = clockStore ? null : loadClockState(options.persistence);
+    mount(
+      options.backend ?? 'auto',
+      clockStore ? anchorToResume(clockStore.getAnchor()) : saved ? toResumeFromSaved(saved) : undefined
+    );
+    this.send = send;
+
+    // Shared store: re-anchor the kernel to every new anchor
+    let sentTiming = clockStore?.getAnchor().timing;
+    const unsubscribeStore = clockStore?.subscribe(() => {
+      const anchor = clockStore.getAnchor();
+      if (anchor.timing !== sentTiming) {
+        sentTiming = anchor.timing;
+        send({ type: 'UPDATE_TIMING', payload: anchor.timing });
+      }
+      this.storeResumeId = send({ type: 'RESUME', payload: anchorToResume(anchor) });
+    });
+
+    // Commands and timelines from other tabs go where local ones do
+    const applyRemote = (command: ClockCommand, issuedAt?: number) => {
+      if (clockStore && STORE_COMMANDS.includes(command.type)) clockStore.dispatch(command, issuedAt);
+      else send(command, undefined, issuedAt);
+    };
+
+    // Cross-tab sync: the leader applies every tab's commands, followers re-anchor to it
+    this.sync = options.sync ? createClockSync(options.sync, {
+      getState: () => lastKnown ? toResumeState(lastKnown.state, lastKnown.capturedAt) : null,
+      onRemoteCommand: (command, issuedAt) => applyRemote(command, issuedAt),
+      onLeaderState: (state) => {
+        const local = lastKnown ? toResumeState(lastKnown.state, lastKnown.capturedAt) : null;
+        if (local && isOnTimeline(local, state, lastKnown!.state.direction, epochNow())) return;
+        applyRemote({ type: 'RESUME', payload: state });
+      },
+      onRoleChange: (role) => this.options.onSyncRoleChange?.(role),
+    }) : null;
+    if (this.sync) this.options.onSyncRoleChange?.(this.sync.getRole());
+
+    // Flush handle calls made before the kernel existed
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(({ command, reply, issuedAt }) => this.dispatch(command, reply, issuedAt));
+
+    this.cleanup = () => {
+      disposed = true;
+      unsubscribeStore?.();
+      this.storeResumeId = null;
+      this.sync?.close();
+      this.sync = null;
+      teardown('MissionClock unmounted');
+      this.send = null;
+      this.activeBackend = null;
+      updateHealth({ backend: null });
+    };
+  }
+
+  /** Stops the kernel and fails its pending replies. Later handle calls are queued. */
+  detach(): void {
+    const cleanup = this.cleanup;
+    this.cleanup = null;
+    cleanup?.();
+  }
+}
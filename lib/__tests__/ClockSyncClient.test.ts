@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ClockSyncClient, computeClockSyncSample, selectBestSample } from '../ClockSyncClient';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+// The server in these tests runs 5s ahead of the local clock
+const SERVER_OFFSET_MS = 5000;
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  sent: any[] = [];
+  answered = new Set<number>();
+  closed = false;
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  close() {
+    this.closed = true;
+  }
+  /** Answers the next unanswered PING after `outboundMs` / `inboundMs` of network time each way. */
+  answer(outboundMs: number, inboundMs: number) {
+    if (this.answered.has(this.sent.length)) vi.advanceTimersToNextTimer();
+    const ping = this.sent[this.sent.length - 1];
+    this.answered.add(this.sent.length);
+    vi.advanceTimersByTime(outboundMs);
+    const t1 = performance.timeOrigin + performance.now() + SERVER_OFFSET_MS;
+    const t2 = t1 + 1;
+    vi.advanceTimersByTime(1 + inboundMs);
+    this.onmessage?.({ data: JSON.stringify({ type: 'PONG', id: ping.id, t0: ping.t0, t1, t2 }) } as MessageEvent);
+  }
+}
+
+describe('ClockSyncClient', () => {
+  const connect = (options = {}) => {
+    const client = new ClockSyncClient({ url: 'ws://time.test', WebSocket: FakeWebSocket as any, ...options });
+    client.connect();
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    socket.onopen?.();
+    return { client, socket };
+  };
+
+  beforeEach(() => {
+    installFakeClock();
+    FakeWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('computes offset and round trip from the four timestamps', () => {
+    // 40ms each way, 10ms on the server, server 500ms ahead
+    expect(computeClockSyncSample(1000, 1540, 1550, 1090)).toEqual({ offsetMs: 500, roundTripMs: 80, receivedAt: 1090 });
+  });
+
+  it('prefers the sample with the shortest round trip', () => {
+    const fast = { offsetMs: 10, roundTripMs: 5, receivedAt: 0 };
+    const slow = { offsetMs: 90, roundTripMs: 200, receivedAt: 0 };
+    expect(selectBestSample([slow, fast, slow])).toBe(fast);
+    expect(selectBestSample([])).toBeNull();
+  });
+
+  it('pings on open and estimates the server offset', () => {
+    const { client, socket } = connect();
+    expect(socket.url).toBe('ws://time.test');
+    expect(socket.sent[0]).toMatchObject({ type: 'PING', id: 1 });
+    expect(client.isSynced).toBe(false);
+
+    socket.answer(20, 20);
+    expect(client.getEstimate()).toEqual({ offsetMs: SERVER_OFFSET_MS, roundTripMs: 40, sampleCount: 1 });
+    const local = performance.timeOrigin + performance.now();
+    expect(client.now()).toBeCloseTo(local + SERVER_OFFSET_MS, 6);
+    expect(client.toLocalTime(client.toServerTime(local))).toBeCloseTo(local, 6);
+  });
+
+  it('keeps the low-delay estimate when a congested sample arrives', () => {
+    const { client, socket } = connect();
+    socket.answer(10, 10);
+    // Asymmetric congestion skews that sample's offset by 90ms
+    socket.answer(10, 190);
+    expect(client.getEstimate()).toMatchObject({ offsetMs: SERVER_OFFSET_MS, roundTripMs: 20, sampleCount: 2 });
+  });
+
+  it('discards samples above maxRoundTripMs and ages old samples out of the window', () => {
+    const { client, socket } = connect({ samples: 2, maxRoundTripMs: 300 });
+    socket.answer(200, 200);
+    expect(client.isSynced).toBe(false);
+
+    socket.answer(5, 5); // best, but will age out
+    socket.answer(30, 10);
+    socket.answer(20, 20);
+    // Both remaining samples take 40ms; the first of them wins, its offset off by 10ms
+    expect(client.getEstimate()).toMatchObject({ offsetMs: SERVER_OFFSET_MS + 10, roundTripMs: 40, sampleCount: 2 });
+  });
+
+  it('notifies subscribers when the estimate changes', () => {
+    const { client, socket } = connect();
+    const listener = vi.fn();
+    const unsubscribe = client.subscribe(listener);
+    socket.answer(10, 10);
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    socket.answer(10, 10);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores messages that are not pongs', () => {
+    const { client, socket } = connect();
+    socket.onmessage?.({ data: 'not json' } as MessageEvent);
+    socket.onmessage?.({ data: JSON.stringify({ type: 'PONG', t0: 1 }) } as MessageEvent);
+    expect(client.isSynced).toBe(false);
+  });
+
+  it('only measures the first pong to a ping it sent', () => {
+    const { client, socket } = connect();
+    const ping = socket.sent[0];
+    const pong = (id: number, t0: number) =>
+      socket.onmessage?.({ data: JSON.stringify({ type: 'PONG', id, t0, t1: t0 + SERVER_OFFSET_MS, t2: t0 + SERVER_OFFSET_MS }) } as MessageEvent);
+
+    pong(ping.id + 1, ping.t0);
+    pong(ping.id, ping.t0 - 1);
+    expect(client.isSynced).toBe(false);
+
+    pong(ping.id, ping.t0);
+    expect(client.getEstimate()?.sampleCount).toBe(1);
+    pong(ping.id, ping.t0);
+    expect(client.getEstimate()?.sampleCount).toBe(1);
+  });
+
+  it('reconnects after the socket drops, keeping the estimate, until disconnected', () => {
+    const { client, socket } = connect({ reconnectMs: 2000 });
+    socket.answer(10, 10);
+    socket.onclose?.();
+    expect(client.isSynced).toBe(true);
+
+    vi.advanceTimersByTime(2000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    client.disconnect();
+    expect(FakeWebSocket.instances[1].closed).toBe(true);
+    FakeWebSocket.instances[1].onclose?.();
+    vi.advanceTimersByTime(10_000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
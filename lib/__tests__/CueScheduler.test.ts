@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { CueScheduler } from '../CueScheduler';
+import { useCueScheduler } from '../useCueScheduler';
+import { createClockStore } from '../clockStore';
+import { MatchClockEngine } from '../MatchClockEngine';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+const statusOf = (scheduler: CueScheduler, id: string) =>
+  scheduler.getSnapshot().find(state => state.cue.id === id)?.status;
+
+describe('CueScheduler', () => {
+  beforeEach(() => {
+    installFakeClock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires once when the running clock reaches the cue', () => {
+    const store = createClockStore();
+    const onFire = vi.fn();
+    const scheduler = new CueScheduler(store, { cues: [{ id: 'a', atSeconds: 10, onFire }] });
+    scheduler.attach();
+
+    store.start();
+    vi.advanceTimersByTime(9999);
+    expect(onFire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(onFire.mock.calls[0][0]).toMatchObject({ reason: 'reached' });
+
+    vi.advanceTimersByTime(30_000);
+    store.pause();
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(statusOf(scheduler, 'a')).toBe('fired');
+  });
+
+  it('pauses on the cue, even when the main thread notices late', () => {
+    const store = createClockStore();
+    const scheduler = new CueScheduler(store, { cues: [{ id: 'ht', atSeconds: 45, action: { type: 'pause' } }] });
+    scheduler.attach();
+    store.start();
+
+    scheduler.detach(); // Stands in for a blocked main thread
+    vi.advanceTimersByTime(45_400);
+    scheduler.attach();
+
+    expect(store.getAnchor()).toMatchObject({ isRunning: false, totalMs: 45_000 });
+  });
+
+  it('stamps every clock action with the moment its cue was due', () => {
+    const store = createClockStore();
+    const scheduler = new CueScheduler(store, {
+      cues: [
+        { id: 'nudge', atSeconds: 10, action: { type: 'adjustTime', deltaSeconds: 60 } },
+        { id: 'hold', atSeconds: 80, action: { type: 'pause' } },
+      ]
+    });
+    scheduler.attach();
+    store.start();
+    const startedAt = store.getAnchor().capturedAt;
+    const issued: Array<number | undefined> = [];
+    store.subscribeCommands((_command, _previous, issuedAt) => issued.push(issuedAt));
+
+    scheduler.detach();
+    vi.advanceTimersByTime(10_200);
+    scheduler.attach();
+    vi.advanceTimersByTime(10_000);
+
+    // 10s in, the nudge jumps to 70s: the pause at 80s is due 10s later
+    expect(issued).toEqual([startedAt + 10_000, startedAt + 20_000]);
+  });
+
+  it('catches up on cues a jump goes past, or skips them', () => {
+    const store = createClockStore();
+    const caughtUp = vi.fn();
+    const skipped = vi.fn();
+    const scheduler = new CueScheduler(store, {
+      cues: [
+        { id: 'graphic', atSeconds: 60, onFire: caughtUp },
+        { id: 'sting', atSeconds: 70, onFire: skipped, onJump: 'skip' }
+      ]
+    });
+    scheduler.attach();
+
+    store.setTime(90);
+    expect(caughtUp).toHaveBeenCalledWith(expect.objectContaining({ reason: 'caught-up' }));
+    expect(skipped).not.toHaveBeenCalled();
+    expect(statusOf(scheduler, 'sting')).toBe('skipped');
+
+    store.adjustTime(60);
+    expect(caughtUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-arms cues after a rewind', () => {
+    const store = createClockStore();
+    const again = vi.fn();
+    const once = vi.fn();
+    const scheduler = new CueScheduler(store, {
+      cues: [
+        { id: 'again', atSeconds: 5, onFire: again },
+        { id: 'once', atSeconds: 6, onFire: once, rearm: false }
+      ]
+    });
+    scheduler.attach();
+    store.start();
+    vi.advanceTimersByTime(10_000);
+
+    store.adjustTime(-8);
+    expect(statusOf(scheduler, 'again')).toBe('armed');
+    vi.advanceTimersByTime(5000);
+    expect(again).toHaveBeenCalledTimes(2);
+    expect(once).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips cues registered behind the clock until it is rewound before them', () => {
+    const store = createClockStore({ initialSeconds: 50 * 60 });
+    const onFire = vi.fn();
+    const scheduler = new CueScheduler(store, { cues: [{ id: 'late', atSeconds: 10 * 60, onFire }] });
+    scheduler.attach();
+    expect(statusOf(scheduler, 'late')).toBe('skipped');
+
+    store.setTime(0);
+    store.setTime(20 * 60);
+    expect(onFire).toHaveBeenCalledTimes(1);
+  });
+
+  it('sounds the horn when a countdown expires, and treats start / pause as continuous', () => {
+    const store = createClockStore({ initialSeconds: 3, direction: 'down' });
+    const horn = vi.fn();
+    const scheduler = new CueScheduler(store, { cues: [{ id: 'horn', atSeconds: 0, onFire: horn, onJump: 'skip' }] });
+    scheduler.attach();
+
+    store.start();
+    vi.advanceTimersByTime(1000);
+    store.pause();
+    store.start();
+    vi.advanceTimersByTime(2000);
+    expect(horn).toHaveBeenCalledTimes(1);
+    expect(store.getAnchor().isExpired).toBe(true);
+  });
+
+  it('keeps the status of unchanged cues when the list is set again', () => {
+    const store = createClockStore();
+    const onFire = vi.fn();
+    const setStyle = vi.fn();
+    const cues = () => [
+      { id: 'red', atSeconds: 5, action: { type: 'style' as const, style: { textColor: 'red' } }, onFire }
+    ];
+    const scheduler = new CueScheduler(store, { cues: cues(), setStyle });
+    scheduler.attach();
+    store.setTime(6);
+
+    scheduler.setCues(cues());
+    expect(statusOf(scheduler, 'red')).toBe('fired');
+    expect(setStyle).toHaveBeenCalledTimes(1);
+    expect(setStyle).toHaveBeenCalledWith({ textColor: 'red' });
+  });
+
+  it('settles a chain of cue actions that move the clock', () => {
+    const store = createClockStore();
+    const scheduler = new CueScheduler(store, {
+      cues: [
+        { id: 'forward', atSeconds: 5, action: { type: 'setTime', seconds: 10 } },
+        { id: 'back', atSeconds: 10, action: { type: 'setTime', seconds: 4 } }
+      ]
+    });
+    scheduler.attach();
+
+    store.setTime(5);
+    expect(store.valueAt()).toBe(4000);
+    expect(scheduler.getSnapshot().map(state => state.status)).toEqual(['armed', 'armed']);
+  });
+
+  it('follows a MatchClockEngine without a store', () => {
+    const engine = new MatchClockEngine(0);
+    const caughtUp = vi.fn();
+    const scheduler = new CueScheduler(engine, {
+      cues: [
+        { id: 'ht', atSeconds: 45, action: { type: 'pause' } },
+        { id: 'board', atSeconds: 50, onFire: caughtUp }
+      ]
+    });
+    scheduler.attach();
+
+    engine.start();
+    vi.advanceTimersByTime(45_000);
+    expect(engine.getSnapshot()).toMatchObject({ isRunning: false, totalMs: 45_000 });
+
+    engine.adjustTime(10);
+    expect(caughtUp).toHaveBeenCalledTimes(1);
+    expect(caughtUp.mock.calls[0][0]).toMatchObject({ reason: 'caught-up' });
+    scheduler.detach();
+    engine.dispose();
+  });
+
+  it('binds to React with useCueScheduler', () => {
+    const store = createClockStore();
+    const { result, unmount } = renderHook(() =>
+      useCueScheduler(store, { cues: [{ id: 'a', atSeconds: 2 }] })
+    );
+    expect(result.current.cues[0].status).toBe('armed');
+
+    act(() => store.setTime(3));
+    expect(result.current.cues[0].status).toBe('fired');
+    unmount();
+  });
+});
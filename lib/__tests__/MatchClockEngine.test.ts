@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MatchClockEngine } from '../MatchClockEngine';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+const workers: MockEngineWorker[] = [];
+
+class MockEngineWorker {
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: Event) => void) | null = null;
+  onmessageerror: ((e: Event) => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+  constructor() {
+    workers.push(this);
+  }
+  tick() {
+    this.onmessage?.({ data: { type: 'TICK' } } as MessageEvent);
+  }
+}
+
+describe('MatchClockEngine', () => {
+  beforeEach(() => {
+    installFakeClock();
+    workers.length = 0;
+    (window as any).Worker = MockEngineWorker;
+    window.URL.createObjectURL = vi.fn(() => 'blob:engine');
+    window.URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs its tick worker only while someone is subscribed', () => {
+    const engine = new MatchClockEngine(0);
+    expect(workers).toHaveLength(0);
+
+    const first = engine.subscribe(() => {});
+    const second = engine.subscribe(() => {});
+    expect(workers).toHaveLength(1);
+
+    first();
+    expect(workers[0].terminate).not.toHaveBeenCalled();
+    second();
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(window.URL.revokeObjectURL).toHaveBeenCalledWith('blob:engine');
+  });
+
+  it('notifies subscribers when the visible value changes', () => {
+    const engine = new MatchClockEngine(0);
+    const listener = vi.fn();
+    engine.subscribe(listener);
+
+    engine.start();
+    expect(workers[0].postMessage).toHaveBeenCalledWith({ type: 'START', payload: { intervalMs: 50 } });
+    listener.mockClear();
+
+    vi.advanceTimersByTime(10);
+    workers[0].tick(); // Same frame: nothing to re-render
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    workers[0].tick();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(engine.getSnapshot()).toMatchObject({ displayTime: '00:00:01', isRunning: true });
+  });
+
+  it('has bound actions, usable as plain callbacks', () => {
+    const engine = new MatchClockEngine(0);
+    const { setTime, setTimecode } = engine;
+    setTime(90);
+    expect(engine.getSnapshot().totalSeconds).toBe(90);
+    expect(setTimecode('00:01:00:00')).toBe(true);
+    expect(engine.getSnapshot().displayTime).toBe('00:01:00');
+  });
+
+  it('applies option changes seamlessly', () => {
+    const engine = new MatchClockEngine(100);
+    engine.subscribe(() => {});
+    engine.start();
+    vi.advanceTimersByTime(10_000);
+
+    engine.setOptions({ direction: 'down', precision: 'tenths' });
+    expect(engine.getSnapshot()).toMatchObject({ totalMs: 110_000, displayTime: '00:01:50.0' });
+    vi.advanceTimersByTime(500);
+    workers[0].tick();
+    expect(engine.getSnapshot().totalMs).toBe(109_500);
+  });
+
+  it('calls the latest onExpired once', () => {
+    const first = vi.fn();
+    const latest = vi.fn();
+    const engine = new MatchClockEngine(1, { direction: 'down', onExpired: first });
+    engine.subscribe(() => {});
+    engine.setOptions({ direction: 'down', onExpired: latest });
+
+    engine.start();
+    vi.advanceTimersByTime(1500);
+    workers[0].tick();
+    workers[0].tick();
+    expect(engine.getSnapshot()).toMatchObject({ isExpired: true, isRunning: false, totalSeconds: 0 });
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops ticking and forgets subscribers on dispose', () => {
+    const engine = new MatchClockEngine(0);
+    const listener = vi.fn();
+    engine.subscribe(listener);
+    engine.dispose();
+    expect(workers[0].terminate).toHaveBeenCalled();
+
+    engine.setTime(30);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('adjusts, undoes and redoes on its own time model', () => {
+    const engine = new MatchClockEngine(100);
+    engine.subscribe(() => {});
+    engine.start();
+    engine.adjustTime(-60);
+    expect(engine.getSnapshot()).toMatchObject({ totalSeconds: 40, canUndo: true, canRedo: false });
+
+    vi.advanceTimersByTime(10_000);
+    expect(engine.undo()).toMatchObject({ command: 'ADJUST_TIME', deltaMs: -60_000 });
+    expect(engine.getSnapshot()).toMatchObject({ totalSeconds: 110, canUndo: false, canRedo: true });
+    engine.redo();
+    expect(engine.getSnapshot().totalSeconds).toBe(50);
+  });
+
+  it('marks events at the clock value of the click', () => {
+    const engine = new MatchClockEngine(0);
+    const listener = vi.fn();
+    engine.subscribe(listener);
+    engine.setPeriod('FIRST_HALF');
+    engine.start();
+    vi.advanceTimersByTime(67_000);
+    const clickedAt = performance.now();
+    vi.advanceTimersByTime(400); // The handler ran late
+
+    const goal = engine.mark('Smith', 'goal', clickedAt);
+    expect(goal).toMatchObject({ label: 'Smith', category: 'goal', matchMs: 67_000, period: 'FIRST_HALF' });
+    expect(goal.wallClockMs).toBe(Date.now() - 400);
+    expect(engine.getSnapshot().markers).toEqual([goal]);
+
+    listener.mockClear();
+    engine.removeMarker(goal.id);
+    expect(engine.getSnapshot().markers).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
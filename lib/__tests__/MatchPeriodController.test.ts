@@ -0,0 +1,120 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MatchPeriodController, PeriodClockTarget } from '../MatchPeriodController';
+
+describe('MatchPeriodController', () => {
+  let target: { [K in keyof PeriodClockTarget]-?: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    target = {
+      start: vi.fn(),
+      pause: vi.fn(),
+      setTime: vi.fn(),
+      setPeriod: vi.fn(),
+      setStoppageBoundary: vi.fn(),
+      clearAddedTime: vi.fn(),
+    };
+  });
+
+  it('kicks off from PRE_MATCH and runs the clock from the period offset', () => {
+    const controller = new MatchPeriodController(() => [target]);
+    expect(controller.currentPeriod).toBe('PRE_MATCH');
+
+    expect(controller.kickOff()).toBe(true);
+    expect(controller.currentPeriod).toBe('FIRST_HALF');
+    expect(target.setPeriod).toHaveBeenCalledWith('FIRST_HALF');
+    expect(target.setTime).toHaveBeenLastCalledWith(0);
+    expect(target.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds breaks at the regulation end of the previous period', () => {
+    const controller = new MatchPeriodController(() => [target]);
+    controller.kickOff();
+    controller.endPeriod();
+
+    expect(controller.currentPeriod).toBe('HALF_TIME');
+    expect(target.pause).toHaveBeenCalledTimes(1);
+    expect(target.setTime).toHaveBeenLastCalledWith(45 * 60);
+
+    controller.startNextPeriod();
+    expect(controller.currentPeriod).toBe('SECOND_HALF');
+    expect(target.setTime).toHaveBeenLastCalledWith(45 * 60);
+    expect(target.start).toHaveBeenCalledTimes(2);
+  });
+
+  it('holds at the end of the period it was created in', () => {
+    const controller = new MatchPeriodController(() => [target], { initialPeriod: 'SECOND_HALF' });
+    controller.endPeriod();
+
+    expect(controller.currentPeriod).toBe('FULL_TIME');
+    expect(target.setTime).toHaveBeenLastCalledWith(90 * 60);
+  });
+
+  it('rejects illegal transitions without touching the clock', () => {
+    const controller = new MatchPeriodController(() => [target]);
+    expect(controller.transitionTo('SECOND_HALF')).toBe(false);
+    expect(controller.endPeriod()).toBe(false);
+    expect(controller.startShootout()).toBe(false);
+    expect(controller.currentPeriod).toBe('PRE_MATCH');
+    expect(target.setTime).not.toHaveBeenCalled();
+  });
+
+  it('goes through extra time into a shootout', () => {
+    const onPeriodChange = vi.fn();
+    const controller = new MatchPeriodController(() => [target], {
+      initialPeriod: 'FULL_TIME',
+      onPeriodChange,
+    });
+    expect(controller.getNextPeriods()).toEqual(['EXTRA_TIME_FIRST_HALF', 'PENALTIES']);
+
+    controller.startNextPeriod();
+    expect(target.setTime).toHaveBeenLastCalledWith(90 * 60);
+    controller.endPeriod();
+    controller.startNextPeriod();
+    expect(target.setTime).toHaveBeenLastCalledWith(105 * 60);
+    controller.endPeriod();
+    expect(controller.currentPeriod).toBe('END_OF_EXTRA_TIME');
+    expect(target.setTime).toHaveBeenLastCalledWith(120 * 60);
+
+    expect(controller.startShootout()).toBe(true);
+    expect(controller.getDefinition().label).toBe('PENS');
+    expect(controller.getNextPeriods()).toEqual([]);
+    expect(onPeriodChange).toHaveBeenLastCalledWith('PENALTIES', 'END_OF_EXTRA_TIME');
+  });
+
+  it('supports custom period lengths and offsets', () => {
+    const controller = new MatchPeriodController(() => [target], {
+      periods: {
+        FIRST_HALF: { lengthSeconds: 35 * 60 },
+        SECOND_HALF: { startOffsetSeconds: 35 * 60, lengthSeconds: 35 * 60 },
+      },
+    });
+    controller.kickOff();
+    expect(controller.getPeriodEndSeconds()).toBe(35 * 60);
+    controller.endPeriod();
+    expect(target.setTime).toHaveBeenLastCalledWith(35 * 60);
+    expect(controller.getDefinition('FIRST_HALF').label).toBe('1ST HALF');
+  });
+
+  it('skips targets that are not mounted yet and notifies subscribers', () => {
+    const listener = vi.fn();
+    const controller = new MatchPeriodController(() => [null, target]);
+    controller.subscribe(listener);
+    controller.kickOff();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(target.start).toHaveBeenCalled();
+  });
+
+  it('sets the stoppage boundary for playing periods and clears it for breaks', () => {
+    const controller = new MatchPeriodController(() => [target]);
+    controller.kickOff();
+    expect(target.setStoppageBoundary).toHaveBeenLastCalledWith(45 * 60);
+    expect(target.clearAddedTime).toHaveBeenCalledTimes(1);
+
+    controller.endPeriod();
+    expect(target.setStoppageBoundary).toHaveBeenLastCalledWith(null);
+    expect(target.clearAddedTime).toHaveBeenCalledTimes(2);
+
+    controller.startNextPeriod();
+    expect(target.setStoppageBoundary).toHaveBeenLastCalledWith(90 * 60);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MissionClockEngine } from '../MissionClockEngine';
+import { MockKernelWorker, installMockKernelWorker } from '../../test/clockTestUtils';
+
+describe('MissionClockEngine', () => {
+  let workers: MockKernelWorker[];
+
+  beforeEach(() => {
+    workers = installMockKernelWorker();
+  });
+
+  it('mounts the kernel into a plain element', () => {
+    const engine = new MissionClockEngine({ initialSeconds: 90, config: { textColor: '#fff' } });
+    const container = document.createElement('div');
+    engine.attach(container);
+
+    expect(container.dataset.backend).toBe('worker');
+    expect(container.querySelector('canvas')).not.toBeNull();
+    expect(workers[0].posted('INIT')[0].payload).toMatchObject({
+      initialSeconds: 90,
+      config: expect.objectContaining({ textColor: '#fff' })
+    });
+    expect(engine.handle.getBackend()).toBe('worker');
+  });
+
+  it('queues handle calls until attached', () => {
+    const engine = new MissionClockEngine();
+    engine.handle.setTime(2700);
+    engine.attach(document.createElement('div'));
+    expect(workers[0].posted('SET_TIME')[0]).toMatchObject({ payload: { seconds: 2700 } });
+  });
+
+  it('stamps time changes with the input time', () => {
+    const engine = new MissionClockEngine();
+    engine.attach(document.createElement('div'));
+    const input = { timeStamp: performance.now() };
+
+    engine.handle.setTime(60, input);
+    engine.handle.adjustTime(-1, input);
+    expect(workers[0].posted('SET_TIME')[0].issuedAt).toBe(performance.timeOrigin + input.timeStamp);
+    expect(workers[0].posted('ADJUST_TIME')[0].issuedAt).toBe(performance.timeOrigin + input.timeStamp);
+  });
+
+  it('fails pending replies on detach and queues again until re-attached', async () => {
+    const engine = new MissionClockEngine();
+    const container = document.createElement('div');
+    engine.attach(container);
+    const state = engine.handle.getState();
+
+    engine.detach();
+    await expect(state).rejects.toThrow('MissionClock unmounted');
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(engine.handle.getBackend()).toBeNull();
+
+    engine.handle.start();
+    engine.attach(container);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].posted('START')).toHaveLength(1);
+  });
+
+  it('sends only style and timing that actually changed', () => {
+    const engine = new MissionClockEngine({ config: { showDot: false } });
+    engine.attach(document.createElement('div'));
+
+    engine.setOptions({ config: { showDot: false } });
+    expect(workers[0].posted('UPDATE_CONFIG')).toHaveLength(0);
+    engine.setOptions({ config: { showDot: true }, direction: 'down' });
+    expect(workers[0].posted('UPDATE_CONFIG')[0].payload).toMatchObject({ showDot: true });
+    expect(workers[0].posted('UPDATE_TIMING')[0].payload).toEqual({ direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' });
+  });
+
+  it('calls the latest callbacks', () => {
+    const first = vi.fn();
+    const latest = vi.fn();
+    const engine = new MissionClockEngine({ onExpired: first });
+    engine.attach(document.createElement('div'));
+    engine.setOptions({ onExpired: latest });
+
+    workers[0].reply({ type: 'EXPIRED', v: 1 });
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledTimes(1);
+  });
+});
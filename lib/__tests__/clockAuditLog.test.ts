@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  clockLogToCsv,
+  clockLogToJson,
+  createClockAuditLog,
+  parseClockLog,
+  replayClockLog
+} from '../clockAuditLog';
+import { createClockStore } from '../clockStore';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+const epochNow = () => performance.timeOrigin + performance.now();
+
+describe('clock audit log', () => {
+  beforeEach(() => {
+    installFakeClock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A short session: start, a late-delivered pause, a correction, a style change
+  const recordSession = () => {
+    const store = createClockStore({ initialSeconds: 10 });
+    const log = createClockAuditLog(store);
+    store.start();
+    vi.advanceTimersByTime(5000);
+    const clickedAt = epochNow();
+    vi.advanceTimersByTime(300);
+    store.dispatch({ type: 'PAUSE' }, clickedAt);
+    vi.advanceTimersByTime(2000);
+    store.adjustTime(-2);
+    log.record({ type: 'UPDATE_CONFIG', payload: { textColor: 'red' } });
+    vi.advanceTimersByTime(1000);
+    store.start();
+    vi.advanceTimersByTime(4000);
+    store.pause();
+    return { store, log };
+  };
+
+  it('opens with the clock state and records every command with its result', () => {
+    const { log } = recordSession();
+    const entries = log.getEntries();
+
+    expect(entries.map(entry => entry.command.type)).toEqual([
+      'UPDATE_TIMING', 'RESUME', 'START', 'PAUSE', 'ADJUST_TIME', 'UPDATE_CONFIG', 'START', 'PAUSE'
+    ]);
+    expect(entries[1].after).toEqual({ totalMs: 10_000, isRunning: false, isExpired: false });
+
+    const latePause = entries[3];
+    expect(latePause.inputLagMs).toBe(300);
+    expect(latePause.before).toMatchObject({ totalMs: 15_300, isRunning: true });
+    expect(latePause.after).toMatchObject({ totalMs: 15_000, isRunning: false });
+    expect(latePause.wallClockMs).toBe(Date.now() - 7000);
+    expect(entries[4].after.totalMs).toBe(13_000);
+  });
+
+  it('records no-op commands, in the order they were applied', () => {
+    const store = createClockStore();
+    const log = createClockAuditLog(store);
+    // A listener that dispatches, as a cue does
+    store.subscribe(() => {
+      if (store.getAnchor().isRunning) store.pause();
+    });
+    store.start();
+    store.pause();
+
+    expect(log.getEntries().slice(2).map(entry => [entry.command.type, entry.after.isRunning])).toEqual([
+      ['START', true], ['PAUSE', false], ['PAUSE', false]
+    ]);
+  });
+
+  it('drops the oldest entries beyond maxEntries, and stops recording when detached', () => {
+    const store = createClockStore();
+    const log = createClockAuditLog(store, { maxEntries: 3 });
+    store.setTime(1);
+    store.setTime(2);
+    expect(log.getEntries().map(entry => entry.seq)).toEqual([2, 3, 4]);
+
+    log.detach();
+    store.setTime(3);
+    expect(log.getEntries()).toHaveLength(3);
+  });
+
+  it('exports CSV and round-trips JSON', () => {
+    const { log } = recordSession();
+    const csv = clockLogToCsv(log.getEntries()).split('\r\n');
+    expect(csv[0]).toBe('seq,wall_clock,monotonic_ms,command,payload,input_lag_ms,before_ms,before_running,after_ms,after_running,after_expired');
+    expect(csv[6]).toContain(',UPDATE_CONFIG,"{""textColor"":""red""}",');
+    expect(csv).toHaveLength(9);
+
+    expect(parseClockLog(clockLogToJson(log.getEntries()))).toEqual(log.getEntries());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseClockLog('{"entries": [{}]}')).toBeNull();
+    const [entry] = log.getEntries();
+    expect(parseClockLog(JSON.stringify({ entries: [{ ...entry, after: { totalMs: 0 } }] }))).toBeNull();
+    expect(parseClockLog('not json')).toBeNull();
+  });
+
+  it('replays a session deterministically, accelerated', async () => {
+    const { store, log } = recordSession();
+    const fresh = createClockStore();
+    const applyConfig = vi.fn();
+
+    const { done } = replayClockLog(log.getEntries(), fresh, { speed: 10, applyConfig });
+    await vi.advanceTimersByTimeAsync(1250);
+    const report = await done;
+
+    expect(report).toEqual({ replayed: 8, divergences: [], cancelled: false });
+    expect(fresh.getAnchor()).toMatchObject({ totalMs: store.getAnchor().totalMs, isRunning: false });
+    expect(applyConfig).toHaveBeenCalledWith({ textColor: 'red' });
+  });
+
+  it('replays in real time, and can be cancelled', async () => {
+    const { log } = recordSession();
+    const fresh = createClockStore();
+    const onEntry = vi.fn();
+
+    const replay = replayClockLog(log.getEntries(), fresh, { onEntry });
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(onEntry).toHaveBeenCalledTimes(4);
+    expect(fresh.valueAt()).toBe(15_000);
+
+    replay.cancel();
+    expect(await replay.done).toEqual({ replayed: 4, divergences: [], cancelled: true });
+  });
+
+  it('reports every entry whose replayed result differs from the log, from the first divergence on', async () => {
+    const { log } = recordSession();
+    const entries = log.getEntries().map(entry =>
+      entry.command.type === 'ADJUST_TIME' ? { ...entry, command: { type: 'ADJUST_TIME' as const, payload: { deltaSeconds: -3 } } } : entry
+    );
+
+    const { done } = replayClockLog(entries, createClockStore(), { speed: Infinity });
+    await vi.runAllTimersAsync();
+    const { divergences } = await done;
+    expect(divergences).toEqual([
+      { seq: 5, expected: expect.objectContaining({ totalMs: 13_000 }), actual: expect.objectContaining({ totalMs: 12_000 }) },
+      { seq: 7, expected: expect.objectContaining({ totalMs: 13_000 }), actual: expect.objectContaining({ totalMs: 12_000 }) },
+      { seq: 8, expected: expect.objectContaining({ totalMs: 17_000 }), actual: expect.objectContaining({ totalMs: 16_000 }) }
+    ]);
+  });
+});
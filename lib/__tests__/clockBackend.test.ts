@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createDomTextSurface, detectClockBackend } from '../clockBackend';
+
+describe('detectClockBackend', () => {
+  it('prefers the worker when OffscreenCanvas transfer is available', () => {
+    expect(detectClockBackend()).toBe('worker');
+  });
+});
+
+describe('createDomTextSurface', () => {
+  it('writes the digits of each frame into the element', () => {
+    const element = document.createElement('div');
+    const ctx = createDomTextSurface(element).getContext('2d');
+
+    ctx.clearRect();
+    ctx.fillStyle = '#000000';
+    ctx.fillRect();
+    ctx.font = 'bold 40px monospace';
+    ctx.fillStyle = '#22c55e';
+    ctx.fillText('45:00');
+    ctx.fillText('+01:30');
+    expect(element.textContent).toBe('45:00 +01:30');
+    expect(element.style.color).toBe('rgb(34, 197, 94)');
+    expect(element.style.backgroundColor).toBe('rgb(0, 0, 0)');
+
+    // The next frame replaces the text
+    ctx.clearRect();
+    ctx.fillText('45:01');
+    expect(element.textContent).toBe('45:01');
+  });
+});
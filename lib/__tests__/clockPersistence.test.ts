@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PERSISTED_CLOCK_VERSION,
+  clearClockState,
+  loadClockState,
+  localStorageClockStorage,
+  msSinceSaved,
+  saveClockState,
+  toResumeFromSaved
+} from '../clockPersistence';
+
+describe('clock persistence', () => {
+  const options = { id: 'main-clock' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('saves with a wall-clock anchor and loads it back', () => {
+    saveClockState(options, { totalMs: 2700_000, isRunning: true, isExpired: false });
+    expect(loadClockState(options)).toEqual({
+      v: PERSISTED_CLOCK_VERSION,
+      totalMs: 2700_000,
+      isRunning: true,
+      isExpired: false,
+      savedAt: 1_700_000_000_000
+    });
+    expect(window.localStorage.getItem('dnm-clock:main-clock')).not.toBeNull();
+
+    vi.advanceTimersByTime(4000);
+    expect(msSinceSaved(loadClockState(options)!)).toBe(4000);
+  });
+
+  it('does nothing without options', () => {
+    saveClockState(undefined, { totalMs: 1000, isRunning: false, isExpired: false });
+    expect(window.localStorage.length).toBe(0);
+    expect(loadClockState(undefined)).toBeNull();
+  });
+
+  it('ignores corrupt or foreign entries', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    window.localStorage.setItem('dnm-clock:main-clock', '{not json');
+    expect(loadClockState(options)).toBeNull();
+    expect(console.error).toHaveBeenCalled();
+
+    window.localStorage.setItem('dnm-clock:main-clock', JSON.stringify({ v: 1, totalMs: null, savedAt: 0, isRunning: true, isExpired: false }));
+    expect(loadClockState(options)).toBeNull();
+  });
+
+  it('survives a storage that throws on write', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = { ...localStorageClockStorage, save: () => { throw new Error('QuotaExceededError'); } };
+    expect(() => saveClockState({ id: 'x', storage }, { totalMs: 0, isRunning: false, isExpired: false })).not.toThrow();
+  });
+
+  it('clears a saved clock', () => {
+    saveClockState(options, { totalMs: 1000, isRunning: false, isExpired: false });
+    clearClockState(options);
+    expect(loadClockState(options)).toBeNull();
+  });
+
+  it('converts a saved clock into a kernel resume state', () => {
+    saveClockState(options, { totalMs: 60_000, isRunning: true, isExpired: false, announcedMinutes: 4 });
+    vi.advanceTimersByTime(3000);
+    const resume = toResumeFromSaved(loadClockState(options)!);
+    expect(resume).toMatchObject({ totalMs: 60_000, isRunning: true, stoppageBoundarySeconds: null, announcedMinutes: 4 });
+    expect(performance.timeOrigin + performance.now() - resume.capturedAt).toBeCloseTo(3000, -1);
+  });
+});
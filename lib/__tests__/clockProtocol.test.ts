@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { CLOCK_PROTOCOL_VERSION, createClockCommandValidator, validateClockCommand } from '../clockProtocol';
+
+describe('validateClockCommand', () => {
+  it('accepts well-formed commands of the current version', () => {
+    expect(validateClockCommand({ type: 'START', v: 1, id: 1 })).toBeNull();
+    expect(validateClockCommand({ type: 'SET_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 2700 } })).toBeNull();
+    expect(validateClockCommand({ type: 'SET_STOPPAGE_BOUNDARY', v: 1, payload: { seconds: null } })).toBeNull();
+    expect(validateClockCommand({
+      type: 'UPDATE_TIMING',
+      v: 1,
+      payload: { direction: 'down', targetSeconds: 0, expiryBehaviour: 'overrun' }
+    })).toBeNull();
+  });
+
+  it('rejects non-finite numbers and missing payloads', () => {
+    expect(validateClockCommand({ type: 'SET_TIME', v: 1, payload: { seconds: NaN } })).toEqual({
+      code: 'INVALID_PAYLOAD',
+      message: 'SET_TIME: seconds must be a finite number'
+    });
+    expect(validateClockCommand({ type: 'ADJUST_TIME', v: 1 })?.code).toBe('INVALID_PAYLOAD');
+    expect(validateClockCommand({ type: 'RESIZE', v: 1, payload: { width: 10, height: 10, dpr: 0 } })?.code).toBe('INVALID_PAYLOAD');
+    expect(validateClockCommand({
+      type: 'UPDATE_TIMING',
+      v: 1,
+      payload: { direction: 'sideways', targetSeconds: 0, expiryBehaviour: 'stop' }
+    })?.code).toBe('INVALID_PAYLOAD');
+    expect(validateClockCommand({
+      type: 'INIT',
+      v: 1,
+      payload: { canvas: {}, config: {}, initialSeconds: 0, heartbeatMs: 0 }
+    })).toEqual({ code: 'INVALID_PAYLOAD', message: 'INIT: heartbeatMs must be a positive number' });
+  });
+
+  it('rejects unknown types and versions', () => {
+    expect(validateClockCommand(null)?.code).toBe('UNKNOWN_TYPE');
+    expect(validateClockCommand({ type: 'REBOOT', v: 1 })?.code).toBe('UNKNOWN_TYPE');
+    expect(validateClockCommand({ type: 'START', v: 0 })?.code).toBe('UNSUPPORTED_VERSION');
+    // A sender on the unversioned protocol is told apart, not taken for the current one
+    expect(validateClockCommand({ type: 'START' })).toEqual({
+      code: 'UNSUPPORTED_VERSION',
+      message: 'expected protocol v' + CLOCK_PROTOCOL_VERSION + ', got an unversioned message'
+    });
+  });
+
+  it('is self-contained so it can be embedded into the worker script', () => {
+    const embedded = new Function(`return (${createClockCommandValidator.toString()})(1);`)();
+    expect(embedded.validate({ type: 'PAUSE', v: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { anchorToResume, anchorValueAt, createClockStore } from '../clockStore';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+const epochNow = () => performance.timeOrigin + performance.now();
+
+describe('createClockStore', () => {
+  beforeEach(() => {
+    installFakeClock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts from the anchor and notifies subscribers once per change', () => {
+    const store = createClockStore({ initialSeconds: 10 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.start();
+    vi.advanceTimersByTime(2500);
+    expect(store.valueAt()).toBe(12_500);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.pause();
+    vi.advanceTimersByTime(1000);
+    expect(store.getAnchor()).toMatchObject({ totalMs: 12_500, isRunning: false, revision: 2 });
+    expect(store.valueAt()).toBe(12_500);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('produces a new anchor per command and leaves no-op commands alone', () => {
+    const store = createClockStore();
+    const first = store.getAnchor();
+    store.pause(); // Already paused
+    expect(store.getAnchor()).toBe(first);
+
+    store.setTime(300);
+    expect(store.getAnchor()).not.toBe(first);
+    expect(first.totalMs).toBe(0);
+    expect(anchorValueAt(store.getAnchor(), epochNow())).toBe(300_000);
+  });
+
+  it('applies a stamped command at the input, within the compensation window', () => {
+    const store = createClockStore({ maxInputCompensationMs: 500 });
+    const clickedAt = epochNow();
+    vi.advanceTimersByTime(200);
+    store.dispatch({ type: 'START' }, clickedAt);
+    expect(store.getAnchor().capturedAt).toBe(clickedAt);
+    expect(store.valueAt()).toBe(200);
+
+    vi.advanceTimersByTime(2000);
+    // Stamped 2s ago: only the last 500ms are given back
+    store.dispatch({ type: 'PAUSE' }, clickedAt);
+    expect(store.getAnchor().totalMs).toBe(1700);
+  });
+
+  it('stamps every operator action with its input time', () => {
+    const store = createClockStore();
+    const issued: Array<number | undefined> = [];
+    store.subscribeCommands((_command, _previous, issuedAt) => issued.push(issuedAt));
+    const input = { timeStamp: performance.now() };
+    vi.advanceTimersByTime(100);
+
+    store.start(input);
+    store.setTime(60, input);
+    store.adjustTime(5, input);
+    store.pause(input);
+    expect(issued).toEqual(Array(4).fill(performance.timeOrigin + input.timeStamp));
+  });
+
+  it('freezes a countdown at the exact moment it expires, once', () => {
+    const onExpired = vi.fn();
+    const store = createClockStore({ initialSeconds: 3, direction: 'down', onExpired });
+    store.start();
+    const startedAt = store.getAnchor().capturedAt;
+
+    vi.advanceTimersByTime(5000);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(store.getAnchor()).toMatchObject({ totalMs: 0, isRunning: false, isExpired: true, capturedAt: startedAt + 3000 });
+
+    store.start(); // Sitting on the target
+    expect(store.getAnchor().isRunning).toBe(false);
+    store.setTime(60);
+    expect(store.getAnchor().isExpired).toBe(false);
+  });
+
+  it('settles a due expiry before the next command', () => {
+    const store = createClockStore({ initialSeconds: 1, direction: 'down' });
+    store.start();
+    store.dispose(); // No timer: only the next command can notice
+    vi.advanceTimersByTime(3000);
+
+    store.pause();
+    expect(store.getAnchor()).toMatchObject({ totalMs: 0, isExpired: true, isRunning: false });
+  });
+
+  it('keeps counting past an overrun target', () => {
+    const store = createClockStore({ initialSeconds: 1, direction: 'down', expiryBehaviour: 'overrun' });
+    store.start();
+    vi.advanceTimersByTime(1500);
+    expect(store.getAnchor()).toMatchObject({ isRunning: true, isExpired: true });
+    expect(store.valueAt()).toBe(-500);
+  });
+
+  it('re-anchors seamlessly on a timing change', () => {
+    const store = createClockStore({ initialSeconds: 90 });
+    store.start();
+    vi.advanceTimersByTime(10_000);
+    store.setTiming({ direction: 'down' });
+    expect(store.getAnchor().timing).toEqual({ direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' });
+    expect(store.valueAt()).toBe(100_000);
+    vi.advanceTimersByTime(1000);
+    expect(store.valueAt()).toBe(99_000);
+  });
+
+  it('keeps the boards in the anchor', () => {
+    const store = createClockStore();
+    store.setStoppageBoundary(2700);
+    store.announceAddedTime(45);
+    expect(anchorToResume(store.getAnchor())).toMatchObject({ stoppageBoundarySeconds: 2700, announcedMinutes: 30 });
+    store.clearAddedTime();
+    expect(store.getAnchor().announcedMinutes).toBe(0);
+  });
+
+  it('rejects invalid commands and ignores renderer-only ones', () => {
+    const store = createClockStore();
+    const anchor = store.getAnchor();
+    expect(store.dispatch({ type: 'SET_TIME', payload: { seconds: NaN } })).toMatchObject({ code: 'INVALID_PAYLOAD' });
+    expect(store.dispatch({ type: 'UPDATE_CONFIG', payload: { fontSize: 20 } } as any)).toBeNull();
+    expect(store.getAnchor()).toBe(anchor);
+  });
+
+  it('undoes a jump without losing the time that has run since', () => {
+    const store = createClockStore({ initialSeconds: 600 });
+    store.start();
+    store.adjustTime(-3600); // Meant -1m
+    vi.advanceTimersByTime(30_000);
+
+    expect(store.undo()).toMatchObject({ command: 'ADJUST_TIME', deltaMs: -3_600_000 });
+    expect(store.valueAt()).toBe(630_000);
+    expect(store.getHistory()).toMatchObject({ canUndo: false, canRedo: true });
+
+    store.redo();
+    expect(store.valueAt()).toBe(630_000 - 3_600_000);
+    store.undo();
+
+    // A set time is undone by the offset it caused, not back to the old value
+    store.setTime(0);
+    vi.advanceTimersByTime(5000);
+    store.undo();
+    expect(store.valueAt()).toBe(635_000);
+    expect(store.undo()).toBeNull();
+  });
+
+  it('clears the redo stack on a new change and ignores changes that do not move the clock', () => {
+    const store = createClockStore();
+    store.setTime(60);
+    store.undo();
+    store.setTime(0); // Already 0
+    expect(store.getHistory().canRedo).toBe(true);
+    store.adjustTime(5);
+    expect(store.getHistory()).toMatchObject({ canUndo: true, canRedo: false });
+    expect(store.getHistory().undoStack).toHaveLength(1);
+  });
+});
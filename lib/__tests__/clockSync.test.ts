@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createClockSync, isOnTimeline, resumeValueAt } from '../clockSync';
+
+// In-memory BroadcastChannel: delivers to every other open channel with the same name
+class FakeBroadcastChannel {
+  static open: FakeBroadcastChannel[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  // A crashed tab neither sends nor receives, and never says BYE
+  crashed = false;
+  constructor(public name: string) {
+    FakeBroadcastChannel.open.push(this);
+  }
+  postMessage(data: unknown) {
+    if (this.crashed) return;
+    FakeBroadcastChannel.open
+      .filter(other => other !== this && other.name === this.name && !other.crashed)
+      .forEach(other => other.onmessage?.({ data: structuredClone(data) } as MessageEvent));
+  }
+  close() {
+    FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(other => other !== this);
+  }
+}
+
+const running = { totalMs: 60_000, isRunning: true, capturedAt: 1000, stoppageBoundarySeconds: null, announcedMinutes: 0 };
+
+describe('createClockSync', () => {
+  const join = () => {
+    const callbacks = {
+      getState: vi.fn(() => running),
+      onRemoteCommand: vi.fn(),
+      onLeaderState: vi.fn(),
+      onRoleChange: vi.fn(),
+    };
+    const sync = createClockSync({ channel: 'main' }, callbacks)!;
+    // Join order is by wall clock
+    vi.advanceTimersByTime(10);
+    return { sync, callbacks };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date', 'performance'] });
+    FakeBroadcastChannel.open = [];
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('makes the oldest instance the leader', () => {
+    const a = join();
+    const b = join();
+    expect(a.sync.getRole()).toBe('leader');
+    expect(b.sync.getRole()).toBe('follower');
+    expect(b.callbacks.onRoleChange).toHaveBeenCalledWith('follower');
+    // The leader answered the newcomer's HELLO with its timeline
+    expect(b.callbacks.onLeaderState).toHaveBeenCalledWith(running);
+  });
+
+  it('forwards follower commands to the leader only', () => {
+    const a = join();
+    const b = join();
+    const c = join();
+    expect(a.sync.forward({ type: 'START' })).toBe(false);
+    expect(c.sync.forward({ type: 'ADJUST_TIME', payload: { deltaSeconds: 1 } }, 1234)).toBe(true);
+    // With the input time, so the leader applies it when it was issued
+    expect(a.callbacks.onRemoteCommand).toHaveBeenCalledWith({ type: 'ADJUST_TIME', payload: { deltaSeconds: 1 } }, 1234);
+    expect(b.callbacks.onRemoteCommand).not.toHaveBeenCalled();
+  });
+
+  it('publishes the leader timeline on change and every heartbeat', () => {
+    const a = join();
+    const b = join();
+    b.callbacks.onLeaderState.mockClear();
+    a.sync.publish();
+    b.sync.publish(); // followers have nothing to publish
+    expect(b.callbacks.onLeaderState).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(500);
+    expect(b.callbacks.onLeaderState).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails over when the leader closes', () => {
+    const a = join();
+    const b = join();
+    const c = join();
+    a.sync.close();
+    expect(b.sync.getRole()).toBe('leader');
+    expect(b.callbacks.onRoleChange).toHaveBeenLastCalledWith('leader');
+    expect(c.sync.getRole()).toBe('follower');
+  });
+
+  it('fails over when the leader goes silent', () => {
+    join();
+    const b = join();
+    FakeBroadcastChannel.open[0].crashed = true;
+
+    vi.advanceTimersByTime(1500);
+    expect(b.sync.getRole()).toBe('follower');
+    vi.advanceTimersByTime(1000);
+    expect(b.sync.getRole()).toBe('leader');
+  });
+});
+
+describe('timeline helpers', () => {
+  it('extrapolates running timelines in the counting direction', () => {
+    expect(resumeValueAt(running, 1500, 'up')).toBe(60_500);
+    expect(resumeValueAt(running, 1500, 'down')).toBe(59_500);
+    expect(resumeValueAt({ ...running, isRunning: false }, 9000, 'up')).toBe(60_000);
+  });
+
+  it('tolerates a few ms of drift but not a different state', () => {
+    const later = { ...running, totalMs: 60_505, capturedAt: 1500 };
+    expect(isOnTimeline(later, running, 'up', 2000)).toBe(true);
+    expect(isOnTimeline({ ...later, totalMs: 61_000 }, running, 'up', 2000)).toBe(false);
+    expect(isOnTimeline({ ...later, announcedMinutes: 2 }, running, 'up', 2000)).toBe(false);
+  });
+});
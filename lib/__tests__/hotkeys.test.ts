@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_HOTKEY_BINDINGS, HotkeyBindings, HotkeyStorage, createHotkeyLayer } from '../hotkeys';
+import { createClockStore } from '../clockStore';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+// A key as the browser delivers it, stamped when it was pressed
+const press = (code: string, init: KeyboardEventInit & { timeStamp?: number } = {}, target: EventTarget = window) => {
+  const event = new KeyboardEvent('keydown', { code, bubbles: true, cancelable: true, ...init });
+  if (init.timeStamp !== undefined) Object.defineProperty(event, 'timeStamp', { value: init.timeStamp });
+  target.dispatchEvent(event);
+  return event;
+};
+
+const memoryStorage = (initial: Partial<HotkeyBindings> | null = null) => {
+  let saved = initial;
+  const storage: HotkeyStorage = {
+    load: () => saved,
+    save: (bindings) => { saved = bindings; },
+  };
+  return { storage, saved: () => saved };
+};
+
+describe('hotkeys', () => {
+  const layers: Array<{ detach: () => void }> = [];
+
+  beforeEach(() => {
+    installFakeClock();
+  });
+
+  afterEach(() => {
+    layers.splice(0).forEach(layer => layer.detach());
+    vi.useRealTimers();
+  });
+
+  const storeLayer = (storage: HotkeyStorage | null = null) => {
+    const store = createClockStore();
+    const hotkeys = createHotkeyLayer(() => ({
+      startPause: (input) => (store.getAnchor().isRunning ? store.pause(input) : store.start(input)),
+      reset: (input) => store.setTime(0, input),
+      secondForward: (input) => store.adjustTime(1, input),
+      minuteForward: (input) => store.adjustTime(60, input),
+    }), { storage });
+    hotkeys.attach();
+    layers.push(hotkeys);
+    return { store, hotkeys };
+  };
+
+  it('runs the bound commands, and leaves other keys and text fields alone', () => {
+    const { store, hotkeys } = storeLayer();
+    expect(press('Space').defaultPrevented).toBe(true);
+    expect(store.getAnchor().isRunning).toBe(true);
+
+    expect(press('KeyR').defaultPrevented).toBe(false);
+    const input = document.body.appendChild(document.createElement('input'));
+    press('ArrowUp', {}, input);
+    expect(store.valueAt()).toBe(0);
+
+    hotkeys.detach();
+    press('Space');
+    expect(store.getAnchor().isRunning).toBe(true);
+    input.remove();
+  });
+
+  it('repeats the small nudges only', () => {
+    const { store } = storeLayer();
+    press('ArrowUp');
+    press('ArrowUp', { repeat: true });
+    expect(store.valueAt()).toBe(120_000);
+
+    press('Space');
+    press('Space', { repeat: true });
+    press('Space', { repeat: true });
+    expect(store.getAnchor().isRunning).toBe(true);
+  });
+
+  it('applies keys queued behind a blocked main thread at their own timestamps, in order', () => {
+    const { store } = storeLayer();
+    const pressedAt = performance.now();
+    vi.advanceTimersByTime(300); // The thread was busy: both keys arrive now
+    press('Space', { timeStamp: pressedAt });
+    press('Space', { timeStamp: pressedAt + 200 });
+
+    expect(store.getAnchor()).toMatchObject({ isRunning: false, totalMs: 200 });
+
+    // Nudges carry their key press too (e.g. into the audit log)
+    const issued: Array<number | undefined> = [];
+    store.subscribeCommands((_command, _previous, issuedAt) => issued.push(issuedAt));
+    press('ArrowUp', { timeStamp: pressedAt + 250 });
+    expect(issued).toEqual([performance.timeOrigin + pressedAt + 250]);
+  });
+
+  it('remaps keys by capture and saves the bindings', () => {
+    const { storage, saved } = memoryStorage();
+    const { store, hotkeys } = storeLayer(storage);
+
+    hotkeys.capture('startPause');
+    press('ArrowUp', { shiftKey: true }); // Bound, so the next key goes to the capture
+    expect(hotkeys.getState()).toMatchObject({ capturing: null, bindings: { startPause: 'Shift+ArrowUp', hourForward: null } });
+    expect(store.valueAt()).toBe(0);
+    expect(saved()).toEqual(hotkeys.getState().bindings);
+
+    press('Space');
+    expect(store.getAnchor().isRunning).toBe(false);
+    press('ArrowUp', { shiftKey: true });
+    expect(store.getAnchor().isRunning).toBe(true);
+
+    // A new layer (a reload) starts with the saved bindings
+    expect(createHotkeyLayer(() => ({}), { storage }).getState().bindings.startPause).toBe('Shift+ArrowUp');
+  });
+
+  it('ignores unreadable storage, and keeps the operator\'s keys over newer defaults', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: HotkeyStorage = { load: () => { throw new Error('quota'); }, save: () => {} };
+    expect(createHotkeyLayer(() => ({}), { storage: broken }).getState().bindings).toEqual(DEFAULT_HOTKEY_BINDINGS);
+
+    // Saved before `redo` existed, with its default key taken
+    const { storage } = memoryStorage({ startPause: 'Space', undo: 'Ctrl+Shift+KeyZ' });
+    expect(createHotkeyLayer(() => ({}), { storage }).getState().bindings).toMatchObject({
+      undo: 'Ctrl+Shift+KeyZ',
+      redo: null,
+      reset: 'Shift+KeyR'
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { compensatedNow, inputEpochMs } from '../inputLatency';
+import { installFakeClock } from '../../test/clockTestUtils';
+
+describe('inputLatency', () => {
+  const epoch = () => performance.timeOrigin + performance.now();
+
+  beforeEach(() => {
+    installFakeClock();
+    vi.advanceTimersByTime(10_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the event timestamp on the performance.now() timeline', () => {
+    expect(inputEpochMs({ timeStamp: 9_600 })).toBe(performance.timeOrigin + 9_600);
+    expect(inputEpochMs(9_000)).toBe(performance.timeOrigin + 9_000);
+  });
+
+  it('stamps now without an input or with a timestamp from another timeline', () => {
+    expect(inputEpochMs()).toBe(epoch());
+    // Legacy epoch timestamps, and anything in the future
+    expect(inputEpochMs({ timeStamp: Date.now() })).toBe(epoch());
+    expect(inputEpochMs(NaN)).toBe(epoch());
+  });
+
+  it('uses the event being dispatched when no input is passed', () => {
+    vi.spyOn(window, 'event', 'get').mockReturnValue({ timeStamp: 9_500 } as Event);
+    expect(inputEpochMs()).toBe(performance.timeOrigin + 9_500);
+  });
+
+  it('applies a late command at the input, within the window', () => {
+    const now = performance.now();
+    expect(compensatedNow(epoch() - 300, 1000)).toBe(now - 300);
+    expect(compensatedNow(epoch() - 3000, 1000)).toBe(now - 1000);
+    expect(compensatedNow(epoch() - 300, 0)).toBe(now);
+    expect(compensatedNow(epoch() + 50, 1000)).toBe(now);
+  });
+});
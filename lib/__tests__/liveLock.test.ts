@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLiveLock } from '../liveLock';
+
+describe('live lock', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs everything at once while unlocked', () => {
+    const lock = createLiveLock();
+    const reset = vi.fn();
+    expect(lock.run('reset', { kind: 'reset' }, reset)).toBe('ran');
+    expect(reset).toHaveBeenCalledTimes(1);
+  });
+
+  it('arms a destructive action and runs it on the second call', () => {
+    const lock = createLiveLock({ locked: true });
+    const listener = vi.fn();
+    lock.subscribe(listener);
+    const reset = vi.fn();
+
+    expect(lock.run('reset', { kind: 'reset' }, reset)).toBe('armed');
+    expect(lock.getState().armed).toBe('reset');
+    expect(reset).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2000);
+    expect(lock.run('reset', { kind: 'reset' }, reset)).toBe('ran');
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(lock.getState().armed).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('disarms after the arm window, or when another action runs', () => {
+    const lock = createLiveLock({ locked: true, armWindowMs: 1000 });
+    const reset = vi.fn();
+    lock.run('reset', { kind: 'reset' }, reset);
+    vi.advanceTimersByTime(1000);
+    expect(lock.getState().armed).toBeNull();
+    expect(lock.run('reset', { kind: 'reset' }, reset)).toBe('armed');
+
+    lock.run('adjust:1', { kind: 'jump', deltaSeconds: 1 }, () => {});
+    expect(lock.run('reset', { kind: 'reset' }, reset)).toBe('armed');
+    expect(reset).not.toHaveBeenCalled();
+  });
+
+  it('guards jumps from the threshold, and presets only while running', () => {
+    let running = false;
+    const lock = createLiveLock({ locked: true, isRunning: () => running });
+    expect(lock.needsConfirmation({ kind: 'jump', deltaSeconds: 60 })).toBe(false);
+    expect(lock.needsConfirmation({ kind: 'jump', deltaSeconds: -3600 })).toBe(true);
+
+    lock.setLargeJumpSeconds(60);
+    expect(lock.needsConfirmation({ kind: 'jump', deltaSeconds: -60 })).toBe(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    lock.setLargeJumpSeconds(0);
+    expect(lock.getState().largeJumpSeconds).toBe(60);
+
+    expect(lock.needsConfirmation({ kind: 'preset' })).toBe(false);
+    running = true;
+    expect(lock.needsConfirmation({ kind: 'preset' })).toBe(true);
+    expect(lock.needsConfirmation({ kind: 'safe' })).toBe(false);
+  });
+
+  it('disarms when unlocked', () => {
+    const lock = createLiveLock({ locked: true });
+    const reset = vi.fn();
+    lock.run('reset', { kind: 'reset' }, reset);
+    lock.setLocked(false);
+    expect(lock.getState()).toMatchObject({ locked: false, armed: null });
+
+    // The expired timer must not disarm a later action
+    lock.setLocked(true);
+    lock.run('reset', { kind: 'reset' }, reset);
+    vi.advanceTimersByTime(2999);
+    expect(lock.getState().armed).toBe('reset');
+  });
+});
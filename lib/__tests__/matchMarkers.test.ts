@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { MatchMarker, markersToCsv, markersToEdl, markersToWebVtt } from '../matchMarkers';
+
+const kickOff = new Date(2024, 5, 1, 15, 0, 0).getTime();
+
+const marker = (
+  id: string,
+  matchMs: number,
+  category: MatchMarker['category'],
+  label = '',
+  wallClockMs = kickOff + matchMs,
+  period: MatchMarker['period'] = matchMs < 45 * 60_000 ? 'FIRST_HALF' : 'SECOND_HALF'
+): MatchMarker => ({ id, label, category, matchMs, wallClockMs, period });
+
+const markers = [
+  marker('marker-1', 12 * 60_000 + 30_500, 'card', 'Jones, 4'),
+  marker('marker-2', 66 * 60_000 + 5_000, 'goal', 'Smith'),
+  marker('marker-3', 45 * 60_000 + 200, 'substitution')
+];
+
+describe('match markers', () => {
+  it('exports CSV with the match minute and time', () => {
+    const csv = markersToCsv(markers).split('\r\n');
+    expect(csv[0]).toBe('id,category,label,period,minute,match_time,match_ms,wall_clock');
+    expect(csv[1]).toBe(`marker-1,card,"Jones, 4",FIRST_HALF,13',00:12:30.500,750500,${new Date(kickOff + 750_500).toISOString()}`);
+    expect(csv).toHaveLength(4);
+  });
+
+  it('exports a CMX3600 EDL with handles around each marker, in time order', () => {
+    const edl = markersToEdl(markers, { title: 'FINAL', source: 'match', prerollSeconds: 5, postrollSeconds: 15 }).split('\r\n');
+    expect(edl.slice(0, 6)).toEqual([
+      'TITLE: FINAL',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       V     C        00:12:25:12 00:12:45:12 01:00:00:00 01:00:20:00',
+      '* FROM CLIP NAME: CARD - Jones, 4',
+      "* COMMENT: FIRST HALF 13'"
+    ]);
+    expect(edl[7]).toBe('002  AX       V     C        00:44:55:05 00:45:15:05 01:00:20:00 01:00:40:00');
+    expect(edl[11]).toBe('003  AX       V     C        01:06:00:00 01:06:20:00 01:00:40:00 01:01:00:00');
+  });
+
+  it('uses time of day and drop-frame timecode for ISO recordings', () => {
+    const edl = markersToEdl([markers[1]], { rate: '29.97DF' }).split('\r\n');
+    expect(edl[1]).toBe('FCM: DROP FRAME');
+    expect(edl[3]).toBe('001  AX       V     C        16:05:55;01 16:06:15;02 01:00:00;00 01:00:19;29');
+  });
+
+  it('exports WebVTT chapters that run to the next marker', () => {
+    expect(markersToWebVtt(markers, { recordingStartedAt: kickOff - 60_000, lastChapterSeconds: 30 })).toBe([
+      'WEBVTT',
+      '1\n00:13:30.500 --> 00:46:00.200\nCARD - Jones, 4',
+      '2\n00:46:00.200 --> 01:07:05.000\nSUB',
+      '3\n01:07:05.000 --> 01:07:35.000\nGOAL - Smith'
+    ].join('\n\n') + '\n');
+  });
+
+  it('places chapters by time of day, across halftime and 1st-half stoppage time', () => {
+    const secondHalfAt = kickOff + 62 * 60_000; // 15 minutes of halftime after 47:00
+    const match = [
+      marker('marker-1', 45 * 60_000, 'goal', 'Smith', secondHalfAt, 'SECOND_HALF'),
+      marker('marker-2', 47 * 60_000, 'card', 'Jones', kickOff + 47 * 60_000, 'FIRST_HALF'),
+      marker('marker-3', 10 * 60_000, 'other', 'Kick-off + 10'),
+    ];
+    expect(markersToWebVtt(match, { recordingStartedAt: kickOff - 5 * 60_000 })).toBe([
+      'WEBVTT',
+      '1\n00:15:00.000 --> 00:52:00.000\nNOTE - Kick-off + 10',
+      '2\n00:52:00.000 --> 01:07:00.000\nCARD - Jones',
+      '3\n01:07:00.000 --> 01:08:00.000\nGOAL - Smith'
+    ].join('\n\n') + '\n');
+
+    // Without a recording start, the earliest marker starts at 0
+    expect(markersToWebVtt(match).split('\n\n')[1]).toBe('1\n00:00:00.000 --> 00:37:00.000\nNOTE - Kick-off + 10');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { MissionClockElement, defineMissionClockElement } from '../missionClockElement';
+import { MockKernelWorker, installMockKernelWorker } from '../../test/clockTestUtils';
+
+describe('<mission-clock>', () => {
+  let workers: MockKernelWorker[];
+
+  beforeAll(() => defineMissionClockElement());
+
+  beforeEach(() => {
+    workers = installMockKernelWorker();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const mount = (html: string) => {
+    document.body.innerHTML = html;
+    return document.querySelector('mission-clock')!;
+  };
+
+  it('is registered once, however often it is defined', () => {
+    defineMissionClockElement();
+    expect(customElements.get('mission-clock')).toBeDefined();
+    expect(document.createElement('mission-clock')).toBeInstanceOf(MissionClockElement);
+  });
+
+  it('starts the kernel from its attributes when connected', () => {
+    const clock = mount('<mission-clock text-color="#fff" font-family="Inter" glow="false" show-dot initial-seconds="2700"></mission-clock>');
+    expect(workers).toHaveLength(1);
+    expect(workers[0].posted('INIT')[0].payload).toMatchObject({
+      initialSeconds: 2700,
+      config: expect.objectContaining({ textColor: '#fff', fontFamily: 'Inter', glowEffect: false, showDot: true })
+    });
+    expect(clock.backend).toBe('worker');
+    expect(clock.shadowRoot!.querySelector('canvas')).not.toBeNull();
+  });
+
+  it('applies attribute changes live and ignores unknown values', () => {
+    const clock = mount('<mission-clock></mission-clock>');
+    clock.setAttribute('text-color', 'red');
+    expect(workers[0].posted('UPDATE_CONFIG').at(-1).payload).toMatchObject({ textColor: 'red' });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clock.setAttribute('format', 'HH:MM:SS:MS');
+    expect(workers[0].posted('UPDATE_CONFIG').at(-1).payload.format).toBe('HH:MM:SS');
+    expect(console.error).toHaveBeenCalledWith('<mission-clock> ignored format="HH:MM:SS:MS"');
+  });
+
+  it('ignores unknown direction, expiry behaviour and backend values', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const clock = mount('<mission-clock direction="sideways" expiry-behaviour="explode" backend="gpu"></mission-clock>');
+
+    expect(workers[0].posted('INIT')[0].payload.timing).toMatchObject({ direction: 'up', expiryBehaviour: 'stop' });
+    expect(clock.backend).toBe('worker');
+    expect(console.error).toHaveBeenCalledWith('<mission-clock> ignored direction="sideways"');
+    expect(console.error).toHaveBeenCalledWith('<mission-clock> ignored expiry-behaviour="explode"');
+    expect(console.error).toHaveBeenCalledWith('<mission-clock> ignored backend="gpu"');
+  });
+
+  it('sends its methods to the kernel, queued until connected', () => {
+    const clock = document.createElement('mission-clock');
+    clock.setTime(60);
+    document.body.appendChild(clock);
+    clock.start();
+    clock.adjustTime(-5);
+    clock.pause();
+
+    const commands = workers[0].postMessage.mock.calls.map(([m]) => m.type).filter((t) => !['INIT', 'RESIZE'].includes(t));
+    expect(commands).toEqual(['SET_TIME', 'START', 'ADJUST_TIME', 'PAUSE']);
+
+    // Nudges carry the click that triggered them, like the other time changes
+    const input = { timeStamp: performance.now() };
+    clock.adjustTime(1, input);
+    expect(workers[0].posted('ADJUST_TIME').at(-1).issuedAt).toBe(performance.timeOrigin + input.timeStamp);
+  });
+
+  it('dispatches tick, statechange and expired events', () => {
+    const clock = mount('<mission-clock></mission-clock>');
+    const ticks: CustomEvent[] = [];
+    const expired = vi.fn();
+    clock.addEventListener('tick', (e) => ticks.push(e as CustomEvent));
+    clock.addEventListener('expired', expired);
+
+    workers[0].reply({ type: 'TICK', v: 1, payload: { totalSeconds: 12, isRunning: true } });
+    workers[0].reply({ type: 'EXPIRED', v: 1 });
+    expect(ticks[0].detail).toEqual({ totalSeconds: 12, isRunning: true });
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it('terminates the worker when removed, and starts a new one when re-inserted', () => {
+    const clock = mount('<mission-clock></mission-clock>');
+    clock.remove();
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(clock.backend).toBeNull();
+
+    document.body.appendChild(clock);
+    expect(workers).toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createTimeFormatter, formatTime, formatTimeMs, quantizeMs } from '../timeFormat';
+
+describe('formatTime', () => {
+  it('formats HH:MM:SS without wrapping hours', () => {
+    expect(formatTime(0)).toBe('00:00:00');
+    expect(formatTime(3661)).toBe('01:01:01');
+    expect(formatTime(100 * 3600)).toBe('100:00:00');
+  });
+
+  it('formats unbounded football minutes with MM:SS', () => {
+    expect(formatTime(65, 'MM:SS')).toBe('01:05');
+    expect(formatTime(90 * 60, 'MM:SS')).toBe('90:00');
+    expect(formatTime(120 * 60 + 5, 'MM:SS')).toBe('120:05');
+  });
+
+  it('formats M:SS without a leading zero', () => {
+    expect(formatTime(307, 'M:SS')).toBe('5:07');
+    expect(formatTime(9, 'M:SS')).toBe('0:09');
+  });
+
+  it('shows the minute in progress for MINUTES', () => {
+    expect(formatTime(0, 'MINUTES')).toBe("0'");
+    expect(formatTime(30, 'MINUTES')).toBe("1'");
+    expect(formatTime(44 * 60 + 10, 'MINUTES')).toBe("45'");
+    expect(formatTime(45 * 60, 'MINUTES')).toBe("45'");
+  });
+
+  it('formats days for long runs', () => {
+    expect(formatTime(2700, 'D.HH:MM:SS')).toBe('0.00:45:00');
+    expect(formatTime(86400 + 2 * 3600 + 3 * 60 + 4, 'D.HH:MM:SS')).toBe('1.02:03:04');
+  });
+
+  it('prefixes negative values', () => {
+    expect(formatTime(-5)).toBe('-00:00:05');
+    expect(formatTime(-65, 'M:SS')).toBe('-1:05');
+  });
+
+  it('is self-contained so it can be embedded into the worker script', () => {
+    const embedded = new Function(`return (${createTimeFormatter.toString()})();`)();
+    expect(embedded.format(5400, 'MM:SS')).toBe('90:00');
+  });
+});
+
+describe('formatTimeMs', () => {
+  it('appends the sub-second fraction for each precision', () => {
+    expect(formatTimeMs(9734, 'HH:MM:SS', 'seconds')).toBe('00:00:09');
+    expect(formatTimeMs(9700, 'HH:MM:SS', 'tenths')).toBe('00:00:09.7');
+    expect(formatTimeMs(9730, 'MM:SS', 'hundredths')).toBe('00:09.73');
+    expect(formatTimeMs(9734, 'M:SS', 'milliseconds')).toBe('0:09.734');
+    expect(formatTimeMs(5, 'M:SS', 'milliseconds')).toBe('0:00.005');
+  });
+
+  it('never shows a fraction for minute-only displays', () => {
+    expect(formatTimeMs(2650_500, 'MINUTES', 'tenths')).toBe("45'");
+  });
+
+  it('prefixes negative sub-second values', () => {
+    expect(formatTimeMs(-500, 'MM:SS', 'tenths')).toBe('-00:00.5');
+    expect(formatTimeMs(-3000, 'MM:SS', 'seconds')).toBe('-00:03');
+  });
+});
+
+describe('quantizeMs', () => {
+  it('floors counting up and rounds up counting down', () => {
+    expect(quantizeMs(9734, 'tenths', false)).toBe(9700);
+    expect(quantizeMs(9734, 'tenths', true)).toBe(9800);
+    expect(quantizeMs(9734, 'seconds', true)).toBe(10000);
+    expect(quantizeMs(9734, 'milliseconds', false)).toBe(9734);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTimecodeKernel,
+  formatTimecode,
+  framesToMs,
+  framesToTimecode,
+  msToFrames,
+  timecodeToFrames,
+  timecodeToSeconds
+} from '../timecode';
+
+describe('framesToTimecode', () => {
+  it('formats non-drop rates', () => {
+    expect(framesToTimecode(0, '25')).toBe('00:00:00:00');
+    expect(framesToTimecode(25 * 3661 + 4, '25')).toBe('01:01:01:04');
+    expect(framesToTimecode(23, '24')).toBe('00:00:00:23');
+    expect(framesToTimecode(30 * 60, '30')).toBe('00:01:00:00');
+  });
+
+  it('skips dropped frame numbers at 29.97', () => {
+    expect(framesToTimecode(1799, '29.97DF')).toBe('00:00:59;29');
+    expect(framesToTimecode(1800, '29.97DF')).toBe('00:01:00;02');
+    expect(framesToTimecode(17982, '29.97DF')).toBe('00:10:00;00');
+    expect(framesToTimecode(107892, '29.97DF')).toBe('01:00:00;00');
+  });
+
+  it('drops four frame numbers per minute at 59.94', () => {
+    expect(framesToTimecode(3599, '59.94DF')).toBe('00:00:59;59');
+    expect(framesToTimecode(3600, '59.94DF')).toBe('00:01:00;04');
+    expect(framesToTimecode(35964, '59.94DF')).toBe('00:10:00;00');
+  });
+
+  it('prefixes negative values', () => {
+    expect(framesToTimecode(-26, '25')).toBe('-00:00:01:01');
+  });
+});
+
+describe('timecodeToFrames', () => {
+  it('round-trips drop-frame timecode', () => {
+    for (const frames of [0, 1799, 1800, 17981, 17982, 107891]) {
+      expect(timecodeToFrames(framesToTimecode(frames, '29.97DF'), '29.97DF')).toBe(frames);
+    }
+  });
+
+  it('rejects malformed, out-of-range and dropped values', () => {
+    expect(timecodeToFrames('1:00:00', '25')).toBeNull();
+    expect(timecodeToFrames('00:00:00:25', '25')).toBeNull();
+    expect(timecodeToFrames('00:60:00:00', '25')).toBeNull();
+    expect(timecodeToFrames('00:01:00;00', '29.97DF')).toBeNull();
+    expect(timecodeToFrames('00:10:00;00', '29.97DF')).toBe(17982);
+  });
+});
+
+describe('ms conversions', () => {
+  it('converts between ms and whole frames', () => {
+    expect(msToFrames(1000, '25')).toBe(25);
+    expect(msToFrames(39, '25')).toBe(0);
+    expect(msToFrames(1, '25', true)).toBe(1);
+    expect(framesToMs(1, '25')).toBe(40);
+    // Exact frame boundaries survive the fractional 29.97 frame duration
+    expect(msToFrames(framesToMs(1800, '29.97DF'), '29.97DF')).toBe(1800);
+  });
+
+  it('parses timecode into seconds for setTime', () => {
+    expect(timecodeToSeconds('00:45:00:00', '25')).toBe(2700);
+    expect(timecodeToSeconds('00:00:01:12', '25')).toBe(1.48);
+    expect(timecodeToSeconds('garbage')).toBeNull();
+  });
+
+  it('formats ms as timecode', () => {
+    expect(formatTimecode(2700_000)).toBe('00:45:00:00');
+    expect(formatTimecode(60_060, '29.97DF')).toBe('00:01:00;02');
+  });
+
+  it('is self-contained so it can be embedded into the worker script', () => {
+    const embedded = new Function(`return (${createTimecodeKernel.toString()})();`)();
+    expect(embedded.framesToTimecode(17982, '29.97DF')).toBe('00:10:00;00');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * ============================================================================
+ * MODULE: Operator Audit Log
+ * * Used by: incident reviews ("what did the operator press, and when?")
+ * * RECORDS: every command a ClockStore applies, plus renderer config changes
+ * * REPLAYS: a log against a fresh store, in real time or accelerated
+ * ============================================================================
+ */
+
+import type { ClockCommand } from './clockProtocol';
+import { ClockAnchor, ClockStore, anchorToResume, anchorValueAt } from './clockStore';
+import { epochNow } from './clockWatchdog';
+import type { ClockStyleConfig } from './MissionClockEngine';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/** The clock as an entry saw it. */
+export interface ClockLogState {
+  totalMs: number;
+  isRunning: boolean;
+  isExpired: boolean;
+}
+
+/** A store command, or a renderer config change recorded with `record`. */
+export type ClockLogCommand = ClockCommand | { type: 'UPDATE_CONFIG'; payload: Partial<ClockStyleConfig> };
+
+export interface ClockLogEntry {
+  /** Position in the session, from 1 (kept when old entries are dropped) */
+  seq: number;
+  command: ClockLogCommand;
+  /** Monotonic time of the command (`performance.timeOrigin + performance.now()`): never jumps */
+  monotonicMs: number;
+  /** `Date.now()` at the same moment: the system clock, for matching other logs */
+  wallClockMs: number;
+  /** How far back the command was stamped to the operator's input (ms, 0 if not) */
+  inputLagMs: number;
+  /** The clock just before the command */
+  before: ClockLogState;
+  /** The resulting clock */
+  after: ClockLogState;
+}
+
+/**
+ * Options for `createClockAuditLog` (and `useClockAuditLog`).
+ */
+export interface ClockAuditLogOptions {
+  /** The oldest entries are dropped beyond this (default: 10000) */
+  maxEntries?: number;
+}
+
+export interface ClockReplayOptions {
+  /** 1 replays in real time, 10 ten times faster, Infinity back to back (default: 1) */
+  speed?: number;
+  /** Receives the UPDATE_CONFIG entries (e.g. the `config` state of a fresh `<MissionClock>`) */
+  applyConfig?: (config: Partial<ClockStyleConfig>) => void;
+  /** Called after each entry, with its divergence if the result differs from the log */
+  onEntry?: (entry: ClockLogEntry, divergence: ClockReplayDivergence | null) => void;
+}
+
+/** An entry whose replayed result differs from the recorded one. */
+export interface ClockReplayDivergence {
+  seq: number;
+  expected: ClockLogState;
+  actual: ClockLogState;
+}
+
+export interface ClockReplayReport {
+  replayed: number;
+  divergences: ClockReplayDivergence[];
+  cancelled: boolean;
+}
+
+export interface ClockReplay {
+  /** Resolves when the last entry has been replayed, or on `cancel` */
+  done: Promise<ClockReplayReport>;
+  cancel: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// 2. Pure Helper Functions
+// -----------------------------------------------------------------------------
+
+const DEFAULT_MAX_LOG_ENTRIES = 10_000;
+
+// Replayed values closer than this to the recorded ones are the same value
+const REPLAY_TOLERANCE_MS = 1;
+
+const CSV_COLUMNS = [
+  'seq', 'wall_clock', 'monotonic_ms', 'command', 'payload', 'input_lag_ms',
+  'before_ms', 'before_running', 'after_ms', 'after_running', 'after_expired'
+];
+
+const stateAt = (anchor: ClockAnchor, epochMs: number): ClockLogState => ({
+  totalMs: anchorValueAt(anchor, epochMs),
+  isRunning: anchor.isRunning,
+  isExpired: anchor.isExpired,
+});
+
+const isSameState = (a: ClockLogState, b: ClockLogState): boolean =>
+  Math.abs(a.totalMs - b.totalMs) < REPLAY_TOLERANCE_MS && a.isRunning === b.isRunning && a.isExpired === b.isExpired;
+
+// RFC 4180: quote fields with separators, quotes or line breaks
+const csvField = (value: string | number | boolean): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The entries as a JSON document (see `parseClockLog`). */
+export const clockLogToJson = (entries: readonly ClockLogEntry[]): string =>
+  JSON.stringify({ version: 1, entries }, null, 2);
+
+/** The entries as CSV, one row per command, for spreadsheets. */
+export const clockLogToCsv = (entries: readonly ClockLogEntry[]): string => {
+  const rows = entries.map(entry => [
+    entry.seq,
+    new Date(entry.wallClockMs).toISOString(),
+    entry.monotonicMs,
+    entry.command.type,
+    'payload' in entry.command ? JSON.stringify(entry.command.payload) : '',
+    entry.inputLagMs,
+    entry.before.totalMs,
+    entry.before.isRunning,
+    entry.after.totalMs,
+    entry.after.isRunning,
+    entry.after.isExpired
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isClockLogState = (value: unknown): value is ClockLogState =>
+  isObject(value) &&
+  typeof value.totalMs === 'number' &&
+  typeof value.isRunning === 'boolean' &&
+  typeof value.isExpired === 'boolean';
+
+/** Whether `value` has the shape of a `ClockLogEntry` (the command payload is not checked). */
+export const isClockLogEntry = (value: unknown): value is ClockLogEntry =>
+  isObject(value) &&
+  typeof value.seq === 'number' &&
+  typeof value.monotonicMs === 'number' &&
+  typeof value.wallClockMs === 'number' &&
+  typeof value.inputLagMs === 'number' &&
+  isObject(value.command) &&
+  typeof value.command.type === 'string' &&
+  isClockLogState(value.before) &&
+  isClockLogState(value.after);
+
+/**
+ * Reads a log exported with `clockLogToJson`.
+ * @returns null (and logs why) if the document is not a clock log
+ */
+export const parseClockLog = (json: string): ClockLogEntry[] | null => {
+  try {
+    const document: unknown = JSON.parse(json);
+    const entries = isObject(document) ? document.entries : undefined;
+    if (Array.isArray(entries) && entries.every(isClockLogEntry)) return entries;
+    console.error('Clock log rejected: not a clock log document');
+  } catch (err) {
+    console.error('Clock log rejected:', err);
+  }
+  return null;
+};
+
+// -----------------------------------------------------------------------------
+// 3. Recording
+// -----------------------------------------------------------------------------
+
+/**
+ * Records every command `store` applies, whoever sent it (`MissionClock`'s
+ * handle, `useBroadcastMatchTimer`, a cue, another tab's leader...), with
+ * monotonic and wall-clock timestamps and the clock before and after.
+ * Renderer-only changes (style, format) are added with `record`.
+ *
+ * The log opens with the clock's timing and position, so a replay starts
+ * where the session did.
+ *
+ * @example
+ * ```ts
+ * const log = createClockAuditLog(store);
+ * log.record({ type: 'UPDATE_CONFIG', payload: { format: 'MM:SS' } });
+ * download('clock.csv', clockLogToCsv(log.getEntries()));
+ * ```
+ */
+export const createClockAuditLog = (store: ClockStore, options: ClockAuditLogOptions = {}) => {
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_LOG_ENTRIES);
+  const listeners = new Set<() => void>();
+  let entries: readonly ClockLogEntry[] = [];
+  let seq = 0;
+  let unsubscribeCommands: (() => void) | null = null;
+
+  const append = (command: ClockLogCommand, previous: ClockAnchor, issuedAt?: number) => {
+    const monotonicMs = epochNow();
+    const entry: ClockLogEntry = {
+      seq: ++seq,
+      command,
+      monotonicMs,
+      wallClockMs: Date.now(),
+      inputLagMs: issuedAt === undefined ? 0 : Math.max(0, monotonicMs - issuedAt),
+      before: stateAt(previous, monotonicMs),
+      after: stateAt(store.getAnchor(), monotonicMs),
+    };
+    // A new array per entry, so `getEntries` works as a snapshot
+    entries = [...entries.slice(Math.max(0, entries.length + 1 - maxEntries)), entry];
+    listeners.forEach(listener => listener());
+  };
+
+  const open = () => {
+    const anchor = store.getAnchor();
+    append({ type: 'UPDATE_TIMING', payload: anchor.timing }, anchor);
+    append({ type: 'RESUME', payload: { ...anchorToResume(anchor), totalMs: store.valueAt(), capturedAt: epochNow() } }, anchor);
+  };
+
+  const attach = () => {
+    if (unsubscribeCommands) return;
+    unsubscribeCommands = store.subscribeCommands(append);
+  };
+
+  open();
+  attach();
+
+  return {
+    /** Every entry, oldest first (a new array after every change) */
+    getEntries: () => entries,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /** Adds a command the store does not see, e.g. a style or format change. */
+    record: (command: ClockLogCommand) => {
+      append(command, store.getAnchor());
+    },
+    /** Empties the log and opens it again at the current clock. */
+    clear: () => {
+      entries = [];
+      open();
+    },
+    toJSON: () => clockLogToJson(entries),
+    toCSV: () => clockLogToCsv(entries),
+    /** Resumes recording after `detach` (the log records from creation). */
+    attach,
+    /** Stops recording; the entries are kept. */
+    detach: () => {
+      unsubscribeCommands?.();
+      unsubscribeCommands = null;
+    },
+  };
+};
+
+export type ClockAuditLog = ReturnType<typeof createClockAuditLog>;
+
+// -----------------------------------------------------------------------------
+// 4. Replay
+// -----------------------------------------------------------------------------
+
+/**
+ * Replays a log against `target`, a fresh store that a `<MissionClock>` or
+ * `useBroadcastMatchTimer` follows, to reproduce a session.
+ *
+ * Entries keep their recorded spacing, divided by `speed`. The clock is put
+ * where the log says it was before the first entry only; from there every
+ * command is applied to the replayed clock, stamped with the same input lag
+ * as in the session. An accelerated replay moves a running clock on by the
+ * session time it skipped, so the result does not depend on `speed`.
+ *
+ * Each entry whose replayed result differs from the recorded one is reported
+ * as a divergence. The replay carries on from its own result, so a command
+ * that went differently shows up in every entry it affected.
+ *
+ * @example
+ * ```ts
+ * const store = createClockStore(); // <MissionClock store={store} />
+ * const { done } = replayClockLog(parseClockLog(file)!, store, { speed: 10, applyConfig: setConfig });
+ * const { divergences } = await done;
+ * ```
+ */
+export const replayClockLog = (
+  entries: readonly ClockLogEntry[],
+  target: ClockStore,
+  options: ClockReplayOptions = {}
+): ClockReplay => {
+  const speed = options.speed ?? 1;
+  const divergences: ClockReplayDivergence[] = [];
+  const startedAt = performance.now();
+  const firstAt = entries[0]?.monotonicMs ?? 0;
+  let index = 0;
+  // Where the replay is on the session's timeline (null before the first command)
+  let lastEntryAt: number | null = null;
+  let lastReplayedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let finish: (report: ClockReplayReport) => void = () => {};
+  const done = new Promise<ClockReplayReport>(resolve => {
+    finish = resolve;
+  });
+
+  const replayEntry = (entry: ClockLogEntry): ClockReplayDivergence | null => {
+    const { command } = entry;
+    if (command.type === 'UPDATE_CONFIG') {
+      options.applyConfig?.(command.payload);
+      return null;
+    }
+
+    const now = epochNow();
+    const anchor = target.getAnchor();
+    if (lastEntryAt === null) {
+      // Start where the log does
+      if (!isSameState(stateAt(anchor, now), entry.before)) {
+        target.dispatch({
+          type: 'RESUME',
+          payload: { ...anchorToResume(anchor), totalMs: entry.before.totalMs, isRunning: entry.before.isRunning, capturedAt: now }
+        });
+      }
+    } else if (anchor.isRunning) {
+      // Accelerated: the running clock skipped part of the session's time
+      const skippedMs = (entry.monotonicMs - lastEntryAt) - (now - lastReplayedAt);
+      if (Math.abs(skippedMs) >= REPLAY_TOLERANCE_MS) {
+        const totalMs = anchorValueAt(anchor, now) + (anchor.timing.direction === 'down' ? -skippedMs : skippedMs);
+        target.dispatch({ type: 'RESUME', payload: { ...anchorToResume(anchor), totalMs, capturedAt: now } });
+      }
+    }
+    lastEntryAt = entry.monotonicMs;
+    lastReplayedAt = now;
+
+    if (command.type === 'RESUME') {
+      // Recorded on the session's timeline: move it onto ours
+      target.dispatch({ ...command, payload: { ...command.payload, capturedAt: command.payload.capturedAt + now - entry.monotonicMs } });
+    } else {
+      target.dispatch(command, entry.inputLagMs > 0 ? now - entry.inputLagMs : undefined);
+    }
+
+    const actual = stateAt(target.getAnchor(), now);
+    return isSameState(actual, entry.after) ? null : { seq: entry.seq, expected: entry.after, actual };
+  };
+
+  const next = () => {
+    if (index >= entries.length) {
+      finish({ replayed: index, divergences, cancelled: false });
+      return;
+    }
+    const dueAt = startedAt + (entries[index].monotonicMs - firstAt) / speed;
+    timer = setTimeout(() => {
+      timer = null;
+      const entry = entries[index++];
+      const divergence = replayEntry(entry);
+      if (divergence) divergences.push(divergence);
+      options.onEntry?.(entry, divergence);
+      next();
+    }, Math.max(0, dueAt - performance.now()));
+  };
+
+  next();
+
+  return {
+    done,
+    cancel: () => {
+      if (timer === null) return;
+      clearTimeout(timer);
+      timer = null;
+      finish({ replayed: index, divergences, cancelled: true });
+    },
+  };
+};
@@ -0,0 +1,311 @@
+/**
+ * ============================================================================
+ * MODULE: Clock Render Backends
+ * * Used by: MissionClock
+ * * BACKENDS: worker (OffscreenCanvas), main-thread (canvas), dom (text)
+ * ============================================================================
+ */
+
+import { CLOCK_WORKER_SCRIPT } from './workers/clock.worker';
+import { createClockKernel } from './workers/clockKernel';
+import { createTimeFormatter } from './timeFormat';
+import { createTimecodeKernel } from './timecode';
+import {
+  CLOCK_PROTOCOL_VERSION,
+  ClockCommandMessage,
+  ClockWorkerMessage,
+  createClockCommandValidator
+} from './clockProtocol';
+
+/**
+ * Where the clock kernel runs and what it draws on.
+ * - `worker`: dedicated Web Worker painting an OffscreenCanvas (preferred)
+ * - `main-thread`: the same kernel on the main thread, painting a regular canvas
+ * - `dom`: the same kernel writing its text into a DOM element (no canvas at all)
+ */
+export type ClockBackend = 'worker' | 'main-thread' | 'dom';
+
+/** `auto` picks the best backend the environment supports. */
+export type ClockBackendPreference = 'auto' | ClockBackend;
+
+export const CLOCK_BACKEND_PREFERENCES: readonly ClockBackendPreference[] = ['auto', 'worker', 'main-thread', 'dom'];
+
+/** The DOM text fallback: just enough of a canvas for the kernel's paint logic. */
+export interface ClockTextSurface {
+  width: number;
+  height: number;
+  getContext: (contextId: '2d', options?: object) => ClockTextContext;
+}
+
+// The subset of CanvasRenderingContext2D the kernel uses
+interface ClockTextContext {
+  fillStyle: string;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  shadowColor: string;
+  shadowBlur: number;
+  clearRect: () => void;
+  fillRect: () => void;
+  fillText: (text: string) => void;
+  beginPath: () => void;
+  arc: () => void;
+  fill: () => void;
+}
+
+/**
+ * A mounted backend: the element is already in the container, and the
+ * kernel is waiting for its INIT command.
+ */
+export interface MountedClockBackend {
+  backend: ClockBackend;
+  /** Drawing surface to send with INIT */
+  surface: OffscreenCanvas | HTMLCanvasElement | ClockTextSurface;
+  /** Transferables to send with INIT (the OffscreenCanvas for the worker backend) */
+  transfer?: Transferable[];
+  /** Whether RESIZE should be sent in device pixels (canvas) or CSS pixels (DOM text) */
+  usesDevicePixels: boolean;
+  post: (message: ClockCommandMessage, transfer?: Transferable[]) => void;
+  /** Stops the kernel and removes the element */
+  dispose: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// 1. Capability Detection
+// -----------------------------------------------------------------------------
+
+/** Whether Web Workers and `transferControlToOffscreen` are both available. */
+export const canUseWorkerBackend = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+
+/**
+ * Picks the best backend for this environment. A canvas without a 2D context
+ * is only discovered at mount, where `main-thread` falls back to `dom`.
+ */
+export const detectClockBackend = (): ClockBackend => {
+  if (canUseWorkerBackend()) return 'worker';
+  return typeof HTMLCanvasElement !== 'undefined' ? 'main-thread' : 'dom';
+};
+
+// -----------------------------------------------------------------------------
+// 2. DOM Text Surface
+// -----------------------------------------------------------------------------
+
+/**
+ * Wraps an element in a canvas-like surface. Each paint starts with
+ * `clearRect`; the first `fillText` after it is the main digits (and sets the
+ * element's font and colour), later ones (added time) are appended.
+ */
+export const createDomTextSurface = (element: HTMLElement): ClockTextSurface => {
+  const lines: string[] = [];
+  const ctx: ClockTextContext = {
+    fillStyle: '',
+    font: '',
+    textAlign: 'center',
+    textBaseline: 'middle',
+    shadowColor: '',
+    shadowBlur: 0,
+    clearRect: () => {
+      lines.length = 0;
+    },
+    fillRect: () => {
+      // The first fill of a frame is the background
+      if (lines.length === 0) element.style.backgroundColor = ctx.fillStyle;
+    },
+    fillText: (text: string) => {
+      if (lines.length === 0) {
+        element.style.font = ctx.font;
+        element.style.color = ctx.fillStyle;
+        element.style.textShadow = ctx.shadowBlur > 0 ? `0 0 ${ctx.shadowBlur}px ${ctx.shadowColor}` : 'none';
+      }
+      lines.push(text);
+      element.textContent = lines.join(' ');
+    },
+    // The activity dot has no DOM equivalent
+    beginPath: () => {},
+    arc: () => {},
+    fill: () => {},
+  };
+
+  return { width: 0, height: 0, getContext: () => ctx };
+};
+
+// -----------------------------------------------------------------------------
+// 3. Backends
+// -----------------------------------------------------------------------------
+
+const createSurfaceElement = <K extends 'canvas' | 'div'>(container: HTMLElement, tag: K) => {
+  const element = document.createElement(tag);
+  element.style.width = '100%';
+  element.style.height = '100%';
+  element.style.display = 'block';
+  container.appendChild(element);
+  return element;
+};
+
+const removeElement = (container: HTMLElement, element: HTMLElement) => {
+  if (container.contains(element)) container.removeChild(element);
+};
+
+// Runs the kernel on this thread. Replies are delivered asynchronously like a
+// worker's, so handlers never re-enter the kernel in the middle of a command.
+const startLocalKernel = (onMessage: (message: ClockWorkerMessage) => void) => {
+  let disposed = false;
+  const kernel = createClockKernel(
+    {
+      formatter: createTimeFormatter(),
+      timecode: createTimecodeKernel(),
+      validator: createClockCommandValidator(CLOCK_PROTOCOL_VERSION),
+      protocolVersion: CLOCK_PROTOCOL_VERSION,
+    },
+    {
+      postMessage: (message) => queueMicrotask(() => {
+        if (!disposed) onMessage(message);
+      }),
+      requestAnimationFrame: (callback) => window.requestAnimationFrame(callback),
+      cancelAnimationFrame: (id) => window.cancelAnimationFrame(id),
+      now: () => performance.now(),
+      epochNow: () => performance.timeOrigin + performance.now(),
+      setInterval: (callback, ms) => window.setInterval(callback, ms),
+      clearInterval: (id) => window.clearInterval(id),
+    }
+  );
+
+  return {
+    post: (message: ClockCommandMessage) => kernel.handleMessage(message),
+    stop: () => {
+      disposed = true;
+      kernel.dispose();
+    },
+  };
+};
+
+const mountWorker = (
+  container: HTMLElement,
+  onMessage: (message: ClockWorkerMessage) => void,
+  onFailure: (reason: string) => void
+): MountedClockBackend => {
+  // [FIX] React 18 Strategy: a fresh, non-transferred canvas on every mount.
+  // Solves "InvalidStateError".
+  const canvas = createSurfaceElement(container, 'canvas');
+  let workerUrl: string | null = null;
+
+  try {
+    // Worker Instantiation (Blob URL for portability)
+    const blob = new Blob([CLOCK_WORKER_SCRIPT], { type: 'application/javascript' });
+    workerUrl = URL.createObjectURL(blob);
+    const worker = new Worker(workerUrl);
+    worker.onmessage = (e: MessageEvent<ClockWorkerMessage>) => onMessage(e.data);
+    // An uncaught exception in the kernel, or a message that cannot be deserialised
+    worker.onerror = (e: ErrorEvent) => onFailure(e.message || 'worker error');
+    worker.onmessageerror = () => onFailure('worker message could not be deserialised');
+
+    // Transfer Control
+    const offscreen = canvas.transferControlToOffscreen();
+    const url = workerUrl;
+
+    return {
+      backend: 'worker',
+      surface: offscreen,
+      transfer: [offscreen],
+      usesDevicePixels: true,
+      post: (message, transfer) => {
+        if (transfer) worker.postMessage(message, transfer);
+        else worker.postMessage(message);
+      },
+      dispose: () => {
+        worker.onmessage = null;
+        worker.onerror = null;
+        worker.onmessageerror = null;
+        worker.terminate();
+        URL.revokeObjectURL(url);
+        // [FIX] Important: Manually remove canvas to keep DOM clean
+        removeElement(container, canvas);
+      },
+    };
+  } catch (err) {
+    if (workerUrl) URL.revokeObjectURL(workerUrl);
+    removeElement(container, canvas);
+    throw err;
+  }
+};
+
+const mountMainThread = (
+  container: HTMLElement,
+  onMessage: (message: ClockWorkerMessage) => void
+): MountedClockBackend | null => {
+  const canvas = createSurfaceElement(container, 'canvas');
+  if (!canvas.getContext('2d')) {
+    removeElement(container, canvas);
+    return null;
+  }
+
+  const kernel = startLocalKernel(onMessage);
+  return {
+    backend: 'main-thread',
+    surface: canvas,
+    usesDevicePixels: true,
+    post: kernel.post,
+    dispose: () => {
+      kernel.stop();
+      removeElement(container, canvas);
+    },
+  };
+};
+
+const mountDomText = (
+  container: HTMLElement,
+  onMessage: (message: ClockWorkerMessage) => void
+): MountedClockBackend => {
+  const element = createSurfaceElement(container, 'div');
+  element.style.display = 'flex';
+  element.style.alignItems = 'center';
+  element.style.justifyContent = 'center';
+  element.style.whiteSpace = 'nowrap';
+  element.style.overflow = 'hidden';
+
+  const kernel = startLocalKernel(onMessage);
+  return {
+    backend: 'dom',
+    surface: createDomTextSurface(element),
+    usesDevicePixels: false,
+    post: kernel.post,
+    dispose: () => {
+      kernel.stop();
+      removeElement(container, element);
+    },
+  };
+};
+
+/**
+ * Mounts the preferred backend into `container`, falling back
+ * worker → main-thread → dom when one is unavailable or fails to start.
+ *
+ * @param onMessage - Receives the kernel's events (ACK, STATE, TICK...)
+ * @param onFailure - Called if the worker reports an error after it has started
+ */
+export const mountClockBackend = (
+  container: HTMLElement,
+  preference: ClockBackendPreference,
+  onMessage: (message: ClockWorkerMessage) => void,
+  onFailure: (reason: string) => void = () => {}
+): MountedClockBackend => {
+  const backend = preference === 'auto' ? detectClockBackend() : preference;
+
+  if (backend === 'worker') {
+    try {
+      return mountWorker(container, onMessage, onFailure);
+    } catch (err) {
+      console.error('Clock Worker Init Failed, rendering on the main thread:', err);
+    }
+  }
+
+  if (backend !== 'dom') {
+    const mounted = mountMainThread(container, onMessage);
+    if (mounted) return mounted;
+  }
+
+  return mountDomText(container, onMessage);
+};
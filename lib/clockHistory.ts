@@ -0,0 +1,80 @@
+/**
+ * ============================================================================
+ * MODULE: Clock History (undo / redo)
+ * * Used by: createClockStore, MatchClockEngine
+ * * RECORDS: how far each setTime / adjustTime moved the clock
+ * * UNDO: moves the clock back by the same amount, wherever it is now
+ * ============================================================================
+ */
+
+/**
+ * An undoable change of the clock value. Stored as an offset, not as the
+ * value before: undoing a `-1h` typed a minute ago restores the hour and
+ * keeps the minute that has run since.
+ */
+export interface ClockHistoryEntry {
+  command: 'SET_TIME' | 'ADJUST_TIME';
+  /** How far the command moved the clock (ms); undo moves it back by this much */
+  deltaMs: number;
+  /** When it was applied (epoch ms) */
+  appliedAt: number;
+}
+
+export interface ClockHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Most recent last */
+  undoStack: readonly ClockHistoryEntry[];
+  /** Next redo last */
+  redoStack: readonly ClockHistoryEntry[];
+}
+
+/** How many changes can be undone by default. */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * The undo and redo stacks. Recording a new change clears the redo stack.
+ */
+export class ClockHistory {
+  private state: ClockHistoryState = { canUndo: false, canRedo: false, undoStack: [], redoStack: [] };
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /** The stacks (a new object after every change) */
+  getState(): ClockHistoryState {
+    return this.state;
+  }
+
+  /** Records a change; a change that did not move the clock is ignored. */
+  record(entry: ClockHistoryEntry): void {
+    if (entry.deltaMs === 0) return;
+    const undoStack = [...this.state.undoStack, entry];
+    this.update(undoStack.slice(Math.max(0, undoStack.length - Math.max(1, this.limit))), []);
+  }
+
+  /** Moves the latest change to the redo stack and returns it (null if there is none). */
+  takeUndo(): ClockHistoryEntry | null {
+    const { undoStack, redoStack } = this.state;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return null;
+    this.update(undoStack.slice(0, -1), [...redoStack, entry]);
+    return entry;
+  }
+
+  /** Moves the latest undone change back to the undo stack and returns it. */
+  takeRedo(): ClockHistoryEntry | null {
+    const { undoStack, redoStack } = this.state;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return null;
+    this.update([...undoStack, entry], redoStack.slice(0, -1));
+    return entry;
+  }
+
+  clear(): void {
+    this.update([], []);
+  }
+
+  private update(undoStack: ClockHistoryEntry[], redoStack: ClockHistoryEntry[]): void {
+    this.state = { canUndo: undoStack.length > 0, canRedo: redoStack.length > 0, undoStack, redoStack };
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * ============================================================================
+ * MODULE: Clock State Persistence
+ * * Used by: useBroadcastMatchTimer, MissionClock (opt-in via `persistence`)
+ * * STORAGE: localStorage (default) or IndexedDB, keyed by clock id
+ * ============================================================================
+ */
+
+import type { ClockResumeState } from './clockProtocol';
+import { epochNow } from './clockWatchdog';
+
+export const PERSISTED_CLOCK_VERSION = 1;
+
+/**
+ * A clock as saved after each command. The anchor is wall-clock time, because
+ * `performance.now()` restarts from zero on reload.
+ */
+export interface PersistedClockState {
+  v: number;
+  /** Clock value in ms at `savedAt` */
+  totalMs: number;
+  isRunning: boolean;
+  isExpired: boolean;
+  /** Wall-clock time of the save (`Date.now()`) */
+  savedAt: number;
+  /** MissionClock's stoppage boundary, if any */
+  stoppageBoundarySeconds?: number | null;
+  /** MissionClock's added-time board */
+  announcedMinutes?: number;
+}
+
+/**
+ * Where persisted clocks are kept. `load` is synchronous so a clock can be
+ * restored before its first paint; see `createIndexedDbClockStorage` for
+ * async backends.
+ */
+export interface ClockStateStorage {
+  load: (id: string) => PersistedClockState | null;
+  save: (id: string, state: PersistedClockState) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Opt-in persistence for one clock.
+ *
+ * @example
+ * ```tsx
+ * <MissionClock persistence={{ id: 'main-clock' }} />
+ * useBroadcastMatchTimer(0, { persistence: { id: 'shot-clock' } });
+ * ```
+ */
+export interface ClockPersistenceOptions {
+  /** Unique per clock: two clocks with the same id overwrite each other */
+  id: string;
+  /** Default: `localStorageClockStorage` */
+  storage?: ClockStateStorage;
+}
+
+const STORAGE_KEY_PREFIX = 'dnm-clock:';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Storage is written by other tabs, older versions and users: never trust it
+const isPersistedClockState = (value: unknown): value is PersistedClockState =>
+  isObject(value) &&
+  value.v === PERSISTED_CLOCK_VERSION &&
+  typeof value.totalMs === 'number' && isFinite(value.totalMs) &&
+  typeof value.savedAt === 'number' && isFinite(value.savedAt) &&
+  typeof value.isRunning === 'boolean' &&
+  typeof value.isExpired === 'boolean';
+
+// -----------------------------------------------------------------------------
+// 1. Storage Backends
+// -----------------------------------------------------------------------------
+
+/** Stores each clock as JSON under `dnm-clock:<id>`. */
+export const localStorageClockStorage: ClockStateStorage = {
+  load: (id) => {
+    const raw = window.localStorage.getItem(STORAGE_KEY_PREFIX + id);
+    if (raw === null) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isPersistedClockState(parsed) ? parsed : null;
+  },
+  save: (id, state) => window.localStorage.setItem(STORAGE_KEY_PREFIX + id, JSON.stringify(state)),
+  remove: (id) => window.localStorage.removeItem(STORAGE_KEY_PREFIX + id),
+};
+
+/**
+ * IndexedDB storage (survives "clear site data" policies that target
+ * localStorage, and does not block the main thread on write). All records
+ * are read into memory up front: await `ready` before mounting the clocks.
+ *
+ * @example
+ * ```tsx
+ * const storage = createIndexedDbClockStorage();
+ * await storage.ready;
+ * root.render(<MissionClock persistence={{ id: 'main-clock', storage }} />);
+ * ```
+ */
+export const createIndexedDbClockStorage = (
+  dbName = 'dnm-clock'
+): ClockStateStorage & { ready: Promise<void> } => {
+  const STORE = 'clocks';
+  const cache = new Map<string, PersistedClockState>();
+
+  const open = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const db = typeof indexedDB === 'undefined'
+    ? Promise.reject(new Error('IndexedDB is not available'))
+    : open();
+
+  const ready = db
+    .then((database) => new Promise<void>((resolve, reject) => {
+      const request = database.transaction(STORE, 'readonly').objectStore(STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (isPersistedClockState(cursor.value)) cache.set(String(cursor.key), cursor.value);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }))
+    // Clocks still run without persistence; they just start fresh after a reload
+    .catch((err) => console.error('Clock persistence unavailable:', err));
+
+  const write = (apply: (store: IDBObjectStore) => void) => {
+    db.then((database) => apply(database.transaction(STORE, 'readwrite').objectStore(STORE)))
+      .catch((err) => console.error('Clock state could not be saved:', err));
+  };
+
+  return {
+    ready,
+    load: (id) => cache.get(id) ?? null,
+    save: (id, state) => {
+      cache.set(id, state);
+      write((store) => store.put(state, id));
+    },
+    remove: (id) => {
+      cache.delete(id);
+      write((store) => store.delete(id));
+    },
+  };
+};
+
+// -----------------------------------------------------------------------------
+// 2. Load / Save (never throw: persistence must not take the clock down)
+// -----------------------------------------------------------------------------
+
+/** The saved state for this clock, or null if there is none (or it is unreadable). */
+export const loadClockState = (options: ClockPersistenceOptions | undefined): PersistedClockState | null => {
+  if (!options) return null;
+  try {
+    return (options.storage ?? localStorageClockStorage).load(options.id);
+  } catch (err) {
+    console.error('Clock state could not be restored:', err);
+    return null;
+  }
+};
+
+/** Saves `state` for this clock, stamping the version and the wall-clock anchor. */
+export const saveClockState = (
+  options: ClockPersistenceOptions | undefined,
+  state: Omit<PersistedClockState, 'v' | 'savedAt'>
+): void => {
+  if (!options) return;
+  try {
+    (options.storage ?? localStorageClockStorage).save(options.id, {
+      ...state,
+      v: PERSISTED_CLOCK_VERSION,
+      savedAt: Date.now(),
+    });
+  } catch (err) {
+    console.error('Clock state could not be saved:', err);
+  }
+};
+
+/**
+ * Forgets this clock's saved state (e.g. before a new match), so the next
+ * mount starts from `initialSeconds` again.
+ */
+export const clearClockState = (options: ClockPersistenceOptions): void => {
+  try {
+    (options.storage ?? localStorageClockStorage).remove(options.id);
+  } catch (err) {
+    console.error('Clock state could not be cleared:', err);
+  }
+};
+
+/** Wall-clock ms since the state was saved (0 if the system clock went backwards). */
+export const msSinceSaved = (saved: PersistedClockState): number =>
+  Math.max(0, Date.now() - saved.savedAt);
+
+/** Converts a saved state into the kernel's resume payload (see `ClockResumeState`). */
+export const toResumeFromSaved = (saved: PersistedClockState): ClockResumeState => ({
+  totalMs: saved.totalMs,
+  isRunning: saved.isRunning,
+  // Re-expressed on this page's clock: the kernel adds the time since
+  capturedAt: epochNow() - msSinceSaved(saved),
+  stoppageBoundarySeconds: saved.stoppageBoundarySeconds ?? null,
+  announcedMinutes: saved.announcedMinutes ?? 0,
+});
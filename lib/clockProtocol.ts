@@ -0,0 +1,315 @@
+// -----------------------------------------------------------------------------
+// Clock Worker Protocol
+// -----------------------------------------------------------------------------
+// The message contract between `MissionClock` (main thread) and
+// `CLOCK_WORKER_SCRIPT`. Commands flow main → worker, events flow back.
+// Bump `CLOCK_PROTOCOL_VERSION` on any breaking change to a payload shape.
+
+import type { ClockStyleConfig } from './MissionClock';
+import type { ClockDirection, ExpiryBehaviour } from './timing';
+import type { ClockTextSurface } from './clockBackend';
+
+export const CLOCK_PROTOCOL_VERSION = 1;
+
+/** Resolved counting options as sent to the worker (see `resolveTargetSeconds`). */
+export interface ClockTiming {
+  direction: ClockDirection;
+  /** Target in seconds, or null if the clock never expires */
+  targetSeconds: number | null;
+  expiryBehaviour: ExpiryBehaviour;
+}
+
+/**
+ * A clock's position on a timeline: enough for another clock to show the same
+ * time. Exchanged between machines via `getTimeline` / `applyTimeline`, with
+ * `capturedAt` on the time server's clock (see `ClockSyncClient`).
+ */
+export interface ClockTimeline {
+  /** Clock value in ms at `capturedAt` */
+  totalMs: number;
+  isRunning: boolean;
+  /**
+   * When `totalMs` was read, in epoch ms (`performance.timeOrigin + performance.now()`),
+   * which both threads share. A running clock is advanced by the time since.
+   * Between machines it is the time server's epoch ms instead.
+   */
+  capturedAt: number;
+}
+
+/**
+ * Where a restarted kernel picks up (see `MissionClock`'s watchdog), or the
+ * timeline a cross-tab follower re-anchors to (see `createClockSync`).
+ */
+export interface ClockResumeState extends ClockTimeline {
+  stoppageBoundarySeconds: number | null;
+  announcedMinutes: number;
+}
+
+/**
+ * Commands accepted by the clock worker.
+ */
+export type ClockCommand =
+  | {
+      type: 'INIT';
+      payload: {
+        /** OffscreenCanvas (worker), canvas element (main thread) or DOM text surface */
+        canvas: OffscreenCanvas | HTMLCanvasElement | ClockTextSurface;
+        config: ClockStyleConfig;
+        initialSeconds: number;
+        timing?: ClockTiming;
+        /** Post a HEARTBEAT this often (ms); omitted means no heartbeats */
+        heartbeatMs?: number;
+        /** Continue from a previous kernel's state instead of `initialSeconds` */
+        resume?: ClockResumeState;
+        /** How far back a stamped command may be applied (ms, default: 1000, see `issuedAt`) */
+        maxInputCompensationMs?: number;
+      };
+    }
+  | { type: 'RESIZE'; payload: { width: number; height: number; dpr: number } }
+  | { type: 'UPDATE_CONFIG'; payload: ClockStyleConfig }
+  | { type: 'UPDATE_TIMING'; payload: ClockTiming }
+  | { type: 'SET_STOPPAGE_BOUNDARY'; payload: { seconds: number | null } }
+  | { type: 'ANNOUNCE_ADDED_TIME'; payload: { minutes: number } }
+  | { type: 'CLEAR_ADDED_TIME' }
+  | { type: 'START' }
+  | { type: 'PAUSE' }
+  | { type: 'SET_TIME'; payload: { seconds: number } }
+  | { type: 'ADJUST_TIME'; payload: { deltaSeconds: number } }
+  /** Jumps to another kernel's timeline (value, running state and boards) */
+  | { type: 'RESUME'; payload: ClockResumeState }
+  | { type: 'GET_STATE' };
+
+export type ClockCommandType = ClockCommand['type'];
+
+/**
+ * A command as it travels over `postMessage`.
+ * `id` is echoed back in the ACK / ERROR reply so the sender can correlate them.
+ * `issuedAt` is when the operator acted, in epoch ms (see `inputEpochMs`):
+ * START, PAUSE and SET_TIME take effect then rather than when they arrive.
+ */
+export type ClockCommandMessage = ClockCommand & { v: number; id?: number; issuedAt?: number };
+
+/**
+ * Why the worker rejected a command.
+ * - `UNSUPPORTED_VERSION`: `v` does not match the worker's protocol version
+ * - `UNKNOWN_TYPE`: not a command the worker knows
+ * - `INVALID_PAYLOAD`: missing fields or non-finite numbers (e.g. NaN seconds)
+ */
+export type ClockErrorCode = 'UNSUPPORTED_VERSION' | 'UNKNOWN_TYPE' | 'INVALID_PAYLOAD';
+
+/** Sent for every command that carries an `id`, once it has been applied. */
+export interface ClockAckMessage {
+  type: 'ACK';
+  v: number;
+  id: number;
+  command: ClockCommandType;
+}
+
+/** Sent for every rejected command. The worker state is left untouched. */
+export interface ClockErrorMessage {
+  type: 'ERROR';
+  v: number;
+  /** The rejected command's id, or null if it had none */
+  id: number | null;
+  /** The rejected command's type, or null if it had none */
+  command: string | null;
+  code: ClockErrorCode;
+  message: string;
+}
+
+/**
+ * The authoritative clock state held by the worker.
+ */
+export interface ClockState {
+  /** Current clock value in ms (unquantised, negative during a countdown overrun) */
+  totalMs: number;
+  /** Value currently painted, quantised to the display precision (null before the first paint) */
+  displayMs: number | null;
+  isRunning: boolean;
+  isExpired: boolean;
+  direction: ClockDirection;
+  targetSeconds: number | null;
+  /** Regulation end while stoppage time is shown, otherwise null */
+  stoppageBoundarySeconds: number | null;
+  /** Minutes on the added-time board (0 when cleared) */
+  announcedMinutes: number;
+}
+
+/**
+ * Posted after every command that changes the clock state and on expiry
+ * (`id: null`), and in reply to `GET_STATE` (`id` of that command).
+ */
+export interface ClockStateMessage {
+  type: 'STATE';
+  v: number;
+  id: number | null;
+  payload: ClockState;
+}
+
+/** A painted second boundary while the clock runs. */
+export interface ClockTick {
+  /** The whole second now shown (e.g. 2700 for "45:00") */
+  seconds: number;
+  /** Exact clock value in ms at the paint */
+  totalMs: number;
+}
+
+export interface ClockTickMessage {
+  type: 'TICK';
+  v: number;
+  payload: ClockTick;
+}
+
+/** The worker's periodic sign of life, carrying its current state. */
+export interface ClockHeartbeat {
+  state: ClockState;
+  /** When `state` was read, in epoch ms (see `ClockResumeState.capturedAt`) */
+  capturedAt: number;
+}
+
+export interface ClockHeartbeatMessage {
+  type: 'HEARTBEAT';
+  v: number;
+  payload: ClockHeartbeat;
+}
+
+/** The clock reached its target. */
+export interface ClockExpiredMessage {
+  type: 'EXPIRED';
+  v: number;
+  payload: { seconds: number };
+}
+
+/** Events posted by the clock worker. */
+export type ClockWorkerMessage =
+  | ClockAckMessage
+  | ClockErrorMessage
+  | ClockExpiredMessage
+  | ClockHeartbeatMessage
+  | ClockStateMessage
+  | ClockTickMessage;
+
+/** A reply to a single command. */
+export type ClockCommandReply = ClockAckMessage | ClockErrorMessage;
+
+/**
+ * Builds the command validator.
+ *
+ * [IMPORTANT] Self-contained like `createTimeFormatter`: its source is embedded
+ * into `CLOCK_WORKER_SCRIPT`, so it must not reference anything outside itself.
+ *
+ * Every command must carry `v`: a sender on another (or the unversioned)
+ * protocol is rejected with UNSUPPORTED_VERSION.
+ */
+export function createClockCommandValidator(version: number) {
+  function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+  }
+
+  function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+  }
+
+  function checkTiming(timing: unknown): string | null {
+    if (!isObject(timing)) return 'timing must be an object';
+    if (timing.direction !== 'up' && timing.direction !== 'down') return "direction must be 'up' or 'down'";
+    if (timing.targetSeconds !== null && !isFiniteNumber(timing.targetSeconds)) return 'targetSeconds must be a finite number or null';
+    if (timing.expiryBehaviour !== 'stop' && timing.expiryBehaviour !== 'overrun') return "expiryBehaviour must be 'stop' or 'overrun'";
+    return null;
+  }
+
+  function checkResume(resume: unknown): string | null {
+    if (!isObject(resume)) return 'resume must be an object';
+    if (!isFiniteNumber(resume.totalMs)) return 'resume.totalMs must be a finite number';
+    if (typeof resume.isRunning !== 'boolean') return 'resume.isRunning must be a boolean';
+    if (!isFiniteNumber(resume.capturedAt)) return 'resume.capturedAt must be a finite number';
+    if (resume.stoppageBoundarySeconds !== null && !isFiniteNumber(resume.stoppageBoundarySeconds)) return 'resume.stoppageBoundarySeconds must be a finite number or null';
+    if (!isFiniteNumber(resume.announcedMinutes)) return 'resume.announcedMinutes must be a finite number';
+    return null;
+  }
+
+  // Returns a description of what is wrong with the payload, or null if it is valid
+  function checkPayload(type: string, payload: unknown): string | null {
+    switch (type) {
+      case 'INIT':
+        if (!isObject(payload)) return 'payload must be an object';
+        if (!isObject(payload.canvas)) return 'canvas is required';
+        if (!isObject(payload.config)) return 'config must be an object';
+        if (!isFiniteNumber(payload.initialSeconds)) return 'initialSeconds must be a finite number';
+        if (payload.heartbeatMs !== undefined && (!isFiniteNumber(payload.heartbeatMs) || payload.heartbeatMs <= 0)) return 'heartbeatMs must be a positive number';
+        if (payload.maxInputCompensationMs !== undefined && (!isFiniteNumber(payload.maxInputCompensationMs) || payload.maxInputCompensationMs < 0)) return 'maxInputCompensationMs must be a non-negative number';
+        if (payload.resume !== undefined) {
+          const problem = checkResume(payload.resume);
+          if (problem) return problem;
+        }
+        return payload.timing === undefined ? null : checkTiming(payload.timing);
+      case 'RESIZE':
+        if (!isObject(payload)) return 'payload must be an object';
+        if (!isFiniteNumber(payload.width) || payload.width < 0) return 'width must be a non-negative number';
+        if (!isFiniteNumber(payload.height) || payload.height < 0) return 'height must be a non-negative number';
+        if (!isFiniteNumber(payload.dpr) || payload.dpr <= 0) return 'dpr must be a positive number';
+        return null;
+      case 'UPDATE_CONFIG':
+        return isObject(payload) ? null : 'payload must be an object';
+      case 'UPDATE_TIMING':
+        return checkTiming(payload);
+      case 'SET_STOPPAGE_BOUNDARY':
+        if (!isObject(payload)) return 'payload must be an object';
+        return payload.seconds === null || isFiniteNumber(payload.seconds) ? null : 'seconds must be a finite number or null';
+      case 'ANNOUNCE_ADDED_TIME':
+        if (!isObject(payload)) return 'payload must be an object';
+        return isFiniteNumber(payload.minutes) ? null : 'minutes must be a finite number';
+      case 'SET_TIME':
+        if (!isObject(payload)) return 'payload must be an object';
+        return isFiniteNumber(payload.seconds) ? null : 'seconds must be a finite number';
+      case 'ADJUST_TIME':
+        if (!isObject(payload)) return 'payload must be an object';
+        return isFiniteNumber(payload.deltaSeconds) ? null : 'deltaSeconds must be a finite number';
+      case 'RESUME':
+        return checkResume(payload);
+      default:
+        return null;
+    }
+  }
+
+  const KNOWN_TYPES = [
+    'INIT', 'RESIZE', 'UPDATE_CONFIG', 'UPDATE_TIMING', 'SET_STOPPAGE_BOUNDARY',
+    'ANNOUNCE_ADDED_TIME', 'CLEAR_ADDED_TIME', 'START', 'PAUSE', 'SET_TIME', 'ADJUST_TIME',
+    'RESUME', 'GET_STATE'
+  ];
+
+  /** Returns null for a valid command, or the code and reason it must be rejected. */
+  function validate(message: unknown): { code: ClockErrorCode; message: string } | null {
+    if (!isObject(message) || typeof message.type !== 'string') {
+      return { code: 'UNKNOWN_TYPE', message: 'message has no type' };
+    }
+    if (message.v !== version) {
+      const got = message.v === undefined ? 'an unversioned message' : 'v' + String(message.v);
+      return { code: 'UNSUPPORTED_VERSION', message: 'expected protocol v' + version + ', got ' + got };
+    }
+    if (KNOWN_TYPES.indexOf(message.type) === -1) {
+      return { code: 'UNKNOWN_TYPE', message: 'unknown command ' + message.type };
+    }
+    if (message.issuedAt !== undefined && !isFiniteNumber(message.issuedAt)) {
+      return { code: 'INVALID_PAYLOAD', message: message.type + ': issuedAt must be a finite number' };
+    }
+    const problem = checkPayload(message.type, message.payload);
+    return problem ? { code: 'INVALID_PAYLOAD', message: message.type + ': ' + problem } : null;
+  }
+
+  return { validate };
+}
+
+const validator = createClockCommandValidator(CLOCK_PROTOCOL_VERSION);
+
+/**
+ * Checks a command the same way the worker does before posting it.
+ *
+ * @example
+ * ```ts
+ * validateClockCommand({ type: 'SET_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: NaN } });
+ * // { code: 'INVALID_PAYLOAD', message: 'SET_TIME: seconds must be a finite number' }
+ * ```
+ */
+export const validateClockCommand = (message: unknown): { code: ClockErrorCode; message: string } | null =>
+  validator.validate(message);
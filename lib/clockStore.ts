@@ -0,0 +1,348 @@
+/**
+ * ============================================================================
+ * MODULE: Clock Store (Single Timing Authority)
+ * * Used by: MissionClock, useBroadcastMatchTimer (opt-in via `store`)
+ * * OWNS: the time model (value, anchor, timing, boards, expiry)
+ * * RENDERERS: only read the store's anchor, so they can never disagree
+ * ============================================================================
+ */
+
+import { CLOCK_PROTOCOL_VERSION, ClockCommand, ClockErrorCode, ClockResumeState, ClockTiming, validateClockCommand } from './clockProtocol';
+import { resumeValueAt } from './clockSync';
+import { epochNow } from './clockWatchdog';
+import { DEFAULT_MAX_INPUT_COMPENSATION_MS, InputTimestamp, compensatedNow, inputEpochMs } from './inputLatency';
+import { CountdownOptions, resolveTargetSeconds } from './timing';
+import { ClockHistory, ClockHistoryEntry, DEFAULT_HISTORY_LIMIT } from './clockHistory';
+
+/**
+ * The whole time model after a command. Immutable: each command produces a new
+ * anchor, and every renderer computes `totalMs ± (now - capturedAt)` from it.
+ */
+export interface ClockAnchor extends ClockResumeState {
+  /** Incremented by every command that changed something */
+  revision: number;
+  timing: ClockTiming;
+  isExpired: boolean;
+}
+
+/**
+ * Options for `createClockStore`.
+ */
+export interface ClockStoreOptions extends CountdownOptions {
+  /** Starting value in seconds (default: 0) */
+  initialSeconds?: number;
+  /** How far back a stamped command may be applied (ms, default: 1000, see `inputEpochMs`) */
+  maxInputCompensationMs?: number;
+  /** Called once each time the clock reaches its target */
+  onExpired?: () => void;
+  /** How many setTime / adjustTime changes can be undone (default: 50) */
+  historyLimit?: number;
+}
+
+/** Receives each command the store applied (see `subscribeCommands`). */
+export type ClockCommandListener = (command: ClockCommand, previous: ClockAnchor, issuedAt: number | undefined) => void;
+
+// Commands that change the time model; the rest (INIT, RESIZE, UPDATE_CONFIG,
+// GET_STATE) belong to each renderer
+export const STORE_COMMANDS: readonly ClockCommand['type'][] = [
+  'START', 'PAUSE', 'SET_TIME', 'ADJUST_TIME', 'UPDATE_TIMING', 'RESUME',
+  'SET_STOPPAGE_BOUNDARY', 'ANNOUNCE_ADDED_TIME', 'CLEAR_ADDED_TIME'
+];
+
+// Same bound as the kernel's added-time board
+const MAX_ANNOUNCED_MINUTES = 30;
+
+/** The clock value (ms) an anchor shows at `epochMs`. */
+export const anchorValueAt = (anchor: ClockAnchor, epochMs: number): number =>
+  resumeValueAt(anchor, epochMs, anchor.timing.direction);
+
+const hasReachedTarget = (timing: ClockTiming, totalMs: number): boolean => {
+  if (timing.targetSeconds === null) return false;
+  const targetMs = timing.targetSeconds * 1000;
+  return timing.direction === 'down' ? totalMs <= targetMs : totalMs >= targetMs;
+};
+
+/**
+ * Creates the single timing authority for one clock. Commands go to the store;
+ * `MissionClock`, `useBroadcastMatchTimer` and anything else subscribed re-anchor
+ * to the same `ClockAnchor` after each one, instead of keeping anchors of their
+ * own that drift apart under rapid commands.
+ *
+ * @example
+ * ```tsx
+ * const store = useClockStore({ initialSeconds: 0 });
+ *
+ * <MissionClock store={store} />
+ * const { isRunning } = useBroadcastMatchTimer(0, { store });
+ *
+ * <button onClick={store.start}>Start</button>
+ * ```
+ */
+export const createClockStore = (options: ClockStoreOptions = {}) => {
+  const direction = options.direction ?? 'up';
+  const maxCompensationMs = options.maxInputCompensationMs ?? DEFAULT_MAX_INPUT_COMPENSATION_MS;
+  const timing: ClockTiming = {
+    direction,
+    targetSeconds: resolveTargetSeconds(direction, options.targetSeconds),
+    expiryBehaviour: options.expiryBehaviour ?? 'stop'
+  };
+  const initialMs = (options.initialSeconds ?? 0) * 1000;
+
+  let anchor: ClockAnchor = {
+    revision: 0,
+    totalMs: initialMs,
+    isRunning: false,
+    capturedAt: epochNow(),
+    stoppageBoundarySeconds: null,
+    announcedMinutes: 0,
+    timing,
+    isExpired: hasReachedTarget(timing, initialMs)
+  };
+  const listeners = new Set<() => void>();
+  const commandListeners = new Set<ClockCommandListener>();
+  // The command being applied, reported before the listeners run: a listener
+  // that dispatches (a cue action) must not get its command reported first
+  let applying: { command: ClockCommand; previous: ClockAnchor; issuedAt: number | undefined } | null = null;
+  const history = new ClockHistory(options.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+  // The ADJUST_TIME an undo / redo sends, which must not be recorded as a new change
+  let historyCommand: ClockCommand | null = null;
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const valueAt = (epochMs: number = epochNow()) => anchorValueAt(anchor, epochMs);
+
+  // When a running clock reaches its target, in epoch ms (null if it never will)
+  const expiryAt = (): number | null => {
+    const { timing } = anchor;
+    if (!anchor.isRunning || anchor.isExpired || timing.targetSeconds === null) return null;
+    const remainingMs = timing.direction === 'down'
+      ? anchor.totalMs - timing.targetSeconds * 1000
+      : timing.targetSeconds * 1000 - anchor.totalMs;
+    return anchor.capturedAt + Math.max(0, remainingMs);
+  };
+
+  const reportCommand = () => {
+    if (!applying) return;
+    const { command, previous, issuedAt } = applying;
+    applying = null;
+    if ((command.type === 'SET_TIME' || command.type === 'ADJUST_TIME') && command !== historyCommand) {
+      const now = epochNow();
+      history.record({ command: command.type, deltaMs: valueAt(now) - anchorValueAt(previous, now), appliedAt: now });
+    }
+    commandListeners.forEach(listener => listener(command, previous, issuedAt));
+  };
+
+  const commit = (next: Omit<ClockAnchor, 'revision'>) => {
+    anchor = { ...next, revision: anchor.revision + 1 };
+    armExpiry();
+    reportCommand();
+    listeners.forEach(listener => listener());
+  };
+
+  // Applies an expiry that is due. Runs before every command, so a late timer
+  // cannot let a PAUSE freeze the clock past its target.
+  const settleExpiry = (now: number) => {
+    const at = expiryAt();
+    if (at === null || now < at) return;
+
+    const targetMs = anchor.timing.targetSeconds! * 1000;
+    commit(anchor.timing.expiryBehaviour === 'stop'
+      // Frozen at the exact moment of expiry, not when the timer noticed
+      ? { ...anchor, totalMs: targetMs, isRunning: false, capturedAt: at, isExpired: true }
+      : { ...anchor, isExpired: true });
+    options.onExpired?.();
+  };
+
+  const armExpiry = () => {
+    if (expiryTimer !== null) clearTimeout(expiryTimer);
+    expiryTimer = null;
+    const at = expiryAt();
+    if (at === null) return;
+    expiryTimer = setTimeout(() => {
+      expiryTimer = null;
+      settleExpiry(epochNow());
+    }, Math.max(0, at - epochNow()));
+  };
+
+  // Epoch ms at which a command stamped `issuedAt` takes effect (see `compensatedNow`)
+  const effectiveAt = (issuedAt: number | undefined): number => {
+    const now = performance.now();
+    return performance.timeOrigin + (issuedAt === undefined ? now : compensatedNow(issuedAt, maxCompensationMs, now));
+  };
+
+  // Re-expresses the anchor at `at`, e.g. before changing the direction
+  const rebased = (at: number) => ({ ...anchor, totalMs: valueAt(at), capturedAt: at });
+
+  // Moves the clock by an undone / redone offset
+  const shiftBy = (entry: ClockHistoryEntry | null, sign: 1 | -1): ClockHistoryEntry | null => {
+    if (!entry) return null;
+    historyCommand = { type: 'ADJUST_TIME', payload: { deltaSeconds: sign * entry.deltaMs / 1000 } };
+    dispatch(historyCommand);
+    historyCommand = null;
+    return entry;
+  };
+
+  const apply = (command: ClockCommand, issuedAt: number | undefined) => {
+    const now = epochNow();
+    switch (command.type) {
+      case 'START': {
+        if (anchor.isRunning) return;
+        // A stopped clock sitting on its target stays there until the time is changed
+        if (anchor.timing.expiryBehaviour === 'stop' && hasReachedTarget(anchor.timing, anchor.totalMs)) return;
+        commit({ ...anchor, isRunning: true, capturedAt: effectiveAt(issuedAt) });
+        // A start compensated into the past may already be beyond the target
+        settleExpiry(now);
+        return;
+      }
+      case 'PAUSE': {
+        if (!anchor.isRunning) return;
+        commit({ ...rebased(effectiveAt(issuedAt)), isRunning: false });
+        return;
+      }
+      case 'SET_TIME': {
+        const totalMs = command.payload.seconds * 1000;
+        commit({
+          ...anchor,
+          totalMs,
+          capturedAt: anchor.isRunning ? effectiveAt(issuedAt) : now,
+          isExpired: hasReachedTarget(anchor.timing, totalMs)
+        });
+        return;
+      }
+      case 'ADJUST_TIME': {
+        // Shifts the whole timeline, so the anchor moment stays the same
+        const next = { ...anchor, totalMs: anchor.totalMs + command.payload.deltaSeconds * 1000 };
+        commit({ ...next, isExpired: hasReachedTarget(anchor.timing, anchorValueAt(next, now)) });
+        return;
+      }
+      case 'UPDATE_TIMING': {
+        const next = rebased(now);
+        commit({ ...next, timing: command.payload, isExpired: hasReachedTarget(command.payload, next.totalMs) });
+        return;
+      }
+      case 'RESUME': {
+        const next = { ...anchor, ...command.payload };
+        commit({ ...next, isExpired: hasReachedTarget(anchor.timing, anchorValueAt(next, now)) });
+        settleExpiry(now);
+        return;
+      }
+      case 'SET_STOPPAGE_BOUNDARY':
+        commit({ ...anchor, stoppageBoundarySeconds: command.payload.seconds });
+        return;
+      case 'ANNOUNCE_ADDED_TIME':
+        commit({ ...anchor, announcedMinutes: Math.max(0, Math.min(MAX_ANNOUNCED_MINUTES, Math.floor(command.payload.minutes))) });
+        return;
+      case 'CLEAR_ADDED_TIME':
+        commit({ ...anchor, announcedMinutes: 0 });
+        return;
+    }
+  };
+
+  /**
+   * Applies a protocol command to the time model. Returns the same error the
+   * kernel would for an invalid command (the model is left untouched), or null.
+   * Renderer-only commands (RESIZE, UPDATE_CONFIG...) are ignored.
+   */
+  const dispatch = (
+    command: ClockCommand,
+    issuedAt?: number
+  ): { code: ClockErrorCode; message: string } | null => {
+    // Commands are applied in-process, so they always speak the current version
+    const error = validateClockCommand({ ...command, v: CLOCK_PROTOCOL_VERSION });
+    if (error) return error;
+    if (!STORE_COMMANDS.includes(command.type)) return null;
+    settleExpiry(epochNow());
+    applying = { command, previous: anchor, issuedAt };
+    apply(command, issuedAt);
+    reportCommand(); // A no-op command commits nothing
+    return null;
+  };
+
+  return {
+    /** The current anchor (a new object after every change) */
+    getAnchor: () => anchor,
+    /** The clock value in ms at `epochMs` (default: now) */
+    valueAt,
+    getDirection: () => anchor.timing.direction,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      // [FIX] Strict Mode disposes and re-subscribes: bring the expiry timer back
+      if (expiryTimer === null) armExpiry();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /**
+     * Called after every valid command, no-ops included, with the anchor it
+     * was applied to (e.g. for an audit log). `getAnchor()` is the result.
+     */
+    subscribeCommands: (listener: ClockCommandListener) => {
+      commandListeners.add(listener);
+      return () => {
+        commandListeners.delete(listener);
+      };
+    },
+    dispatch,
+    start: (input?: InputTimestamp) => {
+      dispatch({ type: 'START' }, inputEpochMs(input));
+    },
+    pause: (input?: InputTimestamp) => {
+      dispatch({ type: 'PAUSE' }, inputEpochMs(input));
+    },
+    setTime: (seconds: number, input?: InputTimestamp) => {
+      dispatch({ type: 'SET_TIME', payload: { seconds } }, inputEpochMs(input));
+    },
+    adjustTime: (deltaSeconds: number, input?: InputTimestamp) => {
+      dispatch({ type: 'ADJUST_TIME', payload: { deltaSeconds } }, inputEpochMs(input));
+    },
+    setTiming: (countdown: CountdownOptions) => {
+      const nextDirection = countdown.direction ?? 'up';
+      dispatch({
+        type: 'UPDATE_TIMING',
+        payload: {
+          direction: nextDirection,
+          targetSeconds: resolveTargetSeconds(nextDirection, countdown.targetSeconds),
+          expiryBehaviour: countdown.expiryBehaviour ?? 'stop'
+        }
+      });
+    },
+    setStoppageBoundary: (seconds: number | null) => {
+      dispatch({ type: 'SET_STOPPAGE_BOUNDARY', payload: { seconds } });
+    },
+    announceAddedTime: (minutes: number) => {
+      dispatch({ type: 'ANNOUNCE_ADDED_TIME', payload: { minutes } });
+    },
+    clearAddedTime: () => {
+      dispatch({ type: 'CLEAR_ADDED_TIME' });
+    },
+    /**
+     * Reverts the latest setTime / adjustTime by moving the clock back by the
+     * amount it moved, so the time that has run since is kept.
+     * @returns the undone change, or null if there is none
+     */
+    undo: (): ClockHistoryEntry | null => shiftBy(history.takeUndo(), -1),
+    /** Re-applies the latest undone change. */
+    redo: (): ClockHistoryEntry | null => shiftBy(history.takeRedo(), 1),
+    /** The undo / redo stacks (changes with every recorded, undone or redone command) */
+    getHistory: () => history.getState(),
+    clearHistory: () => {
+      history.clear();
+      listeners.forEach(listener => listener());
+    },
+    /** Cancels the expiry timer (until the next command or subscriber). Renderers keep the last anchor. */
+    dispose: () => {
+      if (expiryTimer !== null) clearTimeout(expiryTimer);
+      expiryTimer = null;
+    },
+  };
+};
+
+export type ClockStore = ReturnType<typeof createClockStore>;
+
+/** The anchor as the kernel's RESUME payload. */
+export const anchorToResume = (anchor: ClockAnchor): ClockResumeState => ({
+  totalMs: anchor.totalMs,
+  isRunning: anchor.isRunning,
+  capturedAt: anchor.capturedAt,
+  stoppageBoundarySeconds: anchor.stoppageBoundarySeconds,
+  announcedMinutes: anchor.announcedMinutes,
+});
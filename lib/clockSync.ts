@@ -0,0 +1,202 @@
+/**
+ * ============================================================================
+ * MODULE: Cross-Tab Clock Sync
+ * * Used by: MissionClock (opt-in via `sync`)
+ * * TRANSPORT: BroadcastChannel (same origin, same machine)
+ * * LEADERSHIP: oldest live instance; fails over on close or silence
+ * ============================================================================
+ */
+
+import type { ClockCommand, ClockResumeState } from './clockProtocol';
+
+/**
+ * Cross-tab sync settings. Every clock with the same `channel` shares one timeline.
+ */
+export interface ClockSyncOptions {
+  /** Channel name shared by the synchronised clocks (e.g. 'main-clock') */
+  channel: string;
+  /** How often each instance announces itself, and the leader its timeline (ms, default: 500) */
+  heartbeatMs?: number;
+  /** Silence after which an instance counts as gone (ms, default: 2000) */
+  timeoutMs?: number;
+}
+
+/**
+ * - `leader`: applies every command and publishes the timeline
+ * - `follower`: forwards its commands to the leader and re-anchors to its timeline
+ */
+export type ClockSyncRole = 'leader' | 'follower';
+
+type SyncMessage =
+  | { type: 'HELLO'; from: string; since: number }
+  | { type: 'PRESENCE'; from: string; since: number; state: ClockResumeState | null }
+  | { type: 'COMMAND'; from: string; to: string; command: ClockCommand; issuedAt?: number }
+  | { type: 'BYE'; from: string };
+
+export interface ClockSyncCallbacks {
+  /** The leader's timeline to publish, or null if it has not reported yet */
+  getState: () => ClockResumeState | null;
+  /** Leader only: a command issued in a follower tab, and when (see `inputEpochMs`) */
+  onRemoteCommand: (command: ClockCommand, issuedAt?: number) => void;
+  /** Follower only: the leader's current timeline */
+  onLeaderState: (state: ClockResumeState) => void;
+  onRoleChange: (role: ClockSyncRole) => void;
+}
+
+const CHANNEL_PREFIX = 'dnm-clock-sync:';
+
+/** Commands that change the shared timeline (display and timing props stay per tab). */
+export const SYNCED_COMMANDS: readonly ClockCommand['type'][] = [
+  'START', 'PAUSE', 'SET_TIME', 'ADJUST_TIME',
+  'SET_STOPPAGE_BOUNDARY', 'ANNOUNCE_ADDED_TIME', 'CLEAR_ADDED_TIME'
+];
+
+/**
+ * The clock value (ms) a timeline shows at `epochMs`.
+ *
+ * @example
+ * ```ts
+ * const state = { totalMs: 1000, isRunning: true, capturedAt: t, ... };
+ * resumeValueAt(state, t + 500, 'up'); // 1500
+ * ```
+ */
+export const resumeValueAt = (state: ClockResumeState, epochMs: number, direction: 'up' | 'down'): number => {
+  if (!state.isRunning) return state.totalMs;
+  const elapsedMs = epochMs - state.capturedAt;
+  return direction === 'down' ? state.totalMs - elapsedMs : state.totalMs + elapsedMs;
+};
+
+// Followers re-anchor when they are further than this from the leader's timeline
+const SYNC_TOLERANCE_MS = 10;
+
+/** Whether a follower's timeline matches the leader's closely enough to leave it alone. */
+export const isOnTimeline = (
+  local: ClockResumeState,
+  leader: ClockResumeState,
+  direction: 'up' | 'down',
+  epochMs: number
+): boolean =>
+  local.isRunning === leader.isRunning &&
+  local.stoppageBoundarySeconds === leader.stoppageBoundarySeconds &&
+  local.announcedMinutes === leader.announcedMinutes &&
+  Math.abs(resumeValueAt(local, epochMs, direction) - resumeValueAt(leader, epochMs, direction)) <= SYNC_TOLERANCE_MS;
+
+/**
+ * Joins a sync channel. Instances elect the oldest live member as leader
+ * (ties broken by id), so every tab reaches the same answer without a vote.
+ * A tab that closes says BYE; one that crashes is dropped after `timeoutMs`.
+ *
+ * @returns null if BroadcastChannel is unavailable (the clock runs unsynchronised)
+ */
+export const createClockSync = (options: ClockSyncOptions, callbacks: ClockSyncCallbacks) => {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.error('Clock sync unavailable: BroadcastChannel is not supported');
+    return null;
+  }
+
+  const heartbeatMs = options.heartbeatMs ?? 500;
+  const timeoutMs = options.timeoutMs ?? 2000;
+  const id = Math.random().toString(36).slice(2) + Date.now().toString(36);
+  // Wall clock, so join order compares across tabs
+  const since = Date.now();
+  const peers = new Map<string, { since: number; lastSeen: number }>();
+  const channel = new BroadcastChannel(CHANNEL_PREFIX + options.channel);
+  let leaderId = id;
+  let role: ClockSyncRole = 'leader';
+  let closed = false;
+
+  const post = (message: SyncMessage) => channel.postMessage(message);
+
+  const isOlder = (a: { id: string; since: number }, b: { id: string; since: number }) =>
+    a.since !== b.since ? a.since < b.since : a.id < b.id;
+
+  const electLeader = () => {
+    let best = { id, since };
+    peers.forEach((peer, peerId) => {
+      const candidate = { id: peerId, since: peer.since };
+      if (isOlder(candidate, best)) best = candidate;
+    });
+    leaderId = best.id;
+
+    const nextRole: ClockSyncRole = leaderId === id ? 'leader' : 'follower';
+    if (nextRole === role) return;
+    role = nextRole;
+    callbacks.onRoleChange(role);
+    // A new leader's timeline is already the shared one: announce it at once
+    if (role === 'leader') announce();
+  };
+
+  const announce = () => post({
+    type: 'PRESENCE',
+    from: id,
+    since,
+    state: role === 'leader' ? callbacks.getState() : null
+  });
+
+  const seen = (peerId: string, peerSince: number) => {
+    peers.set(peerId, { since: peerSince, lastSeen: performance.now() });
+  };
+
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+    const message = e.data;
+    if (closed || !message || message.from === id) return;
+
+    switch (message.type) {
+      case 'HELLO':
+        seen(message.from, message.since);
+        electLeader();
+        announce();
+        break;
+      case 'PRESENCE':
+        seen(message.from, message.since);
+        electLeader();
+        if (message.from === leaderId && message.state) callbacks.onLeaderState(message.state);
+        break;
+      case 'COMMAND':
+        // Addressed to one leader, so a tab that has not caught up on a failover cannot apply it twice
+        if (message.to === id && role === 'leader') callbacks.onRemoteCommand(message.command, message.issuedAt);
+        break;
+      case 'BYE':
+        peers.delete(message.from);
+        electLeader();
+        break;
+    }
+  };
+
+  const heartbeat = window.setInterval(() => {
+    const now = performance.now();
+    peers.forEach((peer, peerId) => {
+      if (now - peer.lastSeen > timeoutMs) peers.delete(peerId);
+    });
+    electLeader();
+    announce();
+  }, heartbeatMs);
+
+  // [FIX] Unmount does not run when a tab closes: say goodbye on pagehide too
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    window.clearInterval(heartbeat);
+    window.removeEventListener('pagehide', close);
+    post({ type: 'BYE', from: id });
+    channel.close();
+  };
+  window.addEventListener('pagehide', close);
+
+  post({ type: 'HELLO', from: id, since });
+
+  return {
+    getRole: () => role,
+    /** Leader: publishes the timeline now (after a change) rather than on the next heartbeat */
+    publish: () => {
+      if (role === 'leader') announce();
+    },
+    /** Follower: forwards a command to the leader. Returns false if this tab is the leader. */
+    forward: (command: ClockCommand, issuedAt?: number) => {
+      if (role === 'leader') return false;
+      post({ type: 'COMMAND', from: id, to: leaderId, command, issuedAt });
+      return true;
+    },
+    close,
+  };
+};
@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * MODULE: Clock Worker Watchdog
+ * * Used by: MissionClock
+ * * DETECTS: worker errors (onerror / onmessageerror) and missed heartbeats
+ * ============================================================================
+ */
+
+import type { ClockBackend } from './clockBackend';
+import type { ClockResumeState, ClockState } from './clockProtocol';
+
+/**
+ * Watchdog settings for `MissionClock` (all in ms except `maxRestarts`).
+ */
+export interface ClockWatchdogOptions {
+  /** How often the worker posts a HEARTBEAT (default: 1000) */
+  heartbeatMs: number;
+  /** Silence after which the worker counts as hung and is restarted (default: 3000) */
+  timeoutMs: number;
+  /** Restarts before giving up on the worker and rendering on the main thread (default: 3) */
+  maxRestarts: number;
+}
+
+export const DEFAULT_WATCHDOG_OPTIONS: ClockWatchdogOptions = {
+  heartbeatMs: 1000,
+  timeoutMs: 3000,
+  maxRestarts: 3,
+};
+
+/**
+ * - `starting`: mounted, the kernel has not reported yet
+ * - `healthy`: the kernel is reporting
+ * - `recovering`: a failure was detected and the backend re-created; waiting for it to report
+ */
+export type ClockHealthStatus = 'starting' | 'healthy' | 'recovering';
+
+/**
+ * Reported through `onHealthChange` whenever the status, backend or restart count changes.
+ */
+export interface ClockHealth {
+  status: ClockHealthStatus;
+  /** The backend in use, or null while unmounted */
+  backend: ClockBackend | null;
+  /** Restarts since mount */
+  restarts: number;
+  /** `performance.now()` of the last heartbeat received, or null */
+  lastHeartbeatAt: number | null;
+  /** Why the last restart happened, or null */
+  lastError: string | null;
+}
+
+/** Epoch ms on the high-resolution clock: comparable between the main thread and workers. */
+export const epochNow = (): number => performance.timeOrigin + performance.now();
+
+/** Where a restarted kernel should continue from the last state it reported. */
+export const toResumeState = (state: ClockState, capturedAt: number): ClockResumeState => ({
+  totalMs: state.totalMs,
+  isRunning: state.isRunning,
+  capturedAt,
+  stoppageBoundarySeconds: state.stoppageBoundarySeconds,
+  announcedMinutes: state.announcedMinutes,
+});
+
+/**
+ * Calls `onTimeout` once if `beat()` is not called within `timeoutMs`.
+ *
+ * [FIX] A timer that fires long after it was due means the main thread itself
+ * was blocked, and the heartbeats are probably still queued behind it. The
+ * worker gets another full window instead of being restarted for our stall.
+ *
+ * @example
+ * ```ts
+ * const monitor = createHeartbeatMonitor(3000, () => restart('no heartbeat'));
+ * worker.onmessage = (e) => { if (e.data.type === 'HEARTBEAT') monitor.beat(); };
+ * ```
+ */
+export const createHeartbeatMonitor = (timeoutMs: number, onTimeout: () => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let armedAt = 0;
+
+  const arm = () => {
+    if (timer !== null) clearTimeout(timer);
+    armedAt = performance.now();
+    timer = setTimeout(() => {
+      timer = null;
+      if (performance.now() - armedAt > timeoutMs * 1.5) {
+        arm();
+        return;
+      }
+      onTimeout();
+    }, timeoutMs);
+  };
+  arm();
+
+  return {
+    beat: arm,
+    dispose: () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
@@ -0,0 +1,9 @@
+/**
+ * Entry point of the standalone `<mission-clock>` build (no React, see
+ * vite.element.config.ts). Loading it registers the element.
+ */
+import { defineMissionClockElement } from './missionClockElement';
+
+export { MissionClockElement, MISSION_CLOCK_TAG, defineMissionClockElement } from './missionClockElement';
+
+defineMissionClockElement();
@@ -0,0 +1,314 @@
+/**
+ * ============================================================================
+ * MODULE: Hotkeys
+ * * Used by: useHotkeys (React), the App control deck
+ * * BINDINGS: one key chord per command, remappable, persisted
+ * * QUEUED INPUT: keys pressed while the main thread is blocked are delivered
+ *   late, in order; each command is applied at its own key's `timeStamp`
+ * ============================================================================
+ */
+
+import type { InputTimestamp } from './inputLatency';
+
+// -----------------------------------------------------------------------------
+// 1. Commands & Bindings
+// -----------------------------------------------------------------------------
+
+export type HotkeyCommand =
+  | 'startPause'
+  | 'reset'
+  | 'nextPeriod'
+  | 'secondBack'
+  | 'secondForward'
+  | 'minuteBack'
+  | 'minuteForward'
+  | 'hourBack'
+  | 'hourForward'
+  | 'undo'
+  | 'redo';
+
+export interface HotkeyCommandDefinition {
+  label: string;
+  /**
+   * Whether holding the key repeats the command. Only small nudges do: a
+   * repeating start/pause would toggle back and forth, a repeating reset
+   * or period preset would keep re-anchoring the clock.
+   */
+  repeat: boolean;
+}
+
+export const HOTKEY_COMMANDS: Record<HotkeyCommand, HotkeyCommandDefinition> = {
+  startPause: { label: 'Start / Pause', repeat: false },
+  reset: { label: 'Reset', repeat: false },
+  nextPeriod: { label: 'Next Period', repeat: false },
+  secondBack: { label: '-1s', repeat: true },
+  secondForward: { label: '+1s', repeat: true },
+  minuteBack: { label: '-1m', repeat: true },
+  minuteForward: { label: '+1m', repeat: true },
+  hourBack: { label: '-1h', repeat: false },
+  hourForward: { label: '+1h', repeat: false },
+  undo: { label: 'Undo', repeat: false },
+  redo: { label: 'Redo', repeat: false },
+};
+
+const COMMAND_IDS = Object.keys(HOTKEY_COMMANDS) as HotkeyCommand[];
+
+/**
+ * The chord for each command (null: unbound). A chord is the physical key
+ * (`KeyboardEvent.code`, so it does not move with the keyboard layout) after
+ * its modifiers, e.g. 'Space', 'Shift+ArrowUp', 'Ctrl+KeyZ'.
+ */
+export type HotkeyBindings = Record<HotkeyCommand, string | null>;
+
+export const DEFAULT_HOTKEY_BINDINGS: HotkeyBindings = {
+  startPause: 'Space',
+  reset: 'Shift+KeyR',
+  nextPeriod: 'Shift+KeyN',
+  secondBack: 'ArrowLeft',
+  secondForward: 'ArrowRight',
+  minuteBack: 'ArrowDown',
+  minuteForward: 'ArrowUp',
+  hourBack: 'Shift+ArrowDown',
+  hourForward: 'Shift+ArrowUp',
+  undo: 'Ctrl+KeyZ',
+  redo: 'Ctrl+Shift+KeyZ',
+};
+
+/** What each command does. The key event is passed as the command's input time. */
+export type HotkeyHandlers = Partial<Record<HotkeyCommand, (input: InputTimestamp) => void>>;
+
+/** Where remapped bindings are kept. */
+export interface HotkeyStorage {
+  load: () => Partial<HotkeyBindings> | null;
+  save: (bindings: HotkeyBindings) => void;
+}
+
+export interface HotkeyLayerOptions {
+  /** Default: `localStorageHotkeyStorage`; null keeps the bindings for this page only */
+  storage?: HotkeyStorage | null;
+  /** Where keys are listened for (default: window) */
+  target?: EventTarget;
+}
+
+/** The bindings, and the command waiting for a new key (see `capture`). */
+export interface HotkeyLayerState {
+  bindings: HotkeyBindings;
+  capturing: HotkeyCommand | null;
+}
+
+const STORAGE_KEY = 'dnm-clock:hotkeys';
+
+/** Stores the bindings as JSON under `dnm-clock:hotkeys`. */
+export const localStorageHotkeyStorage: HotkeyStorage = {
+  load: () => {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw === null ? null : JSON.parse(raw);
+  },
+  save: (bindings) => window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings)),
+};
+
+// -----------------------------------------------------------------------------
+// 2. Key Chords
+// -----------------------------------------------------------------------------
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'
+]);
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+/**
+ * The chord of a key event, or null for a lone modifier.
+ *
+ * @example
+ * ```ts
+ * chordFromEvent(new KeyboardEvent('keydown', { code: 'ArrowUp', shiftKey: true })); // 'Shift+ArrowUp'
+ * ```
+ */
+export const chordFromEvent = (
+  event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>
+): string | null => {
+  if (!event.code || MODIFIER_CODES.has(event.code)) return null;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta'
+  ].filter(Boolean);
+  return [...modifiers, event.code].join('+');
+};
+
+/** A chord for display: 'Shift+ArrowUp' → 'Shift+↑', 'Ctrl+KeyZ' → 'Ctrl+Z'. */
+export const describeChord = (chord: string | null): string => {
+  if (!chord) return '—';
+  return chord
+    .split('+')
+    .map(part => KEY_SYMBOLS[part] ?? part.replace(/^(Key|Digit)/, ''))
+    .join('+');
+};
+
+// Typing a label must not start the clock
+const isEditable = (target: EventTarget | null): boolean =>
+  typeof HTMLElement !== 'undefined' && target instanceof HTMLElement &&
+  (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+// Storage is written by other tabs, older versions and users: never trust it
+const loadBindings = (storage: HotkeyStorage | null): HotkeyBindings => {
+  let stored: Partial<HotkeyBindings> | null = null;
+  try {
+    stored = storage?.load() ?? null;
+  } catch (err) {
+    console.error('Hotkey bindings could not be restored:', err);
+  }
+  if (typeof stored !== 'object' || stored === null) return { ...DEFAULT_HOTKEY_BINDINGS };
+
+  const bindings = { ...DEFAULT_HOTKEY_BINDINGS };
+  const remapped = COMMAND_IDS.filter(command => typeof stored[command] === 'string' || stored[command] === null);
+  remapped.forEach(command => { bindings[command] = stored[command]; });
+  // A default added since the save gives way to a key the operator chose
+  COMMAND_IDS
+    .filter(command => !remapped.includes(command))
+    .forEach(command => {
+      if (remapped.some(other => bindings[other] === bindings[command])) bindings[command] = null;
+    });
+  return bindings;
+};
+
+// -----------------------------------------------------------------------------
+// 3. The Hotkey Layer
+// -----------------------------------------------------------------------------
+
+/**
+ * Runs commands from the keyboard. `getHandlers` is read on every key, so it
+ * may return the latest actions of a re-rendering component.
+ *
+ * Each handler receives its key event: the command takes effect when the key
+ * was pressed (see `InputTimestamp`), even if a blocked main thread delivers
+ * it seconds later. Keys pressed in an input field are left alone.
+ *
+ * @example
+ * ```ts
+ * const hotkeys = createHotkeyLayer(() => ({
+ *   startPause: (input) => (store.getAnchor().isRunning ? store.pause(input) : store.start(input)),
+ *   minuteForward: (input) => store.adjustTime(60, input),
+ * }));
+ * hotkeys.attach();
+ * hotkeys.capture('startPause'); // the next key pressed becomes Start / Pause
+ * ```
+ */
+export const createHotkeyLayer = (
+  getHandlers: () => HotkeyHandlers,
+  options: HotkeyLayerOptions = {}
+) => {
+  const storage = options.storage === undefined ? localStorageHotkeyStorage : options.storage;
+  const listeners = new Set<() => void>();
+  let state: HotkeyLayerState = { bindings: loadBindings(storage), capturing: null };
+  let attachedTo: EventTarget | null = null;
+
+  const update = (next: Partial<HotkeyLayerState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const commandFor = (chord: string | null): HotkeyCommand | null =>
+    chord === null ? null : COMMAND_IDS.find(command => state.bindings[command] === chord) ?? null;
+
+  const saveBindings = (bindings: HotkeyBindings) => {
+    try {
+      storage?.save(bindings);
+    } catch (err) {
+      console.error('Hotkey bindings could not be saved:', err);
+    }
+  };
+
+  /** Binds `chord` to `command` (null unbinds). A key does one thing: it is taken from any other command. */
+  const setBinding = (command: HotkeyCommand, chord: string | null) => {
+    const bindings = { ...state.bindings };
+    if (chord !== null) {
+      COMMAND_IDS.forEach(other => {
+        if (bindings[other] === chord) bindings[other] = null;
+      });
+    }
+    bindings[command] = chord;
+    saveBindings(bindings);
+    update({ bindings, capturing: null });
+  };
+
+  /**
+   * Handles a keydown. Returns true if it was a hotkey (its default action,
+   * e.g. Space scrolling the page, is prevented).
+   */
+  const handleKeyDown = (event: KeyboardEvent): boolean => {
+    if (state.capturing) {
+      if (event.code === 'Escape') {
+        event.preventDefault();
+        update({ capturing: null });
+        return true;
+      }
+      const chord = chordFromEvent(event);
+      if (!chord) return false;
+      event.preventDefault();
+      setBinding(state.capturing, chord);
+      return true;
+    }
+
+    if (event.defaultPrevented || isEditable(event.target)) return false;
+    const command = commandFor(chordFromEvent(event));
+    if (!command) return false;
+    // Space would also click the focused button, running the command twice
+    event.preventDefault();
+
+    // [IMPORTANT] A held key repeats: only the commands that are safe to repeat run again
+    if (event.repeat && !HOTKEY_COMMANDS[command].repeat) return true;
+    getHandlers()[command]?.(event);
+    return true;
+  };
+
+  // Buttons activate on Space keyup: a bound key must not click the focused one
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (state.capturing || isEditable(event.target)) return;
+    if (commandFor(chordFromEvent(event))) event.preventDefault();
+  };
+
+  const onKeyDown = (event: Event) => { handleKeyDown(event as KeyboardEvent); };
+  const onKeyUp = (event: Event) => handleKeyUp(event as KeyboardEvent);
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    handleKeyDown,
+    setBinding,
+    /** The next key pressed (Escape cancels) is bound to `command`; null stops waiting. */
+    capture: (command: HotkeyCommand | null) => update({ capturing: command }),
+    /** Restores (and saves) the default bindings. */
+    resetBindings: () => {
+      const bindings = { ...DEFAULT_HOTKEY_BINDINGS };
+      saveBindings(bindings);
+      update({ bindings, capturing: null });
+    },
+    /** Starts listening (idempotent). */
+    attach: () => {
+      const target = options.target ?? (typeof window !== 'undefined' ? window : null);
+      if (attachedTo || !target) return;
+      target.addEventListener('keydown', onKeyDown);
+      target.addEventListener('keyup', onKeyUp);
+      attachedTo = target;
+    },
+    /** Stops listening. */
+    detach: () => {
+      attachedTo?.removeEventListener('keydown', onKeyDown);
+      attachedTo?.removeEventListener('keyup', onKeyUp);
+      attachedTo = null;
+    },
+  };
+};
+
+export type HotkeyLayer = ReturnType<typeof createHotkeyLayer>;
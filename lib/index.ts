@@ -1,4 +1,144 @@
 export { MissionClock } from './MissionClock';
 export { useBroadcastMatchTimer } from './useBroadcastMatchTimer';
-export type { ClockStyleConfig, MissionClockProps } from './MissionClock';
-export type { TimerState, TimerActions } from './useBroadcastMatchTimer';
+export { MatchClockEngine } from './MatchClockEngine';
+export { MissionClockEngine, DEFAULT_CLOCK_STYLE } from './MissionClockEngine';
+export { MissionClockElement, MISSION_CLOCK_TAG, defineMissionClockElement } from './missionClockElement';
+export {
+  MatchPeriodController,
+  DEFAULT_MATCH_PERIODS,
+  MATCH_PERIOD_TRANSITIONS
+} from './MatchPeriodController';
+export { useMatchPeriodController } from './useMatchPeriodController';
+export { formatTime, formatTimeMs, TIME_FORMATS, TIME_PRECISIONS } from './timeFormat';
+export {
+  msToFrames,
+  framesToMs,
+  framesToTimecode,
+  timecodeToFrames,
+  timecodeToSeconds,
+  formatTimecode,
+  TIMECODE_RATES
+} from './timecode';
+export { CLOCK_PROTOCOL_VERSION, validateClockCommand } from './clockProtocol';
+export { detectClockBackend } from './clockBackend';
+export { DEFAULT_WATCHDOG_OPTIONS } from './clockWatchdog';
+export {
+  localStorageClockStorage,
+  createIndexedDbClockStorage,
+  clearClockState
+} from './clockPersistence';
+export { createClockSync } from './clockSync';
+export { ClockSyncClient } from './ClockSyncClient';
+export { DEFAULT_MAX_INPUT_COMPENSATION_MS, inputEpochMs } from './inputLatency';
+export { createClockStore, anchorValueAt } from './clockStore';
+export { useClockStore } from './useClockStore';
+export { ClockHistory, DEFAULT_HISTORY_LIMIT } from './clockHistory';
+export { CueScheduler } from './CueScheduler';
+export { useCueScheduler } from './useCueScheduler';
+export {
+  createClockAuditLog,
+  replayClockLog,
+  clockLogToJson,
+  clockLogToCsv,
+  parseClockLog,
+  isClockLogEntry
+} from './clockAuditLog';
+export { useClockAuditLog } from './useClockAuditLog';
+export {
+  MARKER_CATEGORIES,
+  describeMarker,
+  markersToCsv,
+  markersToEdl,
+  markersToWebVtt
+} from './matchMarkers';
+export {
+  createHotkeyLayer,
+  chordFromEvent,
+  describeChord,
+  localStorageHotkeyStorage,
+  HOTKEY_COMMANDS,
+  DEFAULT_HOTKEY_BINDINGS
+} from './hotkeys';
+export { useHotkeys } from './useHotkeys';
+export { createLiveLock, DEFAULT_LARGE_JUMP_SECONDS, DEFAULT_ARM_WINDOW_MS } from './liveLock';
+export { useLiveLock } from './useLiveLock';
+export type {
+  ClockStyleConfig,
+  MissionClockProps,
+  MissionClockHandle,
+  MissionClockCommands,
+  ConfirmedClockCommands
+} from './MissionClock';
+export type { TimerState, TimerActions, TimerMode, BroadcastTimerOptions } from './useBroadcastMatchTimer';
+export type { MatchClockEngineOptions } from './MatchClockEngine';
+export type { MissionClockEngineOptions } from './MissionClockEngine';
+export type { ClockDirection, ExpiryBehaviour, CountdownOptions } from './timing';
+export type { TimeFormat, TimePrecision } from './timeFormat';
+export type { TimecodeRate } from './timecode';
+export type { ClockBackend, ClockBackendPreference } from './clockBackend';
+export type { ClockHealth, ClockHealthStatus, ClockWatchdogOptions } from './clockWatchdog';
+export type { ClockPersistenceOptions, ClockStateStorage, PersistedClockState } from './clockPersistence';
+export type { ClockSyncOptions, ClockSyncRole, ClockSyncCallbacks } from './clockSync';
+export type { ClockSyncClientOptions, ClockSyncSample, ClockSyncEstimate } from './ClockSyncClient';
+export type { InputTimestamp } from './inputLatency';
+export type { ClockStore, ClockAnchor, ClockStoreOptions, ClockCommandListener } from './clockStore';
+export type { ClockHistoryEntry, ClockHistoryState } from './clockHistory';
+export type {
+  Cue,
+  CueAction,
+  CueJumpPolicy,
+  CueStatus,
+  CueState,
+  CueFireEvent,
+  CueTarget,
+  CueClockSource,
+  CueSchedulerOptions
+} from './CueScheduler';
+export type {
+  ClockAuditLog,
+  ClockAuditLogOptions,
+  ClockLogEntry,
+  ClockLogState,
+  ClockLogCommand,
+  ClockReplay,
+  ClockReplayOptions,
+  ClockReplayReport,
+  ClockReplayDivergence
+} from './clockAuditLog';
+export type { MatchMarker, MarkerCategory, EdlExportOptions, ChapterExportOptions } from './matchMarkers';
+export type {
+  HotkeyCommand,
+  HotkeyCommandDefinition,
+  HotkeyBindings,
+  HotkeyHandlers,
+  HotkeyStorage,
+  HotkeyLayer,
+  HotkeyLayerOptions,
+  HotkeyLayerState
+} from './hotkeys';
+export type { LiveLock, LiveLockGuard, LiveLockOptions, LiveLockResult, LiveLockState } from './liveLock';
+export type {
+  ClockTiming,
+  ClockCommand,
+  ClockCommandType,
+  ClockCommandMessage,
+  ClockCommandReply,
+  ClockState,
+  ClockStateMessage,
+  ClockTick,
+  ClockTickMessage,
+  ClockAckMessage,
+  ClockErrorMessage,
+  ClockErrorCode,
+  ClockHeartbeat,
+  ClockHeartbeatMessage,
+  ClockResumeState,
+  ClockTimeline,
+  ClockWorkerMessage
+} from './clockProtocol';
+export type {
+  MatchPeriod,
+  PeriodDefinition,
+  PeriodClockTarget,
+  MatchPeriodControllerOptions
+} from './MatchPeriodController';
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * MODULE: Input Latency Compensation
+ * * Used by: MissionClock, useBroadcastMatchTimer
+ * * PROBLEM: a blocked main thread delivers clicks late, so START / PAUSE /
+ *   SET_TIME landed hundreds of ms after the operator acted
+ * * SOLUTION: stamp commands with the input event's time and apply them then
+ * ============================================================================
+ */
+
+/**
+ * When the operator acted: a DOM or React event (its `timeStamp`), or a
+ * `performance.now()` value.
+ *
+ * @example
+ * ```tsx
+ * <button onClick={(e) => clockRef.current?.start(e)}>Start</button>
+ * <button onClick={timer.pause}>Pause</button> // the event is passed for you
+ * ```
+ */
+export type InputTimestamp = number | { timeStamp: number };
+
+/** How far back a command may be applied by default (ms). */
+export const DEFAULT_MAX_INPUT_COMPENSATION_MS = 1000;
+
+/**
+ * The moment of the input in epoch ms (`performance.timeOrigin + performance.now()`).
+ * Without a `source`, the event currently being dispatched (`window.event`) is
+ * used, so handle calls from click handlers are stamped automatically.
+ * Anything else (timers, remote control) is stamped now.
+ */
+export const inputEpochMs = (source?: InputTimestamp): number => {
+  const now = performance.now();
+  const input = source ?? (typeof window !== 'undefined' ? window.event : undefined);
+  const timeStamp = typeof input === 'number' ? input : input?.timeStamp;
+
+  // [FIX] Older engines (and jsdom) report epoch ms: not on our timeline, so use now
+  if (typeof timeStamp !== 'number' || !isFinite(timeStamp) || timeStamp < 0 || timeStamp > now) {
+    return performance.timeOrigin + now;
+  }
+  return performance.timeOrigin + timeStamp;
+};
+
+/**
+ * Where on the `performance.now()` timeline a command stamped `issuedAt`
+ * takes effect: at the input, but never further back than `maxCompensationMs`
+ * (a stale stamp must not rewrite minutes of match time).
+ *
+ * @example
+ * ```ts
+ * // Click 300ms ago, delivered now
+ * compensatedNow(inputEpochMs(event), 1000); // performance.now() - 300
+ * ```
+ */
+export const compensatedNow = (
+  issuedAt: number,
+  maxCompensationMs: number,
+  now: number = performance.now()
+): number => {
+  const lagMs = performance.timeOrigin + now - issuedAt;
+  return lagMs > 0 ? now - Math.min(lagMs, Math.max(0, maxCompensationMs)) : now;
+};
@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * MODULE: Live Lock
+ * * Used by: useLiveLock (React), the App control deck and its hotkeys
+ * * PROBLEM: RESET and ±1h fire on the first click, on air
+ * * SOLUTION: while locked, destructive actions are armed by the first click
+ *   and run by a second one within `armWindowMs`
+ * ============================================================================
+ */
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+/**
+ * What an action does to the clock, which decides whether it is destructive:
+ * - `reset`: always
+ * - `jump`: moves the clock by `deltaSeconds`; destructive from `largeJumpSeconds` either way
+ * - `preset`: jumps to a preset value (e.g. a period start); destructive while the clock runs
+ * - `safe`: never (runs on the first click even when locked)
+ */
+export type LiveLockGuard =
+  | { kind: 'reset' }
+  | { kind: 'jump'; deltaSeconds: number }
+  | { kind: 'preset' }
+  | { kind: 'safe' };
+
+export interface LiveLockOptions {
+  /** Start locked (default: false) */
+  locked?: boolean;
+  /** Jumps of at least this many seconds need confirming (default: 300) */
+  largeJumpSeconds?: number;
+  /** How long an armed action waits for its confirming click (default: 3000) */
+  armWindowMs?: number;
+  /** Whether the clock is running now, for `preset` guards (default: never running) */
+  isRunning?: () => boolean;
+}
+
+export interface LiveLockState {
+  locked: boolean;
+  largeJumpSeconds: number;
+  /** The action waiting for confirmation, or null */
+  armed: string | null;
+}
+
+/** What `run` did: ran the action, or armed it for a second click. */
+export type LiveLockResult = 'ran' | 'armed';
+
+/** The default `largeJumpSeconds`: ±1s and ±1m are routine, ±1h is not. */
+export const DEFAULT_LARGE_JUMP_SECONDS = 300;
+
+export const DEFAULT_ARM_WINDOW_MS = 3000;
+
+// -----------------------------------------------------------------------------
+// 2. The Lock
+// -----------------------------------------------------------------------------
+
+/**
+ * Guards destructive actions while the deck is locked for a live show.
+ *
+ * Each guarded control passes an `id` (the same one for its button and its
+ * hotkey): the first call arms it, a second call with the same id within
+ * `armWindowMs` runs it. Running any other action disarms it, arming another
+ * replaces it. Unlocked, every action runs at once.
+ *
+ * @example
+ * ```ts
+ * const lock = createLiveLock({ locked: true, isRunning: () => store.getAnchor().isRunning });
+ * resetButton.onclick = (e) => lock.run('reset', { kind: 'reset' }, () => store.setTime(0, e));
+ * // 1st click: armed (the button shows "CONFIRM"), 2nd click within 3s: reset
+ * ```
+ */
+export const createLiveLock = (options: LiveLockOptions = {}) => {
+  const armWindowMs = options.armWindowMs ?? DEFAULT_ARM_WINDOW_MS;
+  const listeners = new Set<() => void>();
+  let state: LiveLockState = {
+    locked: options.locked ?? false,
+    largeJumpSeconds: options.largeJumpSeconds ?? DEFAULT_LARGE_JUMP_SECONDS,
+    armed: null
+  };
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const update = (next: Partial<LiveLockState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const clearExpiry = () => {
+    if (expiryTimer !== null) clearTimeout(expiryTimer);
+    expiryTimer = null;
+  };
+
+  const disarm = () => {
+    clearExpiry();
+    if (state.armed !== null) update({ armed: null });
+  };
+
+  /** Whether `guard` needs a confirming second call in the current state. */
+  const needsConfirmation = (guard: LiveLockGuard): boolean => {
+    if (!state.locked) return false;
+    switch (guard.kind) {
+      case 'reset':
+        return true;
+      case 'jump':
+        return Math.abs(guard.deltaSeconds) >= state.largeJumpSeconds;
+      case 'preset':
+        return options.isRunning?.() ?? false;
+      default:
+        return false;
+    }
+  };
+
+  /** Runs `action` now, or arms it (see above). */
+  const run = (id: string, guard: LiveLockGuard, action: () => void): LiveLockResult => {
+    if (needsConfirmation(guard) && state.armed !== id) {
+      clearExpiry();
+      expiryTimer = setTimeout(disarm, armWindowMs);
+      update({ armed: id });
+      return 'armed';
+    }
+    disarm();
+    action();
+    return 'ran';
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    needsConfirmation,
+    run,
+    disarm,
+    /** Locking or unlocking disarms any pending action. */
+    setLocked: (locked: boolean) => {
+      clearExpiry();
+      update({ locked, armed: null });
+    },
+    setLargeJumpSeconds: (seconds: number) => {
+      if (!(seconds > 0)) {
+        console.error('Invalid large jump threshold:', seconds);
+        return;
+      }
+      update({ largeJumpSeconds: seconds });
+    },
+  };
+};
+
+export type LiveLock = ReturnType<typeof createLiveLock>;
@@ -0,0 +1,198 @@
+/**
+ * ============================================================================
+ * MODULE: Match Event Markers
+ * * Used by: MatchClockEngine (`mark`), the App's markers panel
+ * * CAPTURES: goals, cards, substitutions... at the authoritative clock value
+ * * EXPORTS: CSV, CMX3600 EDL and WebVTT chapters for the highlights edit
+ * ============================================================================
+ */
+
+import type { MatchPeriod } from './MatchPeriodController';
+import { formatTimeMs } from './timeFormat';
+import { DEFAULT_TIMECODE_RATE, TimecodeRate, framesToTimecode, msToFrames, timecodeToFrames } from './timecode';
+
+// -----------------------------------------------------------------------------
+// 1. Types
+// -----------------------------------------------------------------------------
+
+export type MarkerCategory = 'goal' | 'card' | 'substitution' | 'other';
+
+export const MARKER_CATEGORIES: readonly MarkerCategory[] = ['goal', 'card', 'substitution', 'other'];
+
+/**
+ * An event marked during the match. `matchMs` comes from the same anchor as
+ * the timer's display, taken at the operator's click.
+ */
+export interface MatchMarker {
+  id: string;
+  label: string;
+  category: MarkerCategory;
+  /** The clock value when the event was marked (ms) */
+  matchMs: number;
+  /** `Date.now()` at the same moment: time of day, for the recordings */
+  wallClockMs: number;
+  /** The match period at the time */
+  period: MatchPeriod;
+}
+
+export interface EdlExportOptions {
+  /** Written to the `TITLE:` line (default: 'MATCH MARKERS') */
+  title?: string;
+  /** Frame rate of the recordings (default: '25') */
+  rate?: TimecodeRate;
+  /**
+   * Source timecode of the clips (default: 'time-of-day'). ISO recorders
+   * usually stamp time of day; 'match' is for recordings that start at kick-off.
+   */
+  source?: 'time-of-day' | 'match';
+  /** Seconds included before each marker (default: 10) */
+  prerollSeconds?: number;
+  /** Seconds included after each marker (default: 10) */
+  postrollSeconds?: number;
+  /** Where the first event lands on the record side (default: '01:00:00:00') */
+  recordStart?: string;
+  /** Reel name for every event, at most 8 characters (default: 'AX') */
+  reel?: string;
+}
+
+export interface ChapterExportOptions {
+  /** When the recording started (epoch ms, `Date.now()`), time 0 of the chapters (default: the earliest marker) */
+  recordingStartedAt?: number;
+  /** Length of the last chapter (default: 60) */
+  lastChapterSeconds?: number;
+}
+
+// -----------------------------------------------------------------------------
+// 2. Helpers
+// -----------------------------------------------------------------------------
+
+const CATEGORY_LABELS: Record<MarkerCategory, string> = {
+  goal: 'GOAL',
+  card: 'CARD',
+  substitution: 'SUB',
+  other: 'NOTE',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const CSV_COLUMNS = ['id', 'category', 'label', 'period', 'minute', 'match_time', 'match_ms', 'wall_clock'];
+
+// RFC 4180: quote fields with separators, quotes or line breaks
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Local time of day in ms: what a time-of-day timecode reads
+const timeOfDayMs = (wallClockMs: number): number => {
+  const date = new Date(wallClockMs);
+  return (
+    ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000 + date.getMilliseconds()
+  );
+};
+
+// "HH:MM:SS.mmm", the WebVTT timestamp (no negative times in a cue)
+const vttTimestamp = (ms: number): string => formatTimeMs(Math.max(0, ms), 'HH:MM:SS', 'milliseconds');
+
+// Markers in time order (wall-clock ties keep their capture order)
+const byTime = (markers: readonly MatchMarker[], key: 'matchMs' | 'wallClockMs'): MatchMarker[] =>
+  [...markers].sort((a, b) => a[key] - b[key]);
+
+/** "GOAL - Smith", or just "GOAL" */
+export const describeMarker = (marker: MatchMarker): string => {
+  const category = CATEGORY_LABELS[marker.category] ?? marker.category.toUpperCase();
+  return marker.label && marker.label.toUpperCase() !== category ? `${category} - ${marker.label}` : category;
+};
+
+// -----------------------------------------------------------------------------
+// 3. Exporters
+// -----------------------------------------------------------------------------
+
+/** One row per marker, with the match minute ("67'") and match time to the millisecond. */
+export const markersToCsv = (markers: readonly MatchMarker[]): string => {
+  const rows = markers.map(marker => [
+    marker.id,
+    marker.category,
+    marker.label,
+    marker.period,
+    formatTimeMs(marker.matchMs, 'MINUTES'),
+    formatTimeMs(marker.matchMs, 'HH:MM:SS', 'milliseconds'),
+    marker.matchMs,
+    new Date(marker.wallClockMs).toISOString()
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+/**
+ * A CMX3600 edit decision list: one cut per marker, from `prerollSeconds`
+ * before to `postrollSeconds` after it, laid end to end on the record side.
+ *
+ * @example
+ * ```ts
+ * markersToEdl(markers, { rate: '25', source: 'time-of-day' });
+ * // TITLE: MATCH MARKERS
+ * // FCM: NON-DROP FRAME
+ * //
+ * // 001  AX       V     C        15:44:50:00 15:45:10:00 01:00:00:00 01:00:20:00
+ * // * FROM CLIP NAME: GOAL - Smith
+ * // * COMMENT: 2ND HALF 67'
+ * ```
+ */
+export const markersToEdl = (markers: readonly MatchMarker[], options: EdlExportOptions = {}): string => {
+  const rate = options.rate ?? DEFAULT_TIMECODE_RATE;
+  const source = options.source ?? 'time-of-day';
+  const prerollMs = (options.prerollSeconds ?? 10) * 1000;
+  const postrollMs = (options.postrollSeconds ?? 10) * 1000;
+  const reel = (options.reel ?? 'AX').slice(0, 8).padEnd(8);
+  const dropFrame = rate.endsWith('DF');
+  const timecode = (frames: number) => framesToTimecode(Math.max(0, frames), rate);
+
+  let recordFrames = timecodeToFrames(options.recordStart ?? '01:00:00:00', rate) ?? 0;
+  const lines = [
+    `TITLE: ${options.title ?? 'MATCH MARKERS'}`,
+    `FCM: ${dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+  ];
+
+  byTime(markers, source === 'match' ? 'matchMs' : 'wallClockMs').forEach((marker, index) => {
+    const atMs = source === 'match' ? marker.matchMs : timeOfDayMs(marker.wallClockMs);
+    const sourceIn = msToFrames(Math.max(0, atMs - prerollMs), rate);
+    const sourceOut = msToFrames(Math.min(source === 'match' ? Infinity : MS_PER_DAY, atMs + postrollMs), rate);
+    const recordOut = recordFrames + (sourceOut - sourceIn);
+
+    lines.push(
+      '',
+      `${String(index + 1).padStart(3, '0')}  ${reel} V     C        ` +
+        `${timecode(sourceIn)} ${timecode(sourceOut)} ${timecode(recordFrames)} ${timecode(recordOut)}`,
+      `* FROM CLIP NAME: ${describeMarker(marker)}`,
+      `* COMMENT: ${marker.period.replace(/_/g, ' ')} ${formatTimeMs(marker.matchMs, 'MINUTES')}`
+    );
+    recordFrames = recordOut;
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * WebVTT chapters for a recording of the match: each marker starts a chapter
+ * that runs until the next one.
+ *
+ * Chapters are placed by the time of day of each marker, not its match time:
+ * the recording keeps running through halftime, and stoppage time in the 1st
+ * half (47:00) comes before the start of the 2nd (45:00).
+ *
+ * @example
+ * ```ts
+ * markersToWebVtt(markers, { recordingStartedAt: kickOffAt - 5 * 60_000 }); // recording began 5 minutes before kick-off
+ * ```
+ */
+export const markersToWebVtt = (markers: readonly MatchMarker[], options: ChapterExportOptions = {}): string => {
+  const lastChapterMs = (options.lastChapterSeconds ?? 60) * 1000;
+  const sorted = byTime(markers, 'wallClockMs');
+  const startedAt = options.recordingStartedAt ?? sorted[0]?.wallClockMs ?? 0;
+
+  const cues = sorted.map((marker, index) => {
+    const startMs = marker.wallClockMs - startedAt;
+    const endMs = index + 1 < sorted.length ? sorted[index + 1].wallClockMs - startedAt : startMs + lastChapterMs;
+    return `${index + 1}\n${vttTimestamp(startMs)} --> ${vttTimestamp(Math.max(startMs, endMs))}\n${describeMarker(marker)}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
@@ -0,0 +1,227 @@
+/**
+ * ============================================================================
+ * MODULE: <mission-clock> Web Component
+ * * Used by: CG templates that are not React apps (CasparCG HTML, vMix
+ *   browser inputs), via the standalone build (`npm run build:element`)
+ * * WRAPS: MissionClockEngine, so the element renders exactly like <MissionClock>
+ * ============================================================================
+ *
+ * Usage:
+ * ```html
+ * <script type="module" src="mission-clock.js"></script>
+ * <mission-clock text-color="#fff" font-family="Inter" glow="false" initial-seconds="2700"
+ *                style="width: 480px; height: 120px"></mission-clock>
+ * <script>
+ *   const clock = document.querySelector('mission-clock');
+ *   clock.addEventListener('tick', (e) => console.log(e.detail.totalSeconds));
+ *   clock.start();
+ * </script>
+ * ```
+ */
+
+import { ClockStyleConfig, MissionClockEngine, MissionClockEngineOptions, MissionClockHandle } from './MissionClockEngine';
+import { CLOCK_BACKEND_PREFERENCES, ClockBackend } from './clockBackend';
+import { CLOCK_DIRECTIONS, EXPIRY_BEHAVIOURS } from './timing';
+import type { ClockState, ClockTick } from './clockProtocol';
+import type { InputTimestamp } from './inputLatency';
+import { TIME_FORMATS, TIME_PRECISIONS } from './timeFormat';
+import { TIMECODE_RATES } from './timecode';
+
+/** The default tag name (see `defineMissionClockElement`). */
+export const MISSION_CLOCK_TAG = 'mission-clock';
+
+// Attributes that map onto ClockStyleConfig
+const STYLE_ATTRIBUTES: Record<string, keyof ClockStyleConfig> = {
+  'background-color': 'backgroundColor',
+  'text-color': 'textColor',
+  'font-family': 'fontFamily',
+  'glow': 'glowEffect',
+  'show-dot': 'showDot',
+  'added-time-color': 'addedTimeColor',
+  'format': 'format',
+  'precision': 'precision',
+  'timecode-rate': 'timecodeRate',
+};
+
+// `glow` / `show-dot` default to on, so only an explicit "false" (or "off", "0") turns them off
+const parseBoolean = (value: string): boolean => !['false', 'off', '0'].includes(value.trim().toLowerCase());
+
+// The kernel paints whatever it is given, so values outside `allowed` are dropped here
+const parseChoice = <T extends string>(allowed: readonly T[]) =>
+  (value: string): T | undefined => allowed.find((candidate) => candidate === value);
+
+const parseText = (value: string): string => value;
+
+// One parser per style key; undefined means the attribute value is rejected
+const STYLE_PARSERS: { [K in keyof ClockStyleConfig]: (value: string) => ClockStyleConfig[K] | undefined } = {
+  backgroundColor: parseText,
+  textColor: parseText,
+  fontFamily: parseText,
+  glowEffect: parseBoolean,
+  showDot: parseBoolean,
+  addedTimeColor: parseText,
+  format: parseChoice(TIME_FORMATS),
+  precision: parseChoice(TIME_PRECISIONS),
+  timecodeRate: parseChoice(TIMECODE_RATES),
+};
+
+/** Parses `value` into `config[key]`; returns false if the value is rejected. */
+const applyStyle = <K extends keyof ClockStyleConfig>(config: Partial<ClockStyleConfig>, key: K, value: string): boolean => {
+  const parsed = STYLE_PARSERS[key](value);
+  if (parsed === undefined) return false;
+  config[key] = parsed;
+  return true;
+};
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return isFinite(number) ? number : undefined;
+};
+
+/**
+ * The worker-rendered clock as a custom element.
+ *
+ * Attributes mirror `ClockStyleConfig` in kebab-case (`text-color`,
+ * `font-family`, `glow`, `show-dot`...) and apply live. `initial-seconds`,
+ * `direction`, `target-seconds`, `expiry-behaviour` and `backend` work as the
+ * `MissionClock` props of the same name.
+ *
+ * Events (`detail` in brackets): `tick` (`ClockTick`), `statechange`
+ * (`ClockState`), `expired`, `backendchange` (`ClockBackend`).
+ */
+export class MissionClockElement extends HTMLElement {
+  static get observedAttributes(): string[] {
+    return [
+      ...Object.keys(STYLE_ATTRIBUTES),
+      'initial-seconds', 'direction', 'target-seconds', 'expiry-behaviour', 'backend'
+    ];
+  }
+
+  private readonly engine: MissionClockEngine;
+  private readonly surface: HTMLDivElement;
+
+  constructor() {
+    super();
+    // Shadow DOM keeps the template's CSS away from the canvas
+    const root = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = ':host { display: block; position: relative; min-height: 1px; }';
+    this.surface = document.createElement('div');
+    this.surface.style.width = '100%';
+    this.surface.style.height = '100%';
+    root.append(style, this.surface);
+
+    this.engine = new MissionClockEngine();
+  }
+
+  connectedCallback(): void {
+    this.engine.setOptions(this.readOptions());
+    this.engine.attach(this.surface);
+  }
+
+  // [IMPORTANT] Terminates the worker: a CG template unloading the graphic must not leak it
+  disconnectedCallback(): void {
+    this.engine.detach();
+  }
+
+  attributeChangedCallback(): void {
+    // Before the first connect, connectedCallback reads them all
+    if (this.isConnected) this.engine.setOptions(this.readOptions());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Commands (queued until the element is in the document)
+  // ---------------------------------------------------------------------------
+
+  start(input?: InputTimestamp): void {
+    this.engine.handle.start(input);
+  }
+
+  pause(input?: InputTimestamp): void {
+    this.engine.handle.pause(input);
+  }
+
+  setTime(seconds: number, input?: InputTimestamp): void {
+    this.engine.handle.setTime(seconds, input);
+  }
+
+  adjustTime(deltaSeconds: number, input?: InputTimestamp): void {
+    this.engine.handle.adjustTime(deltaSeconds, input);
+  }
+
+  /** Resolves with the worker's authoritative state */
+  getState(): Promise<ClockState> {
+    return this.engine.handle.getState();
+  }
+
+  /** Everything else `MissionClock`'s ref offers (timecode, added time, confirmed commands...) */
+  get clock(): MissionClockHandle {
+    return this.engine.handle;
+  }
+
+  /** The render backend in use, or null while disconnected */
+  get backend(): ClockBackend | null {
+    return this.engine.handle.getBackend();
+  }
+
+  private readOptions(): MissionClockEngineOptions {
+    const config: Partial<ClockStyleConfig> = {};
+    for (const [attribute, key] of Object.entries(STYLE_ATTRIBUTES)) {
+      const value = this.getAttribute(attribute);
+      if (value === null) continue;
+      if (!applyStyle(config, key, value)) this.ignored(attribute, value);
+    }
+
+    return {
+      config,
+      initialSeconds: parseNumber(this.getAttribute('initial-seconds')),
+      direction: this.readChoice('direction', CLOCK_DIRECTIONS),
+      targetSeconds: parseNumber(this.getAttribute('target-seconds')),
+      expiryBehaviour: this.readChoice('expiry-behaviour', EXPIRY_BEHAVIOURS),
+      backend: this.readChoice('backend', CLOCK_BACKEND_PREFERENCES),
+      onTick: (tick) => this.emit('tick', tick),
+      onStateChange: (state) => this.emit('statechange', state),
+      onExpired: () => this.emit('expired'),
+      onBackendChange: (backend) => this.emit('backendchange', backend),
+    };
+  }
+
+  // Unset or not one of `allowed`: undefined, so the engine default applies
+  private readChoice<T extends string>(attribute: string, allowed: readonly T[]): T | undefined {
+    const value = this.getAttribute(attribute);
+    if (value === null) return undefined;
+    const choice = parseChoice(allowed)(value);
+    if (choice === undefined) this.ignored(attribute, value);
+    return choice;
+  }
+
+  private ignored(attribute: string, value: string): void {
+    console.error(`<${this.localName}> ignored ${attribute}="${value}"`);
+  }
+
+  private emit(type: string, detail?: unknown): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
+
+/**
+ * Registers `<mission-clock>` (or `tagName`). Safe to call more than once.
+ *
+ * @example
+ * ```ts
+ * defineMissionClockElement(); // <mission-clock> is now available
+ * defineMissionClockElement('match-clock'); // and <match-clock>
+ * ```
+ */
+export const defineMissionClockElement = (tagName: string = MISSION_CLOCK_TAG): void => {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // One class can only be defined once, so each tag name gets its own subclass
+  customElements.define(tagName, class extends MissionClockElement {});
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mission-clock': MissionClockElement;
+  }
+}
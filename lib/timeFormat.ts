@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * MODULE: Shared Time Formatter
+ * * Used by: clock.worker.ts (embedded), useBroadcastMatchTimer, NaiveClock
+ * * PERFORMANCE: Lookup-table composition, no padStart/toString per frame
+ * ============================================================================
+ */
+
+/**
+ * Supported display formats.
+ * - `HH:MM:SS`   → "01:30:00"
+ * - `MM:SS`      → "90:00" (minutes are unbounded, football style)
+ * - `M:SS`       → "5:07"
+ * - `MINUTES`    → "45'" (the minute in progress, as used for match events)
+ * - `D.HH:MM:SS` → "1.02:03:04" (long-running clocks)
+ * - `TIMECODE`   → "01:02:03:04" SMPTE timecode at the configured rate (see `timecode.ts`).
+ *                  Plain formatters without a rate fall back to HH:MM:SS.
+ */
+export type TimeFormat = 'HH:MM:SS' | 'MM:SS' | 'M:SS' | 'MINUTES' | 'D.HH:MM:SS' | 'TIMECODE';
+
+/** All supported formats, in display order. */
+export const TIME_FORMATS: readonly TimeFormat[] = ['HH:MM:SS', 'MM:SS', 'M:SS', 'MINUTES', 'D.HH:MM:SS', 'TIMECODE'];
+
+export const DEFAULT_TIME_FORMAT: TimeFormat = 'HH:MM:SS';
+
+/**
+ * Sub-second display precision. Also sets the repaint / notify granularity:
+ * a clock in `tenths` repaints every 100ms, one in `seconds` once per second.
+ * - `seconds`      → "00:00:09"
+ * - `tenths`       → "00:00:09.7"
+ * - `hundredths`   → "00:00:09.73"
+ * - `milliseconds` → "00:00:09.734"
+ */
+export type TimePrecision = 'seconds' | 'tenths' | 'hundredths' | 'milliseconds';
+
+export const TIME_PRECISIONS: readonly TimePrecision[] = ['seconds', 'tenths', 'hundredths', 'milliseconds'];
+
+export const DEFAULT_TIME_PRECISION: TimePrecision = 'seconds';
+
+/**
+ * Builds a formatter instance.
+ *
+ * [IMPORTANT] This factory must stay self-contained (no imports, no references
+ * to module scope): its source is embedded verbatim into `CLOCK_WORKER_SCRIPT`
+ * so the worker and the main thread run exactly the same code.
+ */
+export function createTimeFormatter() {
+  // [OPTIMISATION] Pre-allocate '00'-'99' (and '000'-'999' for milliseconds)
+  // so the render loop never pads numbers.
+  const DIGITS: string[] = [];
+  const PLAIN: string[] = [];
+  const TRIPLE: string[] = [];
+  for (let i = 0; i < 1000; i++) {
+    if (i < 100) {
+      DIGITS.push(i < 10 ? '0' + i : '' + i);
+      PLAIN.push('' + i);
+    }
+    TRIPLE.push(i < 10 ? '00' + i : i < 100 ? '0' + i : '' + i);
+  }
+
+  // Size of one display unit in ms for each precision
+  function unitMs(precision: string): number {
+    switch (precision) {
+      case 'tenths': return 100;
+      case 'hundredths': return 10;
+      case 'milliseconds': return 1;
+      default: return 1000;
+    }
+  }
+
+  // Values of 100+ are rare (120 minute matches, multi-day runs) and fall back to a conversion
+  function pad2(n: number): string {
+    return n < 100 ? DIGITS[n] : '' + n;
+  }
+
+  function plain(n: number): string {
+    return n < 100 ? PLAIN[n] : '' + n;
+  }
+
+  // Formats a non-negative number of whole seconds
+  function formatAbs(abs: number, timeFormat: string): string {
+    const s = abs % 60;
+
+    switch (timeFormat) {
+      case 'MM:SS':
+        return pad2(Math.floor(abs / 60)) + ':' + DIGITS[s];
+      case 'M:SS':
+        return plain(Math.floor(abs / 60)) + ':' + DIGITS[s];
+      case 'D.HH:MM:SS':
+        return plain(Math.floor(abs / 86400)) + '.' +
+          DIGITS[Math.floor((abs % 86400) / 3600)] + ':' +
+          DIGITS[Math.floor((abs % 3600) / 60)] + ':' + DIGITS[s];
+      default:
+        return pad2(Math.floor(abs / 3600)) + ':' +
+          DIGITS[Math.floor((abs % 3600) / 60)] + ':' + DIGITS[s];
+    }
+  }
+
+  /**
+   * Formats whole seconds. Negative values (countdown overrun) get a '-' prefix.
+   */
+  function format(totalSeconds: number, timeFormat: string): string {
+    const prefix = totalSeconds < 0 ? '-' : '';
+    const abs = Math.floor(Math.abs(totalSeconds));
+    // 44:10 is the 45th minute; 45:00 exactly is still 45'
+    if (timeFormat === 'MINUTES') return prefix + plain(Math.ceil(abs / 60)) + "'";
+    return prefix + formatAbs(abs, timeFormat);
+  }
+
+  /**
+   * Formats milliseconds with a sub-second fraction ('MINUTES' never shows one).
+   * Callers quantise `totalMs` to the precision unit first (see `unitMs`).
+   */
+  function formatMs(totalMs: number, timeFormat: string, precision: string): string {
+    if (unitMs(precision) === 1000 || timeFormat === 'MINUTES') {
+      return format(Math.trunc(totalMs / 1000), timeFormat);
+    }
+
+    const prefix = totalMs < 0 ? '-' : '';
+    const absMs = Math.floor(Math.abs(totalMs));
+    const fraction = absMs % 1000;
+    const base = prefix + formatAbs(Math.floor(absMs / 1000), timeFormat);
+
+    switch (precision) {
+      case 'tenths': return base + '.' + PLAIN[Math.floor(fraction / 100)];
+      case 'hundredths': return base + '.' + DIGITS[Math.floor(fraction / 10)];
+      default: return base + '.' + TRIPLE[fraction];
+    }
+  }
+
+  return { format, formatMs, unitMs, pad2 };
+}
+
+const formatter = createTimeFormatter();
+
+/**
+ * Formats whole seconds for display on the main thread.
+ *
+ * @param totalSeconds - Seconds to display (negative values get a '-' prefix)
+ * @param format - Display format (default: 'HH:MM:SS')
+ *
+ * @example
+ * ```ts
+ * formatTime(5400, 'MM:SS');   // "90:00"
+ * formatTime(2650, 'MINUTES'); // "45'"
+ * ```
+ */
+export const formatTime = (totalSeconds: number, format: TimeFormat = DEFAULT_TIME_FORMAT): string =>
+  formatter.format(totalSeconds, format);
+
+/**
+ * Formats milliseconds with a sub-second fraction.
+ *
+ * @example
+ * ```ts
+ * formatTimeMs(9734, 'MM:SS', 'tenths'); // "00:09.7"
+ * ```
+ */
+export const formatTimeMs = (
+  totalMs: number,
+  format: TimeFormat = DEFAULT_TIME_FORMAT,
+  precision: TimePrecision = DEFAULT_TIME_PRECISION
+): string => formatter.formatMs(totalMs, format, precision);
+
+/** Size of one display unit in ms (1000 for seconds, 100 for tenths...). */
+export const getPrecisionUnitMs = (precision: TimePrecision): number => formatter.unitMs(precision);
+
+/**
+ * Rounds a clock value to its display unit. Counting up floors, counting down
+ * rounds up so a countdown shows zero exactly at expiry.
+ */
+export const quantizeMs = (totalMs: number, precision: TimePrecision, roundUp: boolean): number => {
+  const unit = formatter.unitMs(precision);
+  const units = roundUp ? Math.ceil(totalMs / unit) : Math.floor(totalMs / unit);
+  return units * unit;
+};
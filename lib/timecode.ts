@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * MODULE: SMPTE Timecode Math
+ * * Used by: clock.worker.ts (embedded), useBroadcastMatchTimer, MissionClock
+ * * RATES: 24, 25, 30 (non-drop) and 29.97 / 59.94 drop-frame
+ * ============================================================================
+ */
+
+/**
+ * Supported timecode rates. Drop-frame rates use ';' before the frame field
+ * ("00:10:00;00") and skip frame numbers to stay aligned with wall-clock time.
+ */
+export type TimecodeRate = '24' | '25' | '30' | '29.97DF' | '59.94DF';
+
+export const TIMECODE_RATES: readonly TimecodeRate[] = ['24', '25', '30', '29.97DF', '59.94DF'];
+
+export const DEFAULT_TIMECODE_RATE: TimecodeRate = '25';
+
+/**
+ * Builds the timecode kernel.
+ *
+ * [IMPORTANT] Self-contained like `createTimeFormatter`: its source is embedded
+ * into `CLOCK_WORKER_SCRIPT`, so it must not reference anything outside itself.
+ */
+export function createTimecodeKernel() {
+  const DIGITS: string[] = [];
+  for (let i = 0; i < 100; i++) DIGITS.push(i < 10 ? '0' + i : '' + i);
+
+  // Guards against float error when converting ms (e.g. 1001/30 per frame) back to frames
+  const EPSILON = 1e-6;
+
+  // nominal: frame numbers per second as written; fps: real frames per second; drop: frames skipped per minute
+  function rateInfo(rate: string) {
+    switch (rate) {
+      case '24': return { nominal: 24, fps: 24, drop: 0 };
+      case '30': return { nominal: 30, fps: 30, drop: 0 };
+      case '29.97DF': return { nominal: 30, fps: 30000 / 1001, drop: 2 };
+      case '59.94DF': return { nominal: 60, fps: 60000 / 1001, drop: 4 };
+      default: return { nominal: 25, fps: 25, drop: 0 };
+    }
+  }
+
+  /** Whole frames elapsed in `ms`. `roundUp` is used by countdowns. */
+  function msToFrames(ms: number, rate: string, roundUp?: boolean): number {
+    const exact = (ms * rateInfo(rate).fps) / 1000;
+    return roundUp ? Math.ceil(exact - EPSILON) : Math.floor(exact + EPSILON);
+  }
+
+  function framesToMs(frames: number, rate: string): number {
+    return (frames * 1000) / rateInfo(rate).fps;
+  }
+
+  /** Frame count → "HH:MM:SS:FF" (or "HH:MM:SS;FF" for drop-frame). */
+  function framesToTimecode(totalFrames: number, rate: string): string {
+    const { nominal, drop } = rateInfo(rate);
+    const prefix = totalFrames < 0 ? '-' : '';
+    let frames = Math.abs(totalFrames);
+
+    if (drop > 0) {
+      // Re-insert the skipped frame numbers: 'drop' per minute, except every tenth minute
+      const framesPerMinute = nominal * 60 - drop;
+      const framesPer10Minutes = framesPerMinute * 10 + drop;
+      const tens = Math.floor(frames / framesPer10Minutes);
+      const rest = frames % framesPer10Minutes;
+      frames += 9 * drop * tens;
+      if (rest > drop) frames += drop * Math.floor((rest - drop) / framesPerMinute);
+    }
+
+    const ff = frames % nominal;
+    const totalSeconds = Math.floor(frames / nominal);
+    const hh = Math.floor(totalSeconds / 3600);
+    return prefix + (hh < 100 ? DIGITS[hh] : '' + hh) + ':' +
+      DIGITS[Math.floor((totalSeconds % 3600) / 60)] + ':' +
+      DIGITS[totalSeconds % 60] + (drop > 0 ? ';' : ':') + DIGITS[ff];
+  }
+
+  /**
+   * "HH:MM:SS:FF" / "HH:MM:SS;FF" → frame count.
+   * Returns null for malformed strings, out-of-range fields and dropped frame numbers.
+   */
+  function timecodeToFrames(timecode: string, rate: string): number | null {
+    const match = /^(-)?(\d{2,}):(\d{2}):(\d{2})[:;.](\d{2})$/.exec(timecode.trim());
+    if (!match) return null;
+
+    const { nominal, drop } = rateInfo(rate);
+    const hh = Number(match[2]);
+    const mm = Number(match[3]);
+    const ss = Number(match[4]);
+    const ff = Number(match[5]);
+    if (mm > 59 || ss > 59 || ff >= nominal) return null;
+
+    const totalMinutes = hh * 60 + mm;
+    // Drop-frame: frames 0..drop-1 do not exist at the start of non-tenth minutes
+    if (drop > 0 && ss === 0 && ff < drop && mm % 10 !== 0) return null;
+
+    let frames = (hh * 3600 + mm * 60 + ss) * nominal + ff;
+    if (drop > 0) frames -= drop * (totalMinutes - Math.floor(totalMinutes / 10));
+    return match[1] ? -frames : frames;
+  }
+
+  /** Formats a clock value in ms as timecode. */
+  function formatMs(ms: number, rate: string, roundUp?: boolean): string {
+    return framesToTimecode(msToFrames(ms, rate, roundUp), rate);
+  }
+
+  return { rateInfo, msToFrames, framesToMs, framesToTimecode, timecodeToFrames, formatMs };
+}
+
+const kernel = createTimecodeKernel();
+
+/** Whole frames elapsed in `ms` at `rate`. Countdowns pass `roundUp`. */
+export const msToFrames = (ms: number, rate: TimecodeRate = DEFAULT_TIMECODE_RATE, roundUp = false): number =>
+  kernel.msToFrames(ms, rate, roundUp);
+
+/** Duration of `frames` in ms at `rate` (fractional for 29.97/59.94). */
+export const framesToMs = (frames: number, rate: TimecodeRate = DEFAULT_TIMECODE_RATE): number =>
+  kernel.framesToMs(frames, rate);
+
+/**
+ * Formats a frame count as SMPTE timecode.
+ *
+ * @example
+ * ```ts
+ * framesToTimecode(17982, '29.97DF'); // "00:10:00;00"
+ * ```
+ */
+export const framesToTimecode = (frames: number, rate: TimecodeRate = DEFAULT_TIMECODE_RATE): string =>
+  kernel.framesToTimecode(frames, rate);
+
+/**
+ * Parses SMPTE timecode into a frame count.
+ * @returns null if the string is malformed or names a dropped frame
+ */
+export const timecodeToFrames = (timecode: string, rate: TimecodeRate = DEFAULT_TIMECODE_RATE): number | null =>
+  kernel.timecodeToFrames(timecode, rate);
+
+/**
+ * Parses SMPTE timecode into seconds (fractional), ready for `setTime`.
+ * @returns null if the string is not valid at `rate`
+ */
+export const timecodeToSeconds = (timecode: string, rate: TimecodeRate = DEFAULT_TIMECODE_RATE): number | null => {
+  const frames = kernel.timecodeToFrames(timecode, rate);
+  return frames === null ? null : kernel.framesToMs(frames, rate) / 1000;
+};
+
+/** Formats a clock value in ms as SMPTE timecode. */
+export const formatTimecode = (ms: number, rate: TimecodeRate = DEFAULT_TIMECODE_RATE): string =>
+  kernel.formatMs(ms, rate);
@@ -0,0 +1,50 @@
+// -----------------------------------------------------------------------------
+// Shared Timing Model Types
+// -----------------------------------------------------------------------------
+// Used by both the canvas worker (`MissionClock`) and the headless hook
+// (`useBroadcastMatchTimer`) so the two engines agree on counting semantics.
+
+/**
+ * The direction in which the clock runs.
+ * - `up`: elapsed match time (0 → 90:00)
+ * - `down`: countdown towards a target (10:00 → 00:00)
+ */
+export type ClockDirection = 'up' | 'down';
+
+export const CLOCK_DIRECTIONS: readonly ClockDirection[] = ['up', 'down'];
+
+/**
+ * What the clock does once it reaches its target.
+ * - `stop`: freeze exactly on the target and stop running
+ * - `overrun`: keep running past the target (into negative time when counting down)
+ */
+export type ExpiryBehaviour = 'stop' | 'overrun';
+
+export const EXPIRY_BEHAVIOURS: readonly ExpiryBehaviour[] = ['stop', 'overrun'];
+
+/**
+ * Counting options shared by `MissionClock` and `useBroadcastMatchTimer`.
+ */
+export interface CountdownOptions {
+  /** Counting direction (default: 'up') */
+  direction?: ClockDirection;
+  /**
+   * Time in seconds at which the clock expires.
+   * Defaults to 0 when counting down. When counting up the clock never
+   * expires unless a target is given (e.g. 45 * 60 for the end of a half).
+   */
+  targetSeconds?: number;
+  /** Behaviour once the target is reached (default: 'stop') */
+  expiryBehaviour?: ExpiryBehaviour;
+}
+
+/**
+ * Resolves the effective target in seconds, or `null` if the clock never expires.
+ */
+export const resolveTargetSeconds = (
+  direction: ClockDirection,
+  targetSeconds: number | undefined
+): number | null => {
+  if (targetSeconds !== undefined) return targetSeconds;
+  return direction === 'down' ? 0 : null;
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { ClockAuditLog, ClockAuditLogOptions, ClockLogEntry, createClockAuditLog } from './clockAuditLog';
+import type { ClockStore } from './clockStore';
+
+/**
+ * An audit log of `store` for the lifetime of the component, re-rendering
+ * with every new entry. `options` are read on the first render.
+ *
+ * @example
+ * ```tsx
+ * const { log, entries } = useClockAuditLog(store);
+ * <button onClick={() => download('clock.json', log.toJSON())}>Export ({entries.length})</button>
+ * ```
+ */
+export const useClockAuditLog = (
+  store: ClockStore,
+  options: ClockAuditLogOptions = {}
+): { log: ClockAuditLog; entries: readonly ClockLogEntry[] } => {
+  const logRef = useRef<ClockAuditLog | null>(null);
+  if (!logRef.current) {
+    logRef.current = createClockAuditLog(store, options);
+  }
+  const log = logRef.current;
+
+  // [FIX] Strict Mode detaches and re-attaches: keep recording into the same log
+  useEffect(() => {
+    log.attach();
+    return () => log.detach();
+  }, [log]);
+
+  const entries = useSyncExternalStore(log.subscribe, log.getEntries);
+  return { log, entries };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+import { ClockStore, ClockStoreOptions, createClockStore } from './clockStore';
+
+/**
+ * A store owned by the component, created once and disposed on unmount.
+ * `options` are read on the first render; use `store.setTiming` to change them.
+ */
+export const useClockStore = (options: ClockStoreOptions = {}): ClockStore => {
+  const onExpiredRef = useRef(options.onExpired);
+  onExpiredRef.current = options.onExpired;
+
+  const storeRef = useRef<ClockStore | null>(null);
+  if (!storeRef.current) {
+    storeRef.current = createClockStore({ ...options, onExpired: () => onExpiredRef.current?.() });
+  }
+  const store = storeRef.current;
+
+  useEffect(() => () => store.dispose(), [store]);
+  return store;
+};
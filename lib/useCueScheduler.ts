@@ -0,0 +1,40 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { CueClockSource, CueScheduler, CueSchedulerOptions, CueState } from './CueScheduler';
+
+/**
+ * A `CueScheduler` for the lifetime of the component, following `clock`
+ * (a `ClockStore`, or the object returned by `useBroadcastMatchTimer`).
+ * `options` (the cue list included) are applied on every render; cues keep
+ * their status as long as their id and time stay the same.
+ *
+ * @example
+ * ```tsx
+ * const timer = useBroadcastMatchTimer(90 * 60, { direction: 'down' });
+ * const { cues } = useCueScheduler(timer, {
+ *   cues: [{ id: 'horn', atSeconds: 0, onFire: playHorn }],
+ * });
+ * ```
+ */
+export const useCueScheduler = (
+  clock: CueClockSource,
+  options: CueSchedulerOptions = {}
+): { scheduler: CueScheduler; cues: readonly CueState[] } => {
+  const schedulerRef = useRef<CueScheduler | null>(null);
+  if (!schedulerRef.current) {
+    schedulerRef.current = new CueScheduler(clock, options);
+  }
+  const scheduler = schedulerRef.current;
+
+  useEffect(() => {
+    scheduler.setOptions(options);
+  });
+
+  // [FIX] Strict Mode detaches and re-attaches: cues keep their status in between
+  useEffect(() => {
+    scheduler.attach();
+    return () => scheduler.detach();
+  }, [scheduler]);
+
+  const cues = useSyncExternalStore(scheduler.subscribe, scheduler.getSnapshot);
+  return { scheduler, cues };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { HotkeyHandlers, HotkeyLayer, HotkeyLayerOptions, HotkeyLayerState, createHotkeyLayer } from './hotkeys';
+
+/**
+ * A hotkey layer for the lifetime of the component, re-rendering when the
+ * bindings change. `handlers` may change on every render; `options` are read
+ * on the first render.
+ *
+ * @example
+ * ```tsx
+ * const { hotkeys, bindings, capturing } = useHotkeys({ startPause: toggle, reset: () => setTime(0) });
+ * <button onClick={() => hotkeys.capture('reset')}>{capturing === 'reset' ? '…' : describeChord(bindings.reset)}</button>
+ * ```
+ */
+export const useHotkeys = (
+  handlers: HotkeyHandlers,
+  options: HotkeyLayerOptions = {}
+): HotkeyLayerState & { hotkeys: HotkeyLayer } => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const hotkeysRef = useRef<HotkeyLayer | null>(null);
+  if (!hotkeysRef.current) {
+    hotkeysRef.current = createHotkeyLayer(() => handlersRef.current, options);
+  }
+  const hotkeys = hotkeysRef.current;
+
+  // [FIX] Strict Mode detaches and re-attaches: one listener at a time
+  useEffect(() => {
+    hotkeys.attach();
+    return () => hotkeys.detach();
+  }, [hotkeys]);
+
+  const state = useSyncExternalStore(hotkeys.subscribe, hotkeys.getState);
+  return { hotkeys, ...state };
+};
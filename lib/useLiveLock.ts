@@ -0,0 +1,28 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { LiveLock, LiveLockOptions, LiveLockState, createLiveLock } from './liveLock';
+
+/**
+ * A live lock for the lifetime of the component, re-rendering when it is
+ * locked, armed or re-configured. `options` are read on the first render.
+ *
+ * @example
+ * ```tsx
+ * const { lock, locked, armed } = useLiveLock({ isRunning: () => store.getAnchor().isRunning });
+ * <button onClick={(e) => lock.run('reset', { kind: 'reset' }, () => setTime(0, e))}>
+ *   {armed === 'reset' ? 'CONFIRM RESET' : 'RESET'}
+ * </button>
+ * ```
+ */
+export const useLiveLock = (options: LiveLockOptions = {}): LiveLockState & { lock: LiveLock } => {
+  const lockRef = useRef<LiveLock | null>(null);
+  if (!lockRef.current) {
+    lockRef.current = createLiveLock(options);
+  }
+  const lock = lockRef.current;
+
+  // An action armed by an unmounted deck must not run later
+  useEffect(() => () => lock.disarm(), [lock]);
+
+  const state = useSyncExternalStore(lock.subscribe, lock.getState);
+  return { lock, ...state };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import {
+  MATCH_PERIOD_TRANSITIONS,
+  MatchPeriodController,
+  MatchPeriodControllerOptions,
+  PeriodClockTarget
+} from './MatchPeriodController';
+
+/**
+ * Creates a `MatchPeriodController` for the lifetime of the component and
+ * re-renders whenever the period changes.
+ *
+ * `getTargets` is read on every transition, so it may return refs that are
+ * only populated after mount (e.g. the `MissionClock` controller).
+ *
+ * @example
+ * ```tsx
+ * const timer = useBroadcastMatchTimer(0);
+ * const { controller, currentPeriod } = useMatchPeriodController(() => [timer, clockRef.current]);
+ * ```
+ */
+export const useMatchPeriodController = (
+  getTargets: () => Array<PeriodClockTarget | null | undefined>,
+  options: MatchPeriodControllerOptions = {}
+) => {
+  const getTargetsRef = useRef(getTargets);
+  getTargetsRef.current = getTargets;
+
+  const controllerRef = useRef<MatchPeriodController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = new MatchPeriodController(() => getTargetsRef.current(), options);
+  }
+  const controller = controllerRef.current;
+
+  const subscribe = useCallback((listener: () => void) => controller.subscribe(listener), [controller]);
+  const getSnapshot = useCallback(() => controller.currentPeriod, [controller]);
+  const currentPeriod = useSyncExternalStore(subscribe, getSnapshot);
+
+  return {
+    controller,
+    currentPeriod,
+    definition: controller.getDefinition(currentPeriod),
+    nextPeriods: MATCH_PERIOD_TRANSITIONS[currentPeriod],
+  };
+};
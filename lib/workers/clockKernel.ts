@@ -0,0 +1,499 @@
+/**
+ * ============================================================================
+ * MODULE: Mission Clock Kernel
+ * * Used by: clock.worker.ts (embedded), MissionClock main-thread fallback
+ * * PERFORMANCE: Zero-Allocation Loop
+ * ============================================================================
+ */
+
+import type { createTimeFormatter } from '../timeFormat';
+import type { createTimecodeKernel } from '../timecode';
+import type { ClockWorkerMessage, createClockCommandValidator } from '../clockProtocol';
+import type { ClockDirection } from '../timing';
+
+/**
+ * What the kernel needs from the thread it runs on.
+ */
+export interface ClockKernelHost {
+  postMessage: (message: ClockWorkerMessage) => void;
+  requestAnimationFrame: (callback: () => void) => number;
+  cancelAnimationFrame: (id: number) => void;
+  /** Monotonic clock in ms (performance.now) */
+  now: () => number;
+  /** The same clock as epoch ms (performance.timeOrigin + now), comparable across threads */
+  epochNow: () => number;
+  setInterval: (callback: () => void, ms: number) => number;
+  clearInterval: (id: number) => void;
+}
+
+/**
+ * The shared factories, instantiated by the caller so the kernel stays self-contained.
+ */
+export interface ClockKernelDeps {
+  formatter: ReturnType<typeof createTimeFormatter>;
+  timecode: ReturnType<typeof createTimecodeKernel>;
+  validator: ReturnType<typeof createClockCommandValidator>;
+  protocolVersion: number;
+}
+
+/**
+ * Builds the clock kernel: timing model, paint logic and command handling.
+ *
+ * [IMPORTANT] Self-contained like `createTimeFormatter`: its source is embedded
+ * into `CLOCK_WORKER_SCRIPT`, and the same function runs on the main thread
+ * when the worker backend is unavailable. Everything it uses arrives through
+ * `deps` and `host`.
+ */
+export function createClockKernel(deps: ClockKernelDeps, host: ClockKernelHost) {
+  const { formatter, timecode, validator } = deps;
+  const PROTOCOL_VERSION = deps.protocolVersion;
+
+  let canvas = null;
+  let ctx = null;
+  let animationFrameId = null;
+  let heartbeatId = null;
+
+  // Stamped commands are applied at most this far back (see INIT maxInputCompensationMs)
+  let maxCompensationMs = 1000;
+
+  // Pre-allocated added-time board labels ('+0' to '+30')
+  const MAX_ANNOUNCED_MINUTES = 30;
+  const ADDED_LABELS = Array.from({ length: MAX_ANNOUNCED_MINUTES + 1 }, (_, i) => '+' + i);
+
+  const state = {
+    baseTimeMs: 0,
+    startTimeMs: 0,
+    isRunning: false,
+    // Last painted value in ms, quantised to the display precision
+    lastRenderedMs: null,
+    // Last whole second reported via TICK (matches the painted seconds digits)
+    lastTickSecond: null,
+    // Countdown / expiry model
+    direction: 'up' as ClockDirection,
+    targetMs: null,
+    expiryBehaviour: 'stop',
+    hasExpired: false,
+    // Stoppage time: primary digits hold at the boundary while added time runs
+    stoppageBoundarySecond: null,
+    announcedMinutes: 0,
+    width: 0,
+    height: 0,
+    dpr: 1,
+    config: {
+      backgroundColor: '#0f172a',
+      textColor: '#22c55e',
+      fontFamily: "'Courier New', monospace",
+      glowEffect: true,
+      showDot: true,
+      addedTimeColor: '#f59e0b',
+      format: 'HH:MM:SS',
+      precision: 'seconds',
+      timecodeRate: '25'
+    }
+  };
+
+  function paint(displayMs) {
+    // Safety check
+    if (!ctx || state.width === 0 || state.height === 0) return;
+
+    const { width, height, dpr, config } = state;
+
+    // 1. Clear Buffer
+    ctx.clearRect(0, 0, width, height);
+
+    // 2. Background
+    ctx.fillStyle = config.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+
+    // Stoppage: past the boundary the primary digits hold and the excess is added time
+    const boundaryMs = state.stoppageBoundarySecond === null ? null : state.stoppageBoundarySecond * 1000;
+    const inStoppage = boundaryMs !== null && state.direction === 'up' && displayMs >= boundaryMs;
+    const primaryMs = inStoppage ? boundaryMs : displayMs;
+    const hasSecondaryRow = inStoppage || state.announcedMinutes > 0;
+
+    // 3. Time String Composition (Zero GC)
+    // [OPTIMISATION] Use lookup table instead of real-time formatting
+    // Overrunning countdowns are shown with a leading '-'
+    const absSeconds = Math.floor(Math.abs(displayMs) / 1000);
+    const timeText = config.format === 'TIMECODE'
+      ? timecode.formatMs(primaryMs, config.timecodeRate, state.direction === 'down')
+      : formatter.formatMs(primaryMs, config.format, config.precision);
+
+    // 4. Typography
+    // Adaptive font size based on container and text length.
+    // [FIX] Divisor of 6.5 for the 8-character string (00:00:00) prevents horizontal
+    // clipping of the glow effect; other formats scale from that ratio.
+    // The primary digits move up and shrink when the added-time row is shown.
+    const widthDivisor = Math.max(timeText.length, 4) * 0.8125;
+    const fontSize = hasSecondaryRow
+      ? Math.min(width / widthDivisor, height / 2.4)
+      : Math.min(width / widthDivisor, height / 1.5);
+    const primaryY = hasSecondaryRow ? height * 0.38 : height / 2;
+    ctx.font = `bold ${fontSize}px ${config.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    // 5. Draw Text
+    ctx.fillStyle = config.textColor;
+    if (config.glowEffect) {
+      ctx.shadowColor = config.textColor;
+      ctx.shadowBlur = 20 * dpr;
+    } else {
+      ctx.shadowBlur = 0;
+    }
+    ctx.fillText(timeText, width / 2, primaryY);
+
+    // 6. Added Time Row (running stoppage counter + announced board)
+    if (hasSecondaryRow) paintAddedTime(inStoppage ? Math.floor((displayMs - boundaryMs) / 1000) : -1, fontSize);
+
+    // 7. Alive Indicator (Red Dot)
+    if (config.showDot && absSeconds % 2 === 0) {
+      ctx.beginPath();
+      const dotRadius = fontSize / 12;
+      // Position dot relative to width, but ensure it doesn't overlap text area too much
+      const dotX = width - (dotRadius * 4);
+      const dotY = dotRadius * 4;
+
+      ctx.arc(dotX, dotY, dotRadius, 0, Math.PI * 2);
+      ctx.fillStyle = '#ef4444';
+      ctx.shadowColor = '#ef4444';
+      ctx.shadowBlur = config.glowEffect ? 10 * dpr : 0;
+      ctx.fill();
+    }
+  }
+
+  // Draws the '+MM:SS' stoppage counter (when addedSeconds >= 0) and the '+N' board.
+  function paintAddedTime(addedSeconds, primaryFontSize) {
+    const { width, height, dpr, config } = state;
+    const color = config.addedTimeColor || '#f59e0b';
+    const rowY = height * 0.78;
+    const rowFontSize = primaryFontSize * 0.5;
+
+    ctx.font = `bold ${rowFontSize}px ${config.fontFamily}`;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = config.glowEffect ? 12 * dpr : 0;
+
+    if (addedSeconds >= 0) {
+      ctx.fillStyle = color;
+      ctx.fillText('+' + formatter.format(addedSeconds, 'MM:SS'), width * 0.38, rowY);
+    }
+
+    if (state.announcedMinutes > 0) {
+      // Fourth-official style board: solid block with the announced minutes
+      const boardW = rowFontSize * 2.4;
+      const boardH = rowFontSize * 1.3;
+      const boardX = width * 0.72 - boardW / 2;
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = color;
+      ctx.fillRect(boardX, rowY - boardH / 2, boardW, boardH);
+      ctx.fillStyle = config.backgroundColor === 'transparent' ? '#000000' : config.backgroundColor;
+      ctx.fillText(ADDED_LABELS[state.announcedMinutes], width * 0.72, rowY);
+    }
+  }
+
+  // Displayed clock value in ms. Counting down subtracts the elapsed time.
+  function currentTotalMs(now) {
+    if (!state.isRunning) return state.baseTimeMs;
+    const elapsedMs = now - state.startTimeMs;
+    return state.direction === 'down'
+      ? state.baseTimeMs - elapsedMs
+      : state.baseTimeMs + elapsedMs;
+  }
+
+  // Quantises to the display precision (1000ms for seconds, 100ms for tenths,
+  // one frame in timecode mode so the loop repaints frame-accurately).
+  // Countdowns round up so that 00:00:00 is shown exactly at expiry.
+  function toDisplayMs(totalMs) {
+    const roundUp = state.direction === 'down';
+    if (state.config.format === 'TIMECODE') {
+      const rate = state.config.timecodeRate;
+      return timecode.framesToMs(timecode.msToFrames(totalMs, rate, roundUp), rate);
+    }
+    const unit = formatter.unitMs(state.config.precision);
+    const units = roundUp
+      ? Math.ceil(totalMs / unit)
+      : Math.floor(totalMs / unit);
+    return units * unit;
+  }
+
+  function hasReachedTarget(totalMs) {
+    if (state.targetMs === null) return false;
+    return state.direction === 'down'
+      ? totalMs <= state.targetMs
+      : totalMs >= state.targetMs;
+  }
+
+  function freeze(now) {
+    state.baseTimeMs = currentTotalMs(now);
+    state.isRunning = false;
+    if (animationFrameId !== null) host.cancelAnimationFrame(animationFrameId);
+    animationFrameId = null;
+  }
+
+  // Returns the (possibly clamped) total once the expiry rules are applied.
+  function applyExpiry(totalMs) {
+    if (state.hasExpired || !hasReachedTarget(totalMs)) return totalMs;
+
+    state.hasExpired = true;
+    if (state.expiryBehaviour === 'stop') {
+      state.isRunning = false;
+      state.baseTimeMs = state.targetMs;
+      if (animationFrameId !== null) host.cancelAnimationFrame(animationFrameId);
+      animationFrameId = null;
+      totalMs = state.targetMs;
+    }
+    host.postMessage({ type: 'EXPIRED', v: PROTOCOL_VERSION, payload: { seconds: state.targetMs / 1000 } });
+    postState(null);
+    return totalMs;
+  }
+
+  function repaintAt(totalMs) {
+    const displayMs = toDisplayMs(totalMs);
+    state.lastRenderedMs = displayMs;
+    // Jumps (SET_TIME, ADJUST_TIME...) are reported via STATE, not as a tick
+    state.lastTickSecond = Math.trunc(displayMs / 1000);
+    paint(displayMs);
+  }
+
+  // The authoritative clock state, as reported to the main thread
+  function snapshot() {
+    return {
+      totalMs: currentTotalMs(host.now()),
+      displayMs: state.lastRenderedMs,
+      isRunning: state.isRunning,
+      isExpired: state.hasExpired,
+      direction: state.direction,
+      targetSeconds: state.targetMs === null ? null : state.targetMs / 1000,
+      stoppageBoundarySeconds: state.stoppageBoundarySecond,
+      announcedMinutes: state.announcedMinutes
+    };
+  }
+
+  // id: the GET_STATE command being answered, or null for a change notification
+  function postState(id) {
+    host.postMessage({ type: 'STATE', v: PROTOCOL_VERSION, id, payload: snapshot() });
+  }
+
+  function postHeartbeat() {
+    host.postMessage({ type: 'HEARTBEAT', v: PROTOCOL_VERSION, payload: { state: snapshot(), capturedAt: host.epochNow() } });
+  }
+
+  function loop() {
+    if (!state.isRunning) return;
+
+    const totalMs = applyExpiry(currentTotalMs(host.now()));
+    const displayMs = toDisplayMs(totalMs);
+
+    // [OPTIMISATION] Dirty Check: Only paint if the displayed unit has changed
+    // (once per second by default, every 100ms in tenths...)
+    if (displayMs !== state.lastRenderedMs) {
+      state.lastRenderedMs = displayMs;
+      paint(displayMs);
+
+      // One TICK per painted second boundary (not per tenth or frame)
+      const second = Math.trunc(displayMs / 1000);
+      if (second !== state.lastTickSecond) {
+        state.lastTickSecond = second;
+        host.postMessage({ type: 'TICK', v: PROTOCOL_VERSION, payload: { seconds: second, totalMs } });
+      }
+    }
+
+    if (state.isRunning) animationFrameId = host.requestAnimationFrame(loop);
+  }
+
+  function applyTiming(timing) {
+    state.direction = timing.direction === 'down' ? 'down' : 'up';
+    state.targetMs = typeof timing.targetSeconds === 'number' ? timing.targetSeconds * 1000 : null;
+    state.expiryBehaviour = timing.expiryBehaviour === 'overrun' ? 'overrun' : 'stop';
+    state.hasExpired = hasReachedTarget(state.baseTimeMs);
+  }
+
+  // Takes over a timeline captured elsewhere (a crashed kernel, another tab's leader)
+  function applyResume(resume) {
+    const now = host.now();
+    if (animationFrameId !== null) host.cancelAnimationFrame(animationFrameId);
+    animationFrameId = null;
+
+    state.baseTimeMs = resume.totalMs;
+    state.stoppageBoundarySecond = resume.stoppageBoundarySeconds;
+    state.announcedMinutes = Math.max(0, Math.min(MAX_ANNOUNCED_MINUTES, Math.floor(resume.announcedMinutes)));
+    state.hasExpired = hasReachedTarget(state.baseTimeMs);
+
+    if (resume.isRunning) {
+      // Anchor in the past so the time since the capture is already counted
+      const gapMs = host.epochNow() - resume.capturedAt;
+      state.isRunning = true;
+      state.startTimeMs = gapMs > 0 ? now - gapMs : now;
+      repaintAt(applyExpiry(currentTotalMs(now)));
+      if (state.isRunning) animationFrameId = host.requestAnimationFrame(loop);
+    } else {
+      state.isRunning = false;
+      repaintAt(state.baseTimeMs);
+    }
+  }
+
+  // When a command takes effect: the operator's input (issuedAt, epoch ms),
+  // not its late arrival behind a blocked main thread, within the window
+  function commandTime(issuedAt) {
+    const now = host.now();
+    if (typeof issuedAt !== 'number') return now;
+    const lagMs = host.epochNow() - issuedAt;
+    return lagMs > 0 ? now - Math.min(lagMs, maxCompensationMs) : now;
+  }
+
+  function applyCommand(type, payload, issuedAt) {
+    switch (type) {
+      case 'INIT':
+        canvas = payload.canvas;
+        // desynchronized: true hints to UA to skip composition for lower latency
+        ctx = canvas.getContext('2d', { 
+          alpha: false, 
+          desynchronized: true 
+        });
+
+        state.config = payload.config;
+        if (typeof payload.maxInputCompensationMs === 'number') maxCompensationMs = payload.maxInputCompensationMs;
+        state.baseTimeMs = payload.initialSeconds * 1000;
+        if (payload.timing) applyTiming(payload.timing);
+        if (payload.resume) applyResume(payload.resume);
+        else repaintAt(state.baseTimeMs);
+
+        if (heartbeatId !== null) host.clearInterval(heartbeatId);
+        heartbeatId = payload.heartbeatMs ? host.setInterval(postHeartbeat, payload.heartbeatMs) : null;
+        break;
+
+      case 'RESIZE':
+        // [FIX] Critical: Resize the backing bitmap store.
+        // Ensures 1:1 pixel mapping for sharp text on high DPI.
+        if (canvas) {
+            canvas.width = payload.width;
+            canvas.height = payload.height;
+        }
+        state.width = payload.width;
+        state.height = payload.height;
+        state.dpr = payload.dpr;
+
+        // Force repaint immediately
+        if (state.lastRenderedMs !== null) {
+            paint(state.lastRenderedMs);
+        }
+        break;
+
+      case 'UPDATE_CONFIG':
+        state.config = payload;
+        // Re-quantise: the precision may have changed
+        if (state.lastRenderedMs !== null) repaintAt(currentTotalMs(host.now()));
+        break;
+
+      case 'UPDATE_TIMING': {
+        // Fold the elapsed time into the base so the switch is seamless
+        const wasRunning = state.isRunning;
+        const now = host.now();
+        state.baseTimeMs = currentTotalMs(now);
+        if (wasRunning) state.startTimeMs = now;
+        applyTiming(payload);
+        repaintAt(state.baseTimeMs);
+        break;
+      }
+
+      case 'SET_STOPPAGE_BOUNDARY':
+        // null disables stoppage mode (e.g. during breaks)
+        state.stoppageBoundarySecond = typeof payload.seconds === 'number' ? payload.seconds : null;
+        if (state.lastRenderedMs !== null) paint(state.lastRenderedMs);
+        break;
+
+      case 'ANNOUNCE_ADDED_TIME':
+        state.announcedMinutes = Math.max(0, Math.min(MAX_ANNOUNCED_MINUTES, Math.floor(payload.minutes)));
+        if (state.lastRenderedMs !== null) paint(state.lastRenderedMs);
+        break;
+
+      case 'CLEAR_ADDED_TIME':
+        state.announcedMinutes = 0;
+        if (state.lastRenderedMs !== null) paint(state.lastRenderedMs);
+        break;
+
+      case 'START':
+        if (state.isRunning) return;
+        // A stopped clock sitting on its target stays there until the time is changed
+        if (state.expiryBehaviour === 'stop' && hasReachedTarget(state.baseTimeMs)) return;
+        state.isRunning = true;
+        // Anchored at the click: the time the command spent queued is already counted
+        state.startTimeMs = commandTime(issuedAt);
+        animationFrameId = host.requestAnimationFrame(loop);
+        break;
+
+      case 'PAUSE':
+        if (!state.isRunning) return;
+        freeze(commandTime(issuedAt));
+        // Steps back to the value at the click if the display ran past it
+        repaintAt(state.baseTimeMs);
+        break;
+
+      case 'SET_TIME':
+        state.baseTimeMs = payload.seconds * 1000;
+        if (state.isRunning) {
+          state.startTimeMs = commandTime(issuedAt);
+        }
+        // Re-arm expiry unless the new value is already past the target
+        state.hasExpired = hasReachedTarget(state.baseTimeMs);
+        repaintAt(currentTotalMs(host.now()));
+        break;
+
+      case 'RESUME':
+        applyResume(payload);
+        break;
+
+      case 'ADJUST_TIME': {
+        // payload.deltaSeconds can be positive or negative
+        state.baseTimeMs += payload.deltaSeconds * 1000;
+
+        // Calculate current total immediately for UI feedback
+        const adjustedTotalMs = currentTotalMs(host.now());
+        state.hasExpired = hasReachedTarget(adjustedTotalMs);
+        repaintAt(adjustedTotalMs);
+        break;
+      }
+    }
+  }
+
+  // Commands after which the main thread is sent a fresh STATE (not RESIZE / UPDATE_CONFIG)
+  const STATE_CHANGING_COMMANDS = [
+    'INIT', 'UPDATE_TIMING', 'SET_STOPPAGE_BOUNDARY', 'ANNOUNCE_ADDED_TIME',
+    'CLEAR_ADDED_TIME', 'START', 'PAUSE', 'SET_TIME', 'ADJUST_TIME', 'RESUME'
+  ];
+
+  // Entry point for every command, whichever thread the kernel runs on
+  function handleMessage(message) {
+    const id = message && typeof message.id === 'number' ? message.id : null;
+
+    // Reject before touching state: a NaN here would poison every later frame
+    const error = validator.validate(message);
+    if (error) {
+      host.postMessage({
+        type: 'ERROR',
+        v: PROTOCOL_VERSION,
+        id,
+        command: message && typeof message.type === 'string' ? message.type : null,
+        code: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    applyCommand(message.type, message.payload, message.issuedAt);
+    if (message.type === 'GET_STATE') postState(id);
+    else if (STATE_CHANGING_COMMANDS.indexOf(message.type) !== -1) postState(null);
+    if (id !== null) host.postMessage({ type: 'ACK', v: PROTOCOL_VERSION, id, command: message.type });
+  }
+
+  // Stops the render loop and heartbeats (main-thread backends have no worker to terminate)
+  function dispose() {
+    state.isRunning = false;
+    if (animationFrameId !== null) host.cancelAnimationFrame(animationFrameId);
+    animationFrameId = null;
+    if (heartbeatId !== null) host.clearInterval(heartbeatId);
+    heartbeatId = null;
+  }
+
+  return { handleMessage, dispose };
+}
@@ -12,15 +12,17 @@ export const TIMER_WORKER_SCRIPT = `
   let intervalId = null;
 
   self.onmessage = function(e) {
-    const { type } = e.data;
+    const { type, payload } = e.data;
     
     if (type === 'START') {
       if (intervalId) clearInterval(intervalId);
+      // Sub-second displays ask for a faster tick via payload.intervalMs
+      const rate = payload && payload.intervalMs > 0 ? payload.intervalMs : TICK_RATE_MS;
       // Worker's job is purely to "wake up" the main thread.
       // It does NOT calculate time. It just signals.
       intervalId = setInterval(() => {
         self.postMessage({ type: 'TICK' });
-      }, TICK_RATE_MS);
+      }, rate);
     } 
     else if (type === 'STOP') {
       if (intervalId) clearInterval(intervalId);
@@ -0,0 +1,163 @@
+/**
+ * ============================================================================
+ * MODULE: Reference Time Server
+ * * Used by: ClockSyncClient (local testing and small installations)
+ * * PROTOCOL: WebSocket text frames, PING { id, t0 } -> PONG { id, t0, t1, t2 }
+ * * DEPENDENCIES: none (Node's http + crypto, a minimal RFC 6455 framing)
+ * ============================================================================
+ *
+ * Usage: `npm run time-server` (PORT defaults to 8787)
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { performance } from 'node:perf_hooks';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Pings are tiny: anything bigger is not a clock client
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Same timeline as the browser's `performance.timeOrigin + performance.now()`
+const epochNow = () => performance.timeOrigin + performance.now();
+
+// -----------------------------------------------------------------------------
+// 1. Framing (server frames are never masked, client frames always are)
+// -----------------------------------------------------------------------------
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/** The first complete frame in `buffer`, or null if more bytes are needed. */
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_PAYLOAD_BYTES) return { error: 'Frame too large' };
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, size: offset + length };
+};
+
+// -----------------------------------------------------------------------------
+// 2. Clock Protocol
+// -----------------------------------------------------------------------------
+
+/** Answers a PING with the receive (t1) and send (t2) timestamps. Returns null for anything else. */
+export const answerPing = (text, receivedAt, now = epochNow) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (message?.type !== 'PING' || !Number.isFinite(message.t0)) return null;
+  return JSON.stringify({ type: 'PONG', id: message.id, t0: message.t0, t1: receivedAt, t2: now() });
+};
+
+// -----------------------------------------------------------------------------
+// 3. Server
+// -----------------------------------------------------------------------------
+
+const handleConnection = (socket) => {
+  let buffer = Buffer.alloc(0);
+  socket.setNoDelay(true); // Nagle would add tens of ms to every reply
+
+  socket.on('data', (chunk) => {
+    // t1 as early as possible: everything after this counts as server processing
+    const receivedAt = epochNow();
+    buffer = Buffer.concat([buffer, chunk]);
+
+    let frame;
+    while ((frame = decodeFrame(buffer))) {
+      if (frame.error) {
+        socket.destroy();
+        return;
+      }
+      buffer = buffer.subarray(frame.size);
+
+      switch (frame.opcode) {
+        case OPCODE_TEXT: {
+          const reply = answerPing(frame.payload.toString('utf8'), receivedAt);
+          if (reply) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(reply)));
+          break;
+        }
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          break;
+        case OPCODE_CLOSE:
+          socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+          return;
+      }
+    }
+  });
+  socket.on('error', () => socket.destroy());
+};
+
+export const createTimeServer = () => {
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket time server: connect with ClockSyncClient');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    handleConnection(socket);
+  });
+
+  return server;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  createTimeServer().listen(PORT, () => {
+    console.log(`Time server listening on ws://localhost:${PORT}`);
+  });
+}
@@ -0,0 +1,45 @@
+import { vi } from 'vitest';
+
+/** `performance.timeOrigin` under `installFakeClock` (epoch ms). */
+export const TEST_TIME_ORIGIN = 1_700_000_000_000;
+
+/**
+ * Fakes timers, `Date` and `performance`. The fake performance object has no
+ * real timeOrigin, so it is pinned to `TEST_TIME_ORIGIN`.
+ */
+export const installFakeClock = () => {
+  vi.useRealTimers();
+  vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+  (performance as any).timeOrigin = TEST_TIME_ORIGIN;
+};
+
+/** Stands in for the clock kernel worker; records what it is sent. */
+export class MockKernelWorker {
+  static instances: MockKernelWorker[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+  addEventListener = vi.fn();
+  removeEventListener = vi.fn();
+  constructor() {
+    MockKernelWorker.instances.push(this);
+  }
+  /** Messages posted to the worker, filtered by type */
+  posted(type: string) {
+    return this.postMessage.mock.calls.map(([message]) => message).filter((m) => m.type === type);
+  }
+  /** Delivers a message from the worker */
+  reply(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+/**
+ * Installs `MockKernelWorker` as `window.Worker`.
+ * @returns the workers created from now on, in order
+ */
+export const installMockKernelWorker = (): MockKernelWorker[] => {
+  MockKernelWorker.instances = [];
+  (window as any).Worker = MockKernelWorker;
+  return MockKernelWorker.instances;
+};
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Standalone <mission-clock> bundle for pages that are not React apps
+// (CasparCG HTML templates, vMix browser inputs): `npm run build:element`
+export default defineConfig({
+  build: {
+    outDir: 'dist/element',
+    lib: {
+      entry: 'lib/element.ts',
+      name: 'MissionClockElement',
+      // ES module for <script type="module">, IIFE for a plain <script src>
+      formats: ['es', 'iife'],
+      fileName: (format) => (format === 'es' ? 'mission-clock.js' : 'mission-clock.iife.js'),
+    },
+  },
+});
@@ -1,5 +1,7 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { CLOCK_WORKER_SCRIPT } from '../clock.worker';
+import { CLOCK_PROTOCOL_VERSION } from '../../lib/clockProtocol';
+import { installFakeClock } from '../../test/clockTestUtils';
 
 describe('Worker Logic (Headless Simulation)', () => {
   let mockSelf: any;
@@ -22,6 +24,10 @@ describe('Worker Logic (Headless Simulation)', () => {
     );
   };
 
+  // Messages the worker posted back, filtered by type
+  const posted = (type: string) =>
+    mockSelf.postMessage.mock.calls.map((call: any[]) => call[0]).filter((m: any) => m.type === type);
+
   const triggerNextFrame = () => {
     if (requestAnimationFrameCallbacks.length > 0) {
       const cb = requestAnimationFrameCallbacks.shift();
@@ -55,6 +61,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: {
           canvas: { getContext: () => mockCtx, width: 800, height: 600 },
           config: { textColor: '#fff' },
@@ -72,6 +79,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: {
           canvas: { getContext: () => mockCtx, width: 800, height: 600 },
           config: {},
@@ -81,7 +89,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     });
 
     // 2. Start
-    mockSelf.onmessage({ data: { type: 'START' } });
+    mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
     
     // 3. Run for 10 seconds
     vi.advanceTimersByTime(10000); 
@@ -89,7 +97,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', expect.any(Number), expect.any(Number));
 
     // 4. Pause
-    mockSelf.onmessage({ data: { type: 'PAUSE' } });
+    mockSelf.onmessage({ data: { type: 'PAUSE', v: CLOCK_PROTOCOL_VERSION } });
     
     // VERIFY STOP: cancelAnimationFrame must be called to stop the loop
     expect(mockCancelAnimationFrame).toHaveBeenCalled();
@@ -99,7 +107,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     triggerNextFrame(); // Should do nothing or not be scheduled
 
     // 6. Resume
-    mockSelf.onmessage({ data: { type: 'START' } });
+    mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
     
     // 7. Advance 2 seconds
     vi.advanceTimersByTime(2000);
@@ -114,6 +122,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: {
           canvas: { getContext: () => mockCtx, width: 800, height: 600 },
           config: { textColor: 'white' },
@@ -125,6 +134,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'UPDATE_CONFIG',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: { textColor: 'red', glowEffect: false }
       }
     });
@@ -140,6 +150,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: {
           canvas: { getContext: () => mockCtx, width: 800, height: 600 },
           config: {},
@@ -147,12 +158,13 @@ describe('Worker Logic (Headless Simulation)', () => {
         }
       }
     });
-    mockSelf.onmessage({ data: { type: 'START' } });
+    mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
     vi.advanceTimersByTime(5000);
 
     mockSelf.onmessage({
       data: {
         type: 'SET_TIME',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: { seconds: 3600 }
       }
     });
@@ -169,6 +181,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: {
           canvas: { getContext: () => mockCtx, width: 800, height: 600 },
           config: {},
@@ -177,7 +190,7 @@ describe('Worker Logic (Headless Simulation)', () => {
       }
     });
     mockSelf.onmessage({
-      data: { type: 'ADJUST_TIME', payload: { deltaSeconds: 3600 } }
+      data: { type: 'ADJUST_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { deltaSeconds: 3600 } }
     });
     expect(mockCtx.fillText).toHaveBeenLastCalledWith('01:00:00', expect.any(Number), expect.any(Number));
   });
@@ -188,6 +201,7 @@ describe('Worker Logic (Headless Simulation)', () => {
     mockSelf.onmessage({
       data: {
         type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
         payload: { canvas: mockCanvas, config: { fontFamily: 'Arial' }, initialSeconds: 10 }
       }
     });
@@ -195,10 +209,493 @@ describe('Worker Logic (Headless Simulation)', () => {
     expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', 50, 50);
 
     mockSelf.onmessage({
-      data: { type: 'RESIZE', payload: { width: 200, height: 200, dpr: 1 } }
+      data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 200, height: 200, dpr: 1 } }
     });
 
     expect(mockCanvas.width).toBe(200);
     expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', 100, 100);
   });
-});
\ No newline at end of file
+
+  it('paints in the configured display format', () => {
+    loadWorkerScript();
+    mockSelf.onmessage({
+      data: {
+        type: 'INIT',
+        v: CLOCK_PROTOCOL_VERSION,
+        payload: {
+          canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+          config: { format: 'MM:SS' },
+          initialSeconds: 5400
+        }
+      }
+    });
+    mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+    expect(mockCtx.fillText).toHaveBeenLastCalledWith('90:00', 400, 300);
+
+    mockSelf.onmessage({ data: { type: 'UPDATE_CONFIG', v: CLOCK_PROTOCOL_VERSION, payload: { format: 'MINUTES' } } });
+    expect(mockCtx.fillText).toHaveBeenLastCalledWith("90'", 400, 300);
+  });
+
+  describe('Countdown mode', () => {
+    beforeEach(() => {
+      // Countdown math reads performance.now(), so fake it alongside the timers
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+    });
+
+    const initCountdown = (initialSeconds: number, timing: object) => {
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: {},
+            initialSeconds,
+            timing
+          }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+    };
+
+    it('counts down, stops on zero and posts EXPIRED once', () => {
+      initCountdown(10, { direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', expect.any(Number), expect.any(Number));
+
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(3500);
+      triggerNextFrame();
+      // Rounds up: 6.5s remaining is still shown as 7
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:07', expect.any(Number), expect.any(Number));
+
+      vi.advanceTimersByTime(8000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:00', expect.any(Number), expect.any(Number));
+      expect(mockSelf.postMessage).toHaveBeenCalledWith({ type: 'EXPIRED', v: 1, payload: { seconds: 0 } });
+      expect(requestAnimationFrameCallbacks).toHaveLength(0);
+
+      // START is ignored while sitting on the target
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      expect(requestAnimationFrameCallbacks).toHaveLength(0);
+      expect(posted('EXPIRED')).toHaveLength(1);
+    });
+
+    it('overruns into negative time when configured', () => {
+      initCountdown(2, { direction: 'down', targetSeconds: 0, expiryBehaviour: 'overrun' });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+
+      vi.advanceTimersByTime(5000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('-00:00:03', expect.any(Number), expect.any(Number));
+      expect(mockSelf.postMessage).toHaveBeenCalledWith({ type: 'EXPIRED', v: 1, payload: { seconds: 0 } });
+
+      vi.advanceTimersByTime(1000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('-00:00:04', expect.any(Number), expect.any(Number));
+      expect(posted('EXPIRED')).toHaveLength(1);
+    });
+
+    it('expires a count-up clock at its target and re-arms after SET_TIME', () => {
+      initCountdown(2695, { direction: 'up', targetSeconds: 2700, expiryBehaviour: 'stop' });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+
+      vi.advanceTimersByTime(6000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:45:00', expect.any(Number), expect.any(Number));
+      expect(posted('EXPIRED')).toHaveLength(1);
+
+      mockSelf.onmessage({ data: { type: 'SET_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 2699 } } });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(1000);
+      triggerNextFrame();
+      expect(posted('EXPIRED')).toHaveLength(2);
+    });
+
+    it('repaints every tenth with tenths precision and rounds countdowns up', () => {
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: { format: 'MM:SS', precision: 'tenths' },
+            initialSeconds: 10,
+            timing: { direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' }
+          }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+
+      vi.advanceTimersByTime(250);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:09.8', 400, 300);
+
+      const paints = mockCtx.fillText.mock.calls.length;
+      vi.advanceTimersByTime(30);
+      triggerNextFrame();
+      // Same tenth: no repaint
+      expect(mockCtx.fillText.mock.calls.length).toBe(paints);
+
+      vi.advanceTimersByTime(100);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:09.7', 400, 300);
+    });
+
+    it('switches direction via UPDATE_TIMING without losing time', () => {
+      initCountdown(0, { direction: 'up', targetSeconds: null, expiryBehaviour: 'stop' });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(10000);
+
+      mockSelf.onmessage({ data: { type: 'UPDATE_TIMING', v: CLOCK_PROTOCOL_VERSION, payload: { direction: 'down', targetSeconds: 0, expiryBehaviour: 'stop' } } });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', expect.any(Number), expect.any(Number));
+
+      vi.advanceTimersByTime(4000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:06', expect.any(Number), expect.any(Number));
+    });
+  });
+
+  describe('Stoppage time', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+      mockCtx.fillText = vi.fn();
+    });
+
+    const initAt = (initialSeconds: number) => {
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: { canvas: { getContext: () => mockCtx, width: 800, height: 600 }, config: {}, initialSeconds }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+    };
+
+    const drawnTexts = () => mockCtx.fillText.mock.calls.map((call: any[]) => call[0]);
+
+    it('holds the primary digits at the boundary and runs an added-time counter', () => {
+      initAt(2698);
+      mockSelf.onmessage({ data: { type: 'SET_STOPPAGE_BOUNDARY', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 2700 } } });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+
+      vi.advanceTimersByTime(1000);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:44:59', 400, 300);
+
+      mockCtx.fillText.mockClear();
+      vi.advanceTimersByTime(75000);
+      triggerNextFrame();
+      expect(drawnTexts()).toEqual(['00:45:00', '+01:14']);
+    });
+
+    it('shows and clears the announced added-time board', () => {
+      initAt(2700);
+      mockSelf.onmessage({ data: { type: 'SET_STOPPAGE_BOUNDARY', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 2700 } } });
+
+      mockCtx.fillText.mockClear();
+      mockSelf.onmessage({ data: { type: 'ANNOUNCE_ADDED_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { minutes: 4 } } });
+      expect(drawnTexts()).toEqual(['00:45:00', '+00:00', '+4']);
+
+      mockCtx.fillText.mockClear();
+      mockSelf.onmessage({ data: { type: 'SET_STOPPAGE_BOUNDARY', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: null } } });
+      mockSelf.onmessage({ data: { type: 'CLEAR_ADDED_TIME', v: CLOCK_PROTOCOL_VERSION } });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:45:00', 400, 300);
+    });
+  });
+
+  describe('Timecode', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+      mockCtx.fillText = vi.fn();
+    });
+
+    it('renders drop-frame timecode and repaints once per frame', () => {
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: { format: 'TIMECODE', timecodeRate: '29.97DF' },
+            initialSeconds: 59.9
+          }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:59;25', 400, 300);
+
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(200);
+      triggerNextFrame();
+      // 60.1s at 29.97fps is frame 1801, numbered ;03 after the dropped ;00 and ;01
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:01:00;03', 400, 300);
+
+      const paints = mockCtx.fillText.mock.calls.length;
+      vi.advanceTimersByTime(10);
+      triggerNextFrame();
+      // Same frame: no repaint
+      expect(mockCtx.fillText.mock.calls.length).toBe(paints);
+    });
+  });
+
+  describe('Protocol', () => {
+    const init = () => {
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: 1,
+          payload: { canvas: { getContext: () => mockCtx, width: 800, height: 600 }, config: {}, initialSeconds: 10 }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+      mockCtx.fillText.mockClear();
+    };
+
+    it('acknowledges applied commands that carry an id', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'SET_TIME', v: 1, id: 7, payload: { seconds: 60 } } });
+      expect(mockSelf.postMessage).toHaveBeenLastCalledWith({ type: 'ACK', v: 1, id: 7, command: 'SET_TIME' });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:01:00', 400, 300);
+    });
+
+    it('rejects invalid payloads without touching state', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'SET_TIME', v: 1, id: 8, payload: { seconds: NaN } } });
+      expect(mockSelf.postMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: 'ERROR', id: 8, command: 'SET_TIME', code: 'INVALID_PAYLOAD'
+      }));
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: 1, payload: { width: 800, height: 600, dpr: 1 } } });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:10', 400, 300);
+    });
+
+    it('rejects unknown types and other protocol versions', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'EXPLODE', v: 1, id: 9 } });
+      expect(mockSelf.postMessage).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'ERROR', id: 9, code: 'UNKNOWN_TYPE' }));
+
+      mockSelf.onmessage({ data: { type: 'START', v: 2, id: 10 } });
+      expect(mockSelf.postMessage).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'ERROR', id: 10, code: 'UNSUPPORTED_VERSION' }));
+    });
+  });
+
+  describe('State events', () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date', 'performance'] });
+      loadWorkerScript();
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: { format: 'MM:SS', precision: 'tenths' },
+            initialSeconds: 10
+          }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+    });
+
+    it('posts STATE after state-changing commands', () => {
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      expect(mockSelf.postMessage).toHaveBeenLastCalledWith({
+        type: 'STATE',
+        v: 1,
+        id: null,
+        payload: expect.objectContaining({ isRunning: true, totalMs: 10000, isExpired: false })
+      });
+
+      vi.advanceTimersByTime(2000);
+      mockSelf.onmessage({ data: { type: 'PAUSE', v: CLOCK_PROTOCOL_VERSION } });
+      expect(posted('STATE').at(-1).payload).toMatchObject({ isRunning: false, totalMs: 12000 });
+
+      const states = posted('STATE').length;
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 400, height: 300, dpr: 1 } } });
+      expect(posted('STATE')).toHaveLength(states);
+    });
+
+    it('ticks once per painted second, not per tenth', () => {
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      for (let i = 0; i < 25; i++) {
+        vi.advanceTimersByTime(100);
+        triggerNextFrame();
+      }
+      expect(posted('TICK').map((m: any) => m.payload.seconds)).toEqual([11, 12]);
+    });
+
+    it('answers GET_STATE with the command id', () => {
+      mockSelf.onmessage({ data: { type: 'SET_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 2700 } } });
+      mockSelf.onmessage({ data: { type: 'GET_STATE', v: 1, id: 42 } });
+      expect(posted('STATE').at(-1)).toEqual({
+        type: 'STATE',
+        v: 1,
+        id: 42,
+        payload: expect.objectContaining({ totalMs: 2700_000, displayMs: 2700_000, isRunning: false })
+      });
+    });
+  });
+
+  describe('Heartbeat and resume', () => {
+    const init = (extra: object) => {
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: { format: 'HH:MM:SS', precision: 'seconds' },
+            initialSeconds: 0,
+            ...extra
+          }
+        }
+      });
+      mockSelf.onmessage({ data: { type: 'RESIZE', v: CLOCK_PROTOCOL_VERSION, payload: { width: 800, height: 600, dpr: 1 } } });
+    };
+    const epoch = () => performance.timeOrigin + performance.now();
+
+    beforeEach(() => {
+      installFakeClock();
+      loadWorkerScript();
+    });
+
+    it('posts heartbeats with its state only when asked to', () => {
+      init({ initialSeconds: 30, heartbeatMs: 500 });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(1000);
+
+      const beats = posted('HEARTBEAT');
+      expect(beats).toHaveLength(2);
+      expect(beats[1].payload.state).toMatchObject({ isRunning: true, totalMs: 31000 });
+      expect(beats[1].payload.capturedAt).toBeCloseTo(epoch(), 0);
+    });
+
+    it('sends no heartbeats by default', () => {
+      init({});
+      vi.advanceTimersByTime(5000);
+      expect(posted('HEARTBEAT')).toHaveLength(0);
+    });
+
+    it('resumes a running clock, counting the time since the state was captured', () => {
+      const capturedAt = epoch() - 250;
+      init({
+        resume: { totalMs: 2700_000, isRunning: true, capturedAt, stoppageBoundarySeconds: null, announcedMinutes: 3 }
+      });
+
+      expect(posted('STATE').at(-1).payload).toMatchObject({ isRunning: true, totalMs: 2700_250, announcedMinutes: 3 });
+      vi.advanceTimersByTime(750);
+      triggerNextFrame();
+      expect(mockCtx.fillText).toHaveBeenCalledWith('00:45:01', expect.any(Number), expect.any(Number));
+    });
+
+    it('resumes a paused clock at exactly its value', () => {
+      init({
+        resume: { totalMs: 12_345, isRunning: false, capturedAt: epoch() - 5000, stoppageBoundarySeconds: 2700, announcedMinutes: 0 }
+      });
+      expect(posted('STATE').at(-1).payload).toMatchObject({ isRunning: false, totalMs: 12_345, stoppageBoundarySeconds: 2700 });
+    });
+
+    it('re-anchors a live clock to another timeline with RESUME', () => {
+      init({ initialSeconds: 10 });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      vi.advanceTimersByTime(3000);
+
+      mockSelf.onmessage({
+        data: { type: 'RESUME', v: CLOCK_PROTOCOL_VERSION, payload: { totalMs: 5000, isRunning: false, capturedAt: epoch(), stoppageBoundarySeconds: null, announcedMinutes: 0 } }
+      });
+      expect(posted('STATE').at(-1).payload).toMatchObject({ isRunning: false, totalMs: 5000 });
+      expect(mockCtx.fillText).toHaveBeenLastCalledWith('00:00:05', expect.any(Number), expect.any(Number));
+    });
+
+    it('rejects a malformed resume state', () => {
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: 1,
+          id: 1,
+          payload: {
+            canvas: { getContext: () => mockCtx },
+            config: {},
+            initialSeconds: 0,
+            resume: { totalMs: NaN, isRunning: true, capturedAt: 0, stoppageBoundarySeconds: null, announcedMinutes: 0 }
+          }
+        }
+      });
+      expect(posted('ERROR')[0]).toMatchObject({ code: 'INVALID_PAYLOAD', message: 'INIT: resume.totalMs must be a finite number' });
+    });
+  });
+
+  describe('Input latency compensation', () => {
+    const init = (extra: object = {}) => {
+      mockSelf.onmessage({
+        data: {
+          type: 'INIT',
+          v: CLOCK_PROTOCOL_VERSION,
+          payload: {
+            canvas: { getContext: () => mockCtx, width: 800, height: 600 },
+            config: { format: 'HH:MM:SS', precision: 'seconds' },
+            initialSeconds: 0,
+            ...extra
+          }
+        }
+      });
+    };
+    const epoch = () => performance.timeOrigin + performance.now();
+    const lastState = () => posted('STATE').at(-1).payload;
+
+    beforeEach(() => {
+      installFakeClock();
+      loadWorkerScript();
+    });
+
+    it('starts and pauses at the moment of the click, not on arrival', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION, issuedAt: epoch() - 400 } });
+      expect(lastState()).toMatchObject({ isRunning: true, totalMs: 400 });
+
+      vi.advanceTimersByTime(2000);
+      mockSelf.onmessage({ data: { type: 'PAUSE', v: CLOCK_PROTOCOL_VERSION, issuedAt: epoch() - 300 } });
+      expect(lastState()).toMatchObject({ isRunning: false, totalMs: 2100 });
+    });
+
+    it('anchors SET_TIME at the click', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION } });
+      mockSelf.onmessage({ data: { type: 'SET_TIME', v: CLOCK_PROTOCOL_VERSION, payload: { seconds: 60 }, issuedAt: epoch() - 250 } });
+      expect(lastState().totalMs).toBe(60_250);
+    });
+
+    it('compensates no further back than maxInputCompensationMs', () => {
+      init({ maxInputCompensationMs: 200 });
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION, issuedAt: epoch() - 5000 } });
+      expect(lastState().totalMs).toBe(200);
+    });
+
+    it('applies unstamped and future-stamped commands on arrival', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION, issuedAt: epoch() + 500 } });
+      expect(lastState().totalMs).toBe(0);
+      mockSelf.onmessage({ data: { type: 'PAUSE', v: CLOCK_PROTOCOL_VERSION } });
+      expect(lastState().totalMs).toBe(0);
+    });
+
+    it('rejects a malformed issuedAt', () => {
+      init();
+      mockSelf.onmessage({ data: { type: 'START', v: CLOCK_PROTOCOL_VERSION, id: 1, issuedAt: 'now' } });
+      expect(posted('ERROR')[0]).toMatchObject({ code: 'INVALID_PAYLOAD', message: 'START: issuedAt must be a finite number' });
+      expect(posted('STATE').at(-1).payload.isRunning).toBe(false);
+    });
+  });
+});
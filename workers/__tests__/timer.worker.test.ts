@@ -55,4 +55,13 @@ describe('Timer Worker Logic', () => {
     vi.advanceTimersByTime(500);
     expect(mockSelf.postMessage).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('ticks at the requested interval for sub-second displays', () => {
+    loadWorkerScript();
+
+    mockSelf.onmessage({ data: { type: 'START', payload: { intervalMs: 25 } } });
+    vi.advanceTimersByTime(100);
+
+    expect(mockSelf.postMessage).toHaveBeenCalledTimes(4);
+  });
+});